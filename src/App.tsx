@@ -2,29 +2,54 @@
 // SPDX‑License‑Identifier: AGPL‑3.0
 
 import React, { useState, useEffect, useCallback } from "react";
+import { Link } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { cn } from "@/lib/utils";
 import { EmptyStateCard } from '@/components/empty-state-card';
 import DragAndDropCardGrid from '@/components/drag-and-drop-card-grid';
 import '@/styles/empty-state.css';
-import { useFileHandlers } from './hooks/useFileHandlers';
+import { useFileHandlers, type FileItem } from './hooks/useFileHandlers';
 import { usePdfProcessing } from './hooks/usePdfProcessing';
+import { usePageOrganizer } from './hooks/usePageOrganizer';
+import { useDarkMode } from './hooks/useDarkMode';
 import { AnimatedDownloadButton } from "@/components/animated-download-button";
 import { trackError, trackEvent } from '@/lib/amplitude';
 import { RatingWidget } from "@/components/rating-widget";
+import { PageSelectionDialog } from "@/components/page-selection-dialog";
+import { PasswordDialog } from "@/components/password-dialog";
+import { SecuritySettingsPanel } from "@/components/security-settings";
+import { PageOrganizerGrid } from "@/components/page-organizer-grid";
+import { CompressionSettingsControl } from "@/components/compression-settings";
+import { BlankPageSettingsControl } from "@/components/blank-page-settings";
+import { ImagePageSizeControl } from "@/components/image-page-size-settings";
+import { ReflowSettingsControl } from "@/components/reflow-settings";
+import { PageStampControl } from "@/components/page-stamp-settings";
+import { WatermarkControl } from "@/components/watermark-settings";
+import { TableOfContentsControl } from "@/components/table-of-contents-settings";
+import { SeparatorControl } from "@/components/separator-settings";
+import { MergeStrategyControl } from "@/components/merge-strategy-settings";
+import { PageSizeControl } from "@/components/page-size-settings";
+import { MetadataPanel } from "@/components/metadata-settings";
+import { SanitizeControl, SanitizeReportSummary } from "@/components/sanitize-settings";
+import { AttachmentList } from "@/components/attachment-list";
+import { OutputModeControl, type OutputMode } from "@/components/output-mode-settings";
+import { SignedFilesDialog, type SignedFilesChoice } from "@/components/signed-files-dialog";
+import { pdfFileName } from "@/lib/file-names";
+import { ALL_PAGES_BLANK_ERROR, PAGE_SIZE_ERROR, STAMP_ERROR, WATERMARK_ERROR } from "./workers/mupdf.worker";
+import type { BlankPageSettings, CompressionSettings, DocumentMetadata, EmbeddedFileInfo, ImagePageSize, MergeStrategy, PageSizeSettings, PageStamp, ReflowSettings, SanitizeReport, SecuritySettings, SeparatorMode, Watermark } from "./workers/mupdf.worker";
+import { formatPageRanges } from "@/lib/page-ranges";
+import { isImageFile, isMergeInput, isReflowableFile, MERGE_INPUT_ACCEPT } from "@/lib/file-types";
 
 const CONTACT_EMAIL = import.meta.env.VITE_CONTACT_EMAIL || "antonmedve@gmail.com";
 const GITHUB_URL = import.meta.env.VITE_GITHUB_URL || "https://github.com/medve/document-tools-join";
 
+// How long the watermark settings have to stay unchanged before previews are rendered again
+const WATERMARK_PREVIEW_DELAY = 300;
+
 function generateId() {
   return Math.random().toString(36).slice(2) + Date.now().toString(36);
 }
 
-interface FileItem {
-  id: string;
-  file: File;
-}
-
 const App: React.FC = () => {
   const [files, setFiles] = useState<FileItem[]>([]);
   const [previews, setPreviews] = useState<Record<string, string | null>>({});
@@ -32,9 +57,37 @@ const App: React.FC = () => {
   const [isProcessing, setIsProcessing] = useState<boolean>(false);
   const [mergedPdfUrl, setMergedPdfUrl] = useState<string | null>(null);
   const [mergedPdfBlob, setMergedPdfBlob] = useState<Blob | null>(null);
+  // Encrypted copy of the merged PDF, downloaded instead of it when set
+  const [protectedPdf, setProtectedPdf] = useState<{ blob: Blob; security: SecuritySettings } | null>(null);
+  // Properties given to the merged PDF, and those of the first file to start from
+  const [metadata, setMetadata] = useState<DocumentMetadata | null>(null);
+  const [initialMetadata, setInitialMetadata] = useState<DocumentMetadata | null>(null);
+  // What was removed from the merged PDF when hidden data is removed
+  const [sanitizeReport, setSanitizeReport] = useState<SanitizeReport | null>(null);
+  // Files embedded in the merged PDF, kept from the files joined
+  const [attachments, setAttachments] = useState<EmbeddedFileInfo[]>([]);
   const [isDownloadSuccess, setIsDownloadSuccess] = useState(false);
   const [isDownloadLoading, setIsDownloadLoading] = useState(false);
   const [isContactOpen, setIsContactOpen] = useState(false);
+  const [pageSelectionId, setPageSelectionId] = useState<string | null>(null);
+  // Asking whether to bundle, flatten or keep the signatures of signed files
+  const [isSignedWarningOpen, setIsSignedWarningOpen] = useState(false);
+  // File whose password is being asked for
+  const [unlockId, setUnlockId] = useState<string | null>(null);
+  const [compression, setCompression] = useState<CompressionSettings>({ preset: 'balanced' });
+  const [removeBlankPages, setRemoveBlankPages] = useState<BlankPageSettings | undefined>();
+  const [imagePageSize, setImagePageSize] = useState<ImagePageSize>('a4');
+  const [reflow, setReflow] = useState<ReflowSettings>({ pageSize: 'a4', fontSize: 11 });
+  const [stamp, setStamp] = useState<PageStamp | undefined>();
+  const [watermark, setWatermark] = useState<Watermark | undefined>();
+  const [tableOfContents, setTableOfContents] = useState(false);
+  const [separators, setSeparators] = useState<SeparatorMode | undefined>();
+  const [strategy, setStrategy] = useState<MergeStrategy | undefined>();
+  const [pageSize, setPageSize] = useState<PageSizeSettings | undefined>();
+  const [sanitize, setSanitize] = useState(false);
+  const [outputMode, setOutputMode] = useState<OutputMode>('merge');
+  // Previews show the watermark, rendered again once it stops changing
+  const [previewWatermark, setPreviewWatermark] = useState<Watermark | undefined>();
 
   // Track app opened
   useEffect(() => {
@@ -51,34 +104,34 @@ const App: React.FC = () => {
   } = useFileHandlers({ setFiles, setPreviews, generateId });
 
   // PDF processing
-  const { isWorkerInitialized, generatePreviews, mergePdfs, rotateAndPreviewPdf } = usePdfProcessing(files, previews, setPreviews);
+  const { isWorkerInitialized, generatePreviews, findFormFieldCollisions, mergePdfs, mergeOrganizedPages, bundlePdfs, protectPdf, readFirstFileMetadata, setPdfMetadata, sanitizePdf, listPdfAttachments, renderFileThumbnails, unlockFile } = usePdfProcessing(files, setFiles, previews, setPreviews, previewWatermark);
+
+  // Page organizer mode
+  const organizer = usePageOrganizer({ files, renderFileThumbnails, generateId });
 
   // Dark mode effect
-  useEffect(() => {
-    try {
-      const mediaQuery = window.matchMedia('(prefers-color-scheme: dark)');
-      function updateDarkMode(e?: MediaQueryListEvent) {
-        if ((e && e.matches) || (!e && mediaQuery.matches)) {
-          document.documentElement.classList.add('dark');
-        } else {
-          document.documentElement.classList.remove('dark');
-        }
-      }
-      updateDarkMode();
-      mediaQuery.addEventListener('change', updateDarkMode);
-      return () => mediaQuery.removeEventListener('change', updateDarkMode);
-    } catch (error) {
-      trackError(error instanceof Error ? error : new Error(String(error)), {
-        context: 'dark_mode_handler'
-      });
-    }
-  }, []);
+  useDarkMode();
 
   // Generate previews when files are added
   useEffect(() => {
     if (isWorkerInitialized) generatePreviews();
   }, [files, isWorkerInitialized, generatePreviews]);
 
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      const isEmpty = watermark?.content.type === 'text' && !watermark.content.text.trim();
+      setPreviewWatermark(isEmpty ? undefined : watermark);
+      setPreviews(prev => Object.fromEntries(Object.keys(prev).map(id => [id, null])));
+    }, WATERMARK_PREVIEW_DELAY);
+    return () => clearTimeout(timeout);
+  }, [watermark]);
+
+  // Page order options refer to files by position, start over when files come, go or move
+  const fileOrder = files.map(f => f.id).join('\n');
+  useEffect(() => {
+    setStrategy(undefined);
+  }, [fileOrder]);
+
   // Page-wide drag and drop handlers
   useEffect(() => {
     let dragCounter = 0;
@@ -109,9 +162,7 @@ const App: React.FC = () => {
       dragCounter = 0;
       setIsPageDragActive(false);
       
-      const droppedFiles = Array.from(e.dataTransfer?.files || []).filter(
-        (file) => file.type === 'application/pdf'
-      );
+      const droppedFiles = Array.from(e.dataTransfer?.files || []).filter(isMergeInput);
       
       if (droppedFiles.length) {
         const newFileItems: FileItem[] = droppedFiles.map(file => ({ id: generateId(), file }));
@@ -147,32 +198,153 @@ const App: React.FC = () => {
   }, []);
 
   // Merge handler
-  const handleMerge = useCallback(async () => {
+  // Signed files are joined once it is decided what happens to their signatures
+  const handleMerge = useCallback(async (signatures?: Exclude<SignedFilesChoice, 'portfolio'>) => {
     if (isProcessing) return;
+    const locked = files.find(f => f.locked);
+    if (locked) {
+      alert(`"${locked.file.name}" is protected with a password. Unlock it before joining.`);
+      setUnlockId(locked.id);
+      return;
+    }
+    if (!signatures && files.some(f => f.signed)) {
+      setIsSignedWarningOpen(true);
+      return;
+    }
     setIsProcessing(true);
     try {
-      const mergedPdf = await mergePdfs();
-      const blob = new Blob([mergedPdf], { type: 'application/pdf' });
+      // Same-named form fields in different files would share their values after joining
+      const collisions = await findFormFieldCollisions();
+      let renameCollidingFields = false;
+      if (collisions.length > 0) {
+        const [{ name, docIndexes }] = collisions;
+        renameCollidingFields = window.confirm(
+          `${collisions.length} form field name(s) appear in more than one file, e.g. "${name}". ` +
+          `Rename them with a per-file prefix (like "doc${docIndexes[1] + 1}.${name}") so each copy keeps its own value?`
+        );
+      }
+      // Pages arranged by hand are merged in that order
+      const pageOrder = organizer.isActive ? undefined : strategy;
+      const options = {
+        renameCollidingFields,
+        compression,
+        removeBlankPages,
+        imagePageSize,
+        reflow,
+        stamps: stamp ? [stamp] : undefined,
+        watermark,
+        tableOfContents,
+        // Interleaved files change on every page
+        separators: pageOrder?.type === 'interleave' ? undefined : separators,
+        strategy: pageOrder,
+        pageSize,
+        flattenSignatures: signatures === 'flatten',
+      };
+      const mergedPdf = organizer.isActive
+        ? await mergeOrganizedPages(organizer.pages, options)
+        : await mergePdfs(options);
+      let blob = new Blob([mergedPdf], { type: 'application/pdf' });
+      let report: SanitizeReport | null = null;
+      if (sanitize) ({ blob, report } = await sanitizePdf(blob));
       const url = URL.createObjectURL(blob);
       setMergedPdfUrl(url);
       setMergedPdfBlob(blob);
+      setProtectedPdf(null);
+      setMetadata(null);
+      setInitialMetadata(null);
+      setSanitizeReport(report);
+      setAttachments([]);
+      listPdfAttachments(blob)
+        .then(setAttachments)
+        .catch(error => console.warn('Failed to list attached files:', error));
+      // Properties of the first file are hidden data too
+      if (!sanitize) {
+        readFirstFileMetadata()
+          .then(firstFileMetadata => setInitialMetadata(firstFileMetadata ?? null))
+          .catch(error => console.warn('Failed to read document properties:', error));
+      }
       trackEvent('files_joined', {
         count: files.length,
         names: files.map(f => f.file.name),
         sizes: files.map(f => f.file.size),
-        resultSize: blob.size
+        resultSize: blob.size,
+        mode: organizer.isActive ? 'pages' : 'files',
+        compression: compression.preset,
+        removeBlankPages: removeBlankPages !== undefined,
+        stamp: stamp !== undefined,
+        watermark: watermark?.content.type,
+        tableOfContents,
+        separators,
+        strategy: pageOrder?.type,
+        pageSize: pageSize?.paperSize,
+        sanitize,
+        signatures,
+        images: files.filter(f => isImageFile(f.file)).length
       });
     } catch (error) {
       trackError(error instanceof Error ? error : new Error(String(error)), {
         context: 'pdf_merge_handler',
         fileCount: files.length
       });
-      alert('Failed to merge PDFs. Please try again.');
+      if (error instanceof Error && error.name === ALL_PAGES_BLANK_ERROR) {
+        alert('Every page was detected as blank. Lower the blank page threshold or turn blank page removal off.');
+      } else if (error instanceof Error && error.name === STAMP_ERROR) {
+        alert(`Could not add page numbers: ${error.message}`);
+      } else if (error instanceof Error && error.name === WATERMARK_ERROR) {
+        alert(`Could not add the watermark: ${error.message}`);
+      } else if (error instanceof Error && error.name === PAGE_SIZE_ERROR) {
+        alert(`Could not resize the pages: ${error.message}`);
+      } else {
+        alert('Failed to merge PDFs. Please try again.');
+      }
+      console.error(error);
+    } finally {
+      setIsProcessing(false);
+    }
+  }, [findFormFieldCollisions, mergePdfs, mergeOrganizedPages, organizer.isActive, organizer.pages, compression, removeBlankPages, imagePageSize, reflow, stamp, watermark, tableOfContents, separators, strategy, pageSize, sanitize, readFirstFileMetadata, sanitizePdf, listPdfAttachments, isProcessing, files]);
+
+  // Portfolio handler, the files go in as they are, locked ones included
+  const handleBundle = useCallback(async () => {
+    if (isProcessing) return;
+    setIsProcessing(true);
+    try {
+      const blob = new Blob([await bundlePdfs()], { type: 'application/pdf' });
+      setMergedPdfUrl(URL.createObjectURL(blob));
+      setMergedPdfBlob(blob);
+      setProtectedPdf(null);
+      setMetadata(null);
+      setInitialMetadata(null);
+      setSanitizeReport(null);
+      setAttachments([]);
+      listPdfAttachments(blob)
+        .then(setAttachments)
+        .catch(error => console.warn('Failed to list attached files:', error));
+      trackEvent('files_bundled', {
+        count: files.length,
+        names: files.map(f => f.file.name),
+        sizes: files.map(f => f.file.size),
+        resultSize: blob.size,
+      });
+    } catch (error) {
+      trackError(error instanceof Error ? error : new Error(String(error)), {
+        context: 'pdf_bundle_handler',
+        fileCount: files.length
+      });
+      alert('Failed to create the portfolio. Please try again.');
       console.error(error);
     } finally {
       setIsProcessing(false);
     }
-  }, [mergePdfs, isProcessing, files]);
+  }, [bundlePdfs, listPdfAttachments, isProcessing, files]);
+
+  function handleSignedFilesChoice(choice: SignedFilesChoice) {
+    if (choice === 'portfolio') {
+      setOutputMode('portfolio');
+      handleBundle();
+    } else {
+      handleMerge(choice);
+    }
+  }
 
   // Reorder handler
   const handleReorder = useCallback((newItems: {id: string}[]) => {
@@ -208,8 +380,14 @@ const App: React.FC = () => {
   function clearPdfState() {
     try {
       handleClear();
+      organizer.close();
       setMergedPdfUrl(null);
       setMergedPdfBlob(null);
+      setProtectedPdf(null);
+      setMetadata(null);
+      setInitialMetadata(null);
+      setSanitizeReport(null);
+      setAttachments([]);
     } catch (error) {
       trackError(error instanceof Error ? error : new Error(String(error)), {
         context: 'pdf_state_clear'
@@ -224,18 +402,21 @@ const App: React.FC = () => {
     try {
       // Simulate loading (or do real async work here)
       await new Promise(r => setTimeout(r, 1200));
-      const url = mergedPdfUrl || URL.createObjectURL(mergedPdfBlob);
+      const url = protectedPdf
+        ? URL.createObjectURL(protectedPdf.blob)
+        : mergedPdfUrl || URL.createObjectURL(mergedPdfBlob);
       const link = document.createElement('a');
       link.href = url;
-      link.download = 'merged.pdf';
+      link.download = pdfFileName(metadata?.title);
       document.body.appendChild(link);
       link.click();
       document.body.removeChild(link);
       setIsDownloadSuccess(true);
       setTimeout(() => setIsDownloadSuccess(false), 1800);
       trackEvent('file_downloaded', {
-        size: mergedPdfBlob.size,
-        url: url
+        size: (protectedPdf?.blob ?? mergedPdfBlob).size,
+        url: url,
+        encrypted: protectedPdf !== null
       });
     } catch (error) {
       trackError(error instanceof Error ? error : new Error(String(error)), {
@@ -247,23 +428,61 @@ const App: React.FC = () => {
     }
   }
 
-  // Rotate handler for a single file
-  const handleRotate = useCallback(async (id: string) => {
-    const item = files.find(f => f.id === id);
-    if (!item) return;
-    setIsProcessing(true);
-    try {
-      const result = await rotateAndPreviewPdf(item);
-      if (!result) return;
-      setFiles(prev => prev.map(f => f.id === id ? { ...f, file: result.rotatedFile } : f));
-      setPreviews(prev => ({ ...prev, [id]: result.preview }));
-    } catch (error) {
-      alert('Failed to rotate PDF.');
-      console.error(error);
-    } finally {
-      setIsProcessing(false);
+  // Encrypt the merged PDF, always starting from the unencrypted one
+  async function handleProtect(security: SecuritySettings) {
+    if (!mergedPdfBlob) return;
+    const blob = await protectPdf(mergedPdfBlob, security);
+    setProtectedPdf({ blob, security });
+    trackEvent('file_protected', {
+      method: security.method,
+      userPassword: Boolean(security.userPassword),
+      ownerPassword: Boolean(security.ownerPassword)
+    });
+  }
+
+  // Set the properties of the merged PDF, encrypting it again if it was protected
+  async function handleMetadata(newMetadata: DocumentMetadata) {
+    if (!mergedPdfBlob) return;
+    const blob = await setPdfMetadata(mergedPdfBlob, newMetadata);
+    if (protectedPdf) {
+      setProtectedPdf({ blob: await protectPdf(blob, protectedPdf.security), security: protectedPdf.security });
     }
-  }, [files, rotateAndPreviewPdf]);
+    setMergedPdfBlob(blob);
+    setMergedPdfUrl(URL.createObjectURL(blob));
+    setMetadata(newMetadata);
+    trackEvent('metadata_edited', {
+      title: Boolean(newMetadata.title.trim()),
+      author: Boolean(newMetadata.author.trim()),
+    });
+  }
+
+  // Rotate handler for a single file
+  const handleRotate = useCallback((id: string, degrees: number) => {
+    // Only the angle is stored, the file itself is rotated when merging.
+    // Clearing the preview renders it again with the new rotation.
+    setFiles(prev => prev.map(f => f.id === id
+      ? { ...f, rotation: ((((f.rotation ?? 0) + degrees) % 360) + 360) % 360 }
+      : f
+    ));
+    setPreviews(prev => ({ ...prev, [id]: null }));
+  }, []);
+
+  // Page selection handler for a single file
+  const handleSavePageSelection = useCallback((id: string, pages: number[] | undefined) => {
+    setFiles(prev => prev.map(f => f.id === id ? { ...f, pages } : f));
+    trackEvent('pages_selected', {
+      count: pages?.length,
+      allPages: pages === undefined
+    });
+  }, []);
+
+  const pageSelectionItem = files.find(f => f.id === pageSelectionId);
+  // Stays the same while the file is unchanged, so the dialog loads the thumbnails once
+  const loadPageSelectionThumbnails = useCallback(
+    () => pageSelectionItem ? renderFileThumbnails(pageSelectionItem) : Promise.resolve([]),
+    [pageSelectionItem, renderFileThumbnails]
+  );
+  const unlockItem = files.find(f => f.id === unlockId);
 
   return (
     <div
@@ -293,25 +512,40 @@ const App: React.FC = () => {
             PDF joiner
           </span>
         </div>
-        <button
-          type="button"
-          onClick={() => setIsContactOpen(true)}
-          style={{
-            color: '#999999',
-            fontSize: 16,
-            fontFamily: 'Gabarito',
-            fontWeight: 500,
-            lineHeight: '14.4px',
-            wordWrap: 'break-word',
-            background: 'none',
-            border: 'none',
-            cursor: 'pointer',
-            textDecoration: 'none',
-            letterSpacing: 0,
-          }}
-        >
-          Contact us
-        </button>
+        <div className="flex items-center gap-6">
+          <Link
+            to="/split"
+            style={{
+              color: '#999999',
+              fontSize: 16,
+              fontFamily: 'Gabarito',
+              fontWeight: 500,
+              lineHeight: '14.4px',
+              textDecoration: 'none',
+            }}
+          >
+            Split PDF
+          </Link>
+          <button
+            type="button"
+            onClick={() => setIsContactOpen(true)}
+            style={{
+              color: '#999999',
+              fontSize: 16,
+              fontFamily: 'Gabarito',
+              fontWeight: 500,
+              lineHeight: '14.4px',
+              wordWrap: 'break-word',
+              background: 'none',
+              border: 'none',
+              cursor: 'pointer',
+              textDecoration: 'none',
+              letterSpacing: 0,
+            }}
+          >
+            Contact us
+          </button>
+        </div>
       </header>
       {/* Contact Modal */}
       {isContactOpen && (
@@ -371,7 +605,9 @@ const App: React.FC = () => {
             <div className="bg-white dark:bg-[#182B47] rounded-2xl shadow-lg flex flex-col items-center px-8 py-10 gap-0 max-w-[600px] w-full">
               <img src="/icons/thumbs-up.svg" alt="Merged!" className="w-10 h-10 mb-0" />
               <div style={{ height: 24 }} />
-              <div className="font-gabarito text-2xl font-bold text-center text-[#0C1A2D] dark:text-white">PDFs have been merged!</div>
+              <div className="font-gabarito text-2xl font-bold text-center text-[#0C1A2D] dark:text-white">
+                {outputMode === 'portfolio' ? 'Portfolio has been created!' : 'PDFs have been merged!'}
+              </div>
               <div style={{ height: 24 }} />
               <div className="flex flex-row items-center gap-2 mt-0">
                 <div className="w-full flex justify-center">
@@ -381,11 +617,31 @@ const App: React.FC = () => {
                       isSuccess={isDownloadSuccess}
                       onClick={handleDownload}
                     >
-                      <span className="dark:text-gray-900">Download merged PDF</span>
+                      <span className="dark:text-gray-900">{outputMode === 'portfolio' ? 'Download portfolio' : 'Download merged PDF'}</span>
                     </AnimatedDownloadButton>
                   </div>
                 </div>
               </div>
+              {sanitizeReport && (
+                <div className="mt-6 w-full">
+                  <SanitizeReportSummary report={sanitizeReport} />
+                </div>
+              )}
+              {attachments.length > 0 && (
+                <div className="mt-6 w-full">
+                  <AttachmentList attachments={attachments} />
+                </div>
+              )}
+              <div className="mt-6 w-full">
+                <MetadataPanel applied={metadata} initial={initialMetadata} onApply={handleMetadata} />
+              </div>
+              <div className="mt-6 w-full">
+                <SecuritySettingsPanel
+                  applied={protectedPdf?.security ?? null}
+                  onApply={handleProtect}
+                  onRemove={() => setProtectedPdf(null)}
+                />
+              </div>
               <RatingWidget className="mt-6" />
             </div>
             <Button
@@ -400,29 +656,144 @@ const App: React.FC = () => {
           <EmptyStateCard
             isProcessing={isProcessing}
             onFileSelect={handleFileInput}
+            accept={MERGE_INPUT_ACCEPT}
           />
         ) : (
           <div className="w-full max-w-screen-xl mx-auto flex-1 flex flex-col pb-32">
-            <DragAndDropCardGrid
-              items={files.map(f => ({ id: f.id, name: cropFileName(f.file.name), preview: previews[f.id] }))}
-              onDelete={handleDelete}
-              onReorder={handleReorder}
-              isProcessing={isProcessing}
-              onFileSelect={handleFileInput}
-              onRotate={handleRotate}
-            />
+            <div className="flex justify-center gap-2 mb-4" role="group" aria-label="Arrange by">
+              <Button
+                size="sm"
+                variant={organizer.isActive ? 'outline' : 'default'}
+                onClick={organizer.close}
+              >
+                Files
+              </Button>
+              <Button
+                size="sm"
+                variant={organizer.isActive ? 'default' : 'outline'}
+                disabled={!isWorkerInitialized}
+                onClick={organizer.open}
+              >
+                Pages
+              </Button>
+            </div>
+            {organizer.isActive && organizer.failedFileIds.length > 0 && (
+              <p className="mb-4 text-center text-sm text-red-500">
+                Could not read the pages of {organizer.failedFileIds
+                  .map(id => files.find(f => f.id === id)?.file.name)
+                  .filter(Boolean)
+                  .join(', ')}. Remove the file or add it again.
+              </p>
+            )}
+            {organizer.isActive ? (
+              <PageOrganizerGrid
+                items={organizer.pages.map(page => {
+                  const file = files.find(f => f.id === page.fileId);
+                  return {
+                    id: page.id,
+                    name: file ? cropFileName(file.file.name, 20) : '',
+                    pageNumber: page.pageIndex + 1,
+                    rotation: page.rotation,
+                    preview: organizer.thumbnails[page.fileId]?.[page.pageIndex] ?? null
+                  };
+                })}
+                isProcessing={isProcessing}
+                onFileSelect={handleFileInput}
+                onReorder={organizer.reorderPages}
+                onDelete={organizer.deletePage}
+                onDuplicate={organizer.duplicatePage}
+                onRotate={organizer.rotatePage}
+              />
+            ) : (
+              <DragAndDropCardGrid
+                items={files.map(f => ({
+                  id: f.id,
+                  name: cropFileName(f.file.name),
+                  preview: previews[f.id],
+                  pageSelection: f.pages && formatPageRanges(f.pages),
+                  locked: f.locked,
+                  signed: f.signed
+                }))}
+                onDelete={handleDelete}
+                onReorder={handleReorder}
+                isProcessing={isProcessing}
+                onFileSelect={handleFileInput}
+                onRotate={handleRotate}
+                onSelectPages={id => files.find(f => f.id === id)?.locked ? setUnlockId(id) : setPageSelectionId(id)}
+                onUnlock={setUnlockId}
+              />
+            )}
+            {pageSelectionItem && (
+              <PageSelectionDialog
+                open
+                fileName={pageSelectionItem.file.name}
+                pages={pageSelectionItem.pages}
+                rotation={pageSelectionItem.rotation}
+                loadThumbnails={loadPageSelectionThumbnails}
+                onOpenChange={open => { if (!open) setPageSelectionId(null); }}
+                onSave={pages => handleSavePageSelection(pageSelectionItem.id, pages)}
+              />
+            )}
+            {unlockItem && (
+              <PasswordDialog
+                open
+                fileName={unlockItem.file.name}
+                onOpenChange={open => { if (!open) setUnlockId(null); }}
+                onUnlock={password => unlockFile(unlockItem, password)}
+              />
+            )}
+            {isSignedWarningOpen && (
+              <SignedFilesDialog
+                open
+                fileNames={files.filter(f => f.signed).map(f => f.file.name)}
+                onOpenChange={setIsSignedWarningOpen}
+                onChoose={handleSignedFilesChoice}
+              />
+            )}
           </div>
         )}
       </main>
       {/* Fixed Join PDFs button at the bottom, overlays grid if needed */}
       {files.length > 0 && !mergedPdfUrl && (
-        <footer className="fixed bottom-0 left-0 w-full bg-white dark:bg-[#182B47] py-6 flex justify-center z-50 shadow-[0_-2px_8px_rgba(0,0,0,0.04)]">
+        <footer className="fixed bottom-0 left-0 w-full bg-white dark:bg-[#182B47] py-4 flex flex-col items-center gap-3 z-50 shadow-[0_-2px_8px_rgba(0,0,0,0.04)]">
+          <OutputModeControl value={outputMode} onChange={setOutputMode} disabled={isProcessing} />
+          {/* A portfolio keeps the files as they are, page settings don't apply */}
+          {outputMode === 'merge' && (
+            <>
+              <CompressionSettingsControl value={compression} onChange={setCompression} disabled={isProcessing} />
+              <BlankPageSettingsControl value={removeBlankPages} onChange={setRemoveBlankPages} disabled={isProcessing} />
+              <PageSizeControl value={pageSize} onChange={setPageSize} disabled={isProcessing} />
+              <PageStampControl value={stamp} onChange={setStamp} disabled={isProcessing} />
+              <WatermarkControl value={watermark} onChange={setWatermark} disabled={isProcessing} />
+              <TableOfContentsControl value={tableOfContents} onChange={setTableOfContents} disabled={isProcessing} />
+              <SanitizeControl value={sanitize} onChange={setSanitize} disabled={isProcessing} />
+              {files.length > 1 && !organizer.isActive && (
+                <MergeStrategyControl
+                  value={strategy}
+                  onChange={setStrategy}
+                  fileNames={files.map(f => f.file.name)}
+                  disabled={isProcessing}
+                />
+              )}
+              {files.length > 1 && (organizer.isActive || strategy?.type !== 'interleave') && (
+                <SeparatorControl value={separators} onChange={setSeparators} disabled={isProcessing} />
+              )}
+              {files.some(f => isImageFile(f.file)) && (
+                <ImagePageSizeControl value={imagePageSize} onChange={setImagePageSize} disabled={isProcessing} />
+              )}
+              {files.some(f => isReflowableFile(f.file)) && (
+                <ReflowSettingsControl value={reflow} onChange={setReflow} disabled={isProcessing} />
+              )}
+            </>
+          )}
           <Button
             className="w-full max-w-md bg-red-500 hover:bg-red-600 text-white font-semibold rounded-lg px-6 py-4 text-lg shadow-lg border-0"
-            disabled={isProcessing}
-            onClick={handleMerge}
+            disabled={isProcessing || (outputMode === 'merge' && organizer.isActive && organizer.pages.length === 0)}
+            onClick={() => outputMode === 'portfolio' ? handleBundle() : handleMerge()}
           >
-            {isProcessing ? 'Joining…' : 'Join PDFs'}
+            {outputMode === 'portfolio'
+              ? (isProcessing ? 'Bundling…' : 'Create portfolio')
+              : (isProcessing ? 'Joining…' : 'Join PDFs')}
           </Button>
         </footer>
       )}
@@ -0,0 +1,309 @@
+// Copyright © 2025 Anton Medvedev
+// SPDX‑License‑Identifier: AGPL‑3.0
+
+import React, { useCallback, useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { cn } from "@/lib/utils";
+import { EmptyStateCard } from '@/components/empty-state-card';
+import '@/styles/empty-state.css';
+import { AnimatedDownloadButton } from "@/components/animated-download-button";
+import { PasswordDialog } from "@/components/password-dialog";
+import { useMupdf } from './hooks/useMupdf';
+import { isPasswordRequiredError } from './hooks/usePdfProcessing';
+import { useDarkMode } from './hooks/useDarkMode';
+import { trackError, trackEvent } from '@/lib/amplitude';
+import { parseSplitRanges } from '@/lib/page-ranges';
+import { zipSplitParts } from '@/lib/split-files';
+import type { SplitMode } from './workers/mupdf.worker';
+
+type SplitModeType = SplitMode['type'];
+
+const SPLIT_MODES: { type: SplitModeType; label: string }[] = [
+  { type: 'ranges', label: 'By ranges' },
+  { type: 'everyNPages', label: 'Every N pages' },
+  { type: 'bookmarks', label: 'By bookmarks' },
+  { type: 'fileSize', label: 'By file size' },
+];
+
+const linkStyle: React.CSSProperties = {
+  color: '#999999',
+  fontSize: 16,
+  fontFamily: 'Gabarito',
+  fontWeight: 500,
+  lineHeight: '14.4px',
+  textDecoration: 'none',
+};
+
+const Split: React.FC = () => {
+  const { isWorkerInitialized, splitDocument, countPages, unlockDocument, renderFirstPage } = useMupdf();
+  const [file, setFile] = useState<File | null>(null);
+  // Selected file that needs a password before it can be read
+  const [lockedFile, setLockedFile] = useState<File | null>(null);
+  const [pageCount, setPageCount] = useState<number | null>(null);
+  const [preview, setPreview] = useState<string | null>(null);
+  const [modeType, setModeType] = useState<SplitModeType>('ranges');
+  const [rangesText, setRangesText] = useState('');
+  const [pagesPerPart, setPagesPerPart] = useState('1');
+  const [maxSizeMb, setMaxSizeMb] = useState('5');
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [result, setResult] = useState<{ blob: Blob; partCount: number } | null>(null);
+  const [isDownloadSuccess, setIsDownloadSuccess] = useState(false);
+
+  useDarkMode();
+
+  // Read page count and preview of the selected file
+  useEffect(() => {
+    if (!file || !isWorkerInitialized) return;
+    let cancelled = false;
+    file.arrayBuffer()
+      .then(async (buffer) => {
+        const count = await countPages(buffer);
+        const firstPage = await renderFirstPage(buffer);
+        if (!cancelled) {
+          setPageCount(count);
+          setPreview(firstPage);
+        }
+      })
+      .catch(error => {
+        if (cancelled) return;
+        if (isPasswordRequiredError(error)) {
+          setLockedFile(file);
+          return;
+        }
+        console.error(error);
+        alert('Failed to open PDF.');
+        setFile(null);
+      });
+    return () => { cancelled = true; };
+  }, [file, isWorkerInitialized, countPages, renderFirstPage]);
+
+  const selectFile = useCallback((files: File[]) => {
+    const pdf = files.find(f => f.type === 'application/pdf');
+    if (!pdf) return;
+    setFile(pdf);
+    setPageCount(null);
+    setPreview(null);
+    setResult(null);
+    trackEvent('split_file_added', { size: pdf.size });
+  }, []);
+
+  const handleFileInput = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
+    selectFile(Array.from(event.target.files || []));
+    event.target.value = '';
+  }, [selectFile]);
+
+  const handleDrop = useCallback((event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    selectFile(Array.from(event.dataTransfer.files || []));
+  }, [selectFile]);
+
+  const ranges = pageCount !== null ? parseSplitRanges(rangesText, pageCount) : null;
+  const pagesPerPartNumber = Number(pagesPerPart);
+  const maxSizeBytes = Number(maxSizeMb) * 1024 * 1024;
+
+  function buildMode(): SplitMode | null {
+    switch (modeType) {
+      case 'ranges':
+        return ranges && ranges.length > 0 ? { type: 'ranges', ranges } : null;
+      case 'everyNPages':
+        return Number.isInteger(pagesPerPartNumber) && pagesPerPartNumber > 0
+          ? { type: 'everyNPages', pagesPerPart: pagesPerPartNumber }
+          : null;
+      case 'bookmarks':
+        return { type: 'bookmarks' };
+      case 'fileSize':
+        return maxSizeBytes > 0 ? { type: 'fileSize', maxBytes: maxSizeBytes } : null;
+    }
+  }
+
+  const mode = pageCount !== null ? buildMode() : null;
+
+  async function handleSplit() {
+    if (!file || !mode || isProcessing) return;
+    setIsProcessing(true);
+    try {
+      const buffer = await file.arrayBuffer();
+      const parts = await splitDocument(buffer, mode, file.name);
+      const zip = zipSplitParts(file.name, parts);
+      const blob = new Blob([zip], { type: 'application/zip' });
+      setResult({ blob, partCount: parts.length });
+      trackEvent('file_split', {
+        mode: mode.type,
+        pageCount,
+        partCount: parts.length,
+        size: file.size,
+        resultSize: blob.size
+      });
+    } catch (error) {
+      trackError(error instanceof Error ? error : new Error(String(error)), {
+        context: 'pdf_split_handler',
+        mode: mode.type
+      });
+      alert(error instanceof Error && error.message.includes('no bookmarks')
+        ? 'This PDF has no bookmarks to split at.'
+        : 'Failed to split PDF. Please try again.');
+      console.error(error);
+    } finally {
+      setIsProcessing(false);
+    }
+  }
+
+  function handleDownload() {
+    if (!result || !file) return;
+    const url = URL.createObjectURL(result.blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${file.name.replace(/\.pdf$/i, '')}_split.zip`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+    setIsDownloadSuccess(true);
+    setTimeout(() => setIsDownloadSuccess(false), 1800);
+    trackEvent('split_downloaded', { size: result.blob.size });
+  }
+
+  async function handleUnlock(password: string) {
+    if (!lockedFile) return;
+    const unlocked = await unlockDocument(await lockedFile.arrayBuffer(), password);
+    setFile(new File([unlocked], lockedFile.name, { type: 'application/pdf', lastModified: lockedFile.lastModified }));
+    setLockedFile(null);
+  }
+
+  function handleUnlockDialogChange(open: boolean) {
+    if (open) return;
+    // Closing without the password gives up on the file
+    setFile(current => current === lockedFile ? null : current);
+    setLockedFile(null);
+  }
+
+  function reset() {
+    setFile(null);
+    setPageCount(null);
+    setPreview(null);
+    setResult(null);
+  }
+
+  return (
+    <div
+      className={cn(
+        "min-h-screen w-full flex flex-col",
+        "bg-[url('/background-tile.svg')] bg-repeat bg-[length:64px_64px]",
+        "dark:bg-[url('/background-tile-dark.svg')] dark:bg-repeat dark:bg-[length:64px_64px]"
+      )}
+      onDragOver={e => e.preventDefault()}
+      onDrop={handleDrop}
+    >
+      <header className="w-full flex items-center justify-between px-6 py-4 md:px-12 md:py-6 z-50 fixed top-0 left-0 bg-transparent dark:bg-transparent">
+        <Link to="/" className="flex items-center gap-3" style={{ textDecoration: 'none', color: 'inherit' }}>
+          <img src="/icons/app-icon.svg" alt="PDF joiner logo" className="h-8 w-8" />
+          <span
+            style={{
+              fontSize: 24,
+              fontFamily: 'Gabarito',
+              fontWeight: 600,
+              lineHeight: '21.6px',
+            }}
+            className="logo-text"
+          >
+            PDF joiner
+          </span>
+        </Link>
+        <Link to="/" style={linkStyle}>Join PDFs</Link>
+      </header>
+      <main className="flex-1 flex items-start justify-center px-2 py-6 pt-24">
+        {!file ? (
+          <EmptyStateCard isProcessing={isProcessing} onFileSelect={handleFileInput} />
+        ) : result ? (
+          <div className="bg-white dark:bg-[#182B47] rounded-2xl shadow-lg flex flex-col items-center px-8 py-10 gap-6 max-w-[600px] w-full">
+            <div className="font-gabarito text-2xl font-bold text-center text-[#0C1A2D] dark:text-white">
+              PDF has been split into {result.partCount} {result.partCount === 1 ? 'file' : 'files'}!
+            </div>
+            <div className="rounded-full bg-neutral-800 dark:bg-white text-white dark:text-gray-900">
+              <AnimatedDownloadButton isSuccess={isDownloadSuccess} onClick={handleDownload}>
+                <span className="dark:text-gray-900">Download ZIP</span>
+              </AnimatedDownloadButton>
+            </div>
+            <Button variant="outline" onClick={reset}>Split another PDF</Button>
+          </div>
+        ) : (
+          <div className="bg-white dark:bg-[#182B47] rounded-2xl shadow-lg flex flex-col sm:flex-row gap-8 p-8 max-w-[720px] w-full">
+            <div className="flex flex-col items-center gap-2 w-full sm:w-48 shrink-0">
+              <div className="h-48 w-full flex items-center justify-center">
+                {preview ? (
+                  <img src={preview} alt={file.name} className="object-contain max-h-48 max-w-full rounded" />
+                ) : (
+                  <span className="text-gray-400 text-xs">Loading...</span>
+                )}
+              </div>
+              <p className="truncate w-full text-center text-sm font-medium dark:text-white" title={file.name}>{file.name}</p>
+              {pageCount !== null && <p className="text-xs text-gray-500 dark:text-gray-300">{pageCount} pages</p>}
+              <Button variant="ghost" size="sm" onClick={reset}>Choose another file</Button>
+            </div>
+            <div className="flex flex-col gap-4 flex-1">
+              <div className="grid grid-cols-2 gap-2" role="radiogroup" aria-label="Split mode">
+                {SPLIT_MODES.map(({ type, label }) => (
+                  <Button
+                    key={type}
+                    role="radio"
+                    aria-checked={modeType === type}
+                    variant={modeType === type ? 'default' : 'outline'}
+                    onClick={() => setModeType(type)}
+                  >
+                    {label}
+                  </Button>
+                ))}
+              </div>
+              {modeType === 'ranges' && (
+                <label className="flex flex-col gap-1 text-sm dark:text-white">
+                  Page ranges, one file per range
+                  <Input value={rangesText} onChange={e => setRangesText(e.target.value)} placeholder="1-3,4-8,9-" />
+                  {rangesText.trim() !== '' && !ranges && pageCount !== null && (
+                    <span className="text-red-500">Enter ranges of pages between 1 and {pageCount}, like 1-3,4-8,9-</span>
+                  )}
+                </label>
+              )}
+              {modeType === 'everyNPages' && (
+                <label className="flex flex-col gap-1 text-sm dark:text-white">
+                  Pages per file
+                  <Input type="number" min={1} value={pagesPerPart} onChange={e => setPagesPerPart(e.target.value)} />
+                </label>
+              )}
+              {modeType === 'bookmarks' && (
+                <p className="text-sm text-gray-600 dark:text-gray-300">
+                  A new file starts at every top-level bookmark.
+                </p>
+              )}
+              {modeType === 'fileSize' && (
+                <label className="flex flex-col gap-1 text-sm dark:text-white">
+                  Maximum file size, MB
+                  <Input type="number" min={0.1} step={0.1} value={maxSizeMb} onChange={e => setMaxSizeMb(e.target.value)} />
+                  <span className="text-gray-500 dark:text-gray-300">Pages larger than this get a file of their own.</span>
+                </label>
+              )}
+              <Button
+                className="mt-auto bg-red-500 hover:bg-red-600 text-white font-semibold rounded-lg px-6 py-4 text-lg border-0"
+                disabled={!mode || isProcessing}
+                onClick={handleSplit}
+              >
+                {isProcessing ? 'Splitting…' : 'Split PDF'}
+              </Button>
+            </div>
+          </div>
+        )}
+        {lockedFile && (
+          <PasswordDialog
+            open
+            fileName={lockedFile.name}
+            onOpenChange={handleUnlockDialogChange}
+            onUnlock={handleUnlock}
+          />
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default Split;
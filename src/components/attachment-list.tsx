@@ -0,0 +1,35 @@
+// Copyright © 2025 Anton Medvedev
+// SPDX‑License‑Identifier: AGPL‑3.0
+
+import { Paperclip } from "lucide-react";
+import type { EmbeddedFileInfo } from "../workers/mupdf.worker";
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+interface AttachmentListProps {
+  attachments: EmbeddedFileInfo[];
+}
+
+// Lists the files embedded in the merged document
+export function AttachmentList({ attachments }: AttachmentListProps) {
+  return (
+    <div className="flex flex-col items-center gap-1 text-sm text-gray-700 dark:text-gray-200">
+      <span className="flex items-center gap-1 font-medium">
+        <Paperclip className="h-4 w-4" />
+        {attachments.length === 1 ? '1 attached file kept' : `${attachments.length} attached files kept`}
+      </span>
+      <ul className="flex flex-col items-center gap-1">
+        {attachments.map(attachment => (
+          <li key={attachment.name} className="flex gap-2 max-w-full">
+            <span className="truncate max-w-64" title={attachment.name}>{attachment.name}</span>
+            <span className="text-gray-500 dark:text-gray-400">{formatSize(attachment.size)}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+// Copyright © 2025 Anton Medvedev
+// SPDX‑License‑Identifier: AGPL‑3.0
+
+import { Input } from "@/components/ui/input";
+import type { BlankPageSettings } from "../workers/mupdf.worker";
+
+// Low enough to keep a page with a single line of text
+const DEFAULT_THRESHOLD = 0.1;
+
+interface BlankPageSettingsControlProps {
+  // Undefined keeps blank pages
+  value: BlankPageSettings | undefined;
+  onChange: (value: BlankPageSettings | undefined) => void;
+  disabled?: boolean;
+}
+
+export function BlankPageSettingsControl({ value, onChange, disabled }: BlankPageSettingsControlProps) {
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-2 text-sm text-gray-700 dark:text-gray-200">
+      <label className="flex items-center gap-2">
+        <input
+          type="checkbox"
+          checked={value !== undefined}
+          disabled={disabled}
+          onChange={e => onChange(e.target.checked ? { threshold: DEFAULT_THRESHOLD } : undefined)}
+        />
+        Remove blank pages
+      </label>
+      {value && (
+        <label className="flex items-center gap-1" title="Pages with at most this share of non-white pixels are removed">
+          Threshold
+          <Input
+            type="number"
+            min={0}
+            max={100}
+            step={0.05}
+            className="h-9 w-20"
+            value={value.threshold}
+            disabled={disabled}
+            onChange={e => onChange({ threshold: Number(e.target.value) })}
+          />
+          %
+        </label>
+      )}
+    </div>
+  );
+}
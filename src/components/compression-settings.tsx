@@ -0,0 +1,65 @@
+// Copyright © 2025 Anton Medvedev
+// SPDX‑License‑Identifier: AGPL‑3.0
+
+import { Input } from "@/components/ui/input";
+import type { CompressionSettings } from "../workers/mupdf.worker";
+
+const PRESETS: { value: CompressionSettings['preset']; label: string }[] = [
+  { value: 'lossless', label: 'Lossless' },
+  { value: 'balanced', label: 'Balanced (150 dpi)' },
+  { value: 'maximum', label: 'Maximum compression (96 dpi)' },
+  { value: 'custom', label: 'Custom' },
+];
+
+interface CompressionSettingsControlProps {
+  value: CompressionSettings;
+  onChange: (value: CompressionSettings) => void;
+  disabled?: boolean;
+}
+
+export function CompressionSettingsControl({ value, onChange, disabled }: CompressionSettingsControlProps) {
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-2 text-sm text-gray-700 dark:text-gray-200">
+      <label className="flex items-center gap-2">
+        Compression
+        <select
+          className="h-9 rounded-md border border-input bg-background px-2 text-sm"
+          value={value.preset}
+          disabled={disabled}
+          onChange={e => onChange({ ...value, preset: e.target.value as CompressionSettings['preset'] })}
+        >
+          {PRESETS.map(preset => (
+            <option key={preset.value} value={preset.value}>{preset.label}</option>
+          ))}
+        </select>
+      </label>
+      {value.preset === 'custom' && (
+        <>
+          <label className="flex items-center gap-1">
+            DPI
+            <Input
+              type="number"
+              min={1}
+              className="h-9 w-20"
+              value={value.dpi ?? 150}
+              disabled={disabled}
+              onChange={e => onChange({ ...value, dpi: Number(e.target.value) })}
+            />
+          </label>
+          <label className="flex items-center gap-1">
+            Quality
+            <Input
+              type="number"
+              min={1}
+              max={100}
+              className="h-9 w-20"
+              value={value.quality ?? 70}
+              disabled={disabled}
+              onChange={e => onChange({ ...value, quality: Number(e.target.value) })}
+            />
+          </label>
+        </>
+      )}
+    </div>
+  );
+}
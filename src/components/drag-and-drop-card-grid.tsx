@@ -11,7 +11,7 @@ import {
 } from "@dnd-kit/sortable";
 import { CSS } from "@dnd-kit/utilities";
 import { Card, CardContent } from "@/components/ui/card";
-import { X } from "lucide-react";
+import { FileSignature, Layers, Lock, RotateCcw, X } from "lucide-react";
 import { DragAndDropUploadCard } from "@/components/drag-and-drop-upload-card";
 import { SyntheticListenerMap } from '@dnd-kit/core/dist/hooks/utilities';
 import { Transform } from '@dnd-kit/utilities';
@@ -23,6 +23,12 @@ interface CardItem {
   id: string;
   name: string;
   preview: string | null;
+  // Summary of the selected pages, e.g. "1-3,7", when not all pages are merged
+  pageSelection?: string;
+  // Encrypted, the preview is shown once the password is entered
+  locked?: boolean;
+  // Digitally signed or certified
+  signed?: boolean;
 }
 
 interface DragAndDropCardGridProps {
@@ -31,15 +37,22 @@ interface DragAndDropCardGridProps {
   onReorder: (newItems: CardItem[]) => void;
   isProcessing: boolean;
   onFileSelect: (event: React.ChangeEvent<HTMLInputElement>) => void;
-  onRotate: (id: string) => void;
+  onRotate: (id: string, degrees: number) => void;
+  onSelectPages: (id: string) => void;
+  onUnlock: (id: string) => void;
 }
 
 interface SortableCardProps {
   id: string;
   name: string;
   preview: string | null;
+  pageSelection?: string;
+  locked?: boolean;
+  signed?: boolean;
   onDelete: (id: string) => void;
-  onRotate: (id: string) => void;
+  onRotate: (id: string, degrees: number) => void;
+  onSelectPages: (id: string) => void;
+  onUnlock: (id: string) => void;
   listeners: SyntheticListenerMap | undefined;
   attributes: HTMLAttributes<Element>;
   setNodeRef: (element: HTMLElement | null) => void;
@@ -48,7 +61,7 @@ interface SortableCardProps {
   isDragging: boolean;
 }
 
-function SortableCard({ id, name, preview, onDelete, onRotate, listeners, attributes, setNodeRef, transform, transition, isDragging }: SortableCardProps) {
+function SortableCard({ id, name, preview, pageSelection, locked, signed, onDelete, onRotate, onSelectPages, onUnlock, listeners, attributes, setNodeRef, transform, transition, isDragging }: SortableCardProps) {
   const style = {
     transform: CSS.Transform.toString(transform),
     transition,
@@ -84,19 +97,49 @@ function SortableCard({ id, name, preview, onDelete, onRotate, listeners, attrib
         >
           <X className="h-4 w-4" />
         </button>
-        {/* Rotate button */}
+        {/* Rotate buttons */}
         <button
           className="absolute top-2 left-2 w-7 h-7 bg-white dark:bg-[#101A26] rounded-full flex items-center justify-center z-10 shadow-sm p-1 text-gray-400 hover:bg-gray-100 hover:text-gray-600 focus:outline-none"
-          aria-label="Rotate"
-          onClick={e => { e.stopPropagation(); onRotate(id); }}
+          aria-label="Rotate left"
+          onClick={e => { e.stopPropagation(); onRotate(id, -90); }}
+          onPointerDown={e => e.stopPropagation()}
+          type="button"
+        >
+          <RotateCcw className="h-4 w-4" />
+        </button>
+        <button
+          className="absolute top-2 left-10 w-7 h-7 bg-white dark:bg-[#101A26] rounded-full flex items-center justify-center z-10 shadow-sm p-1 text-gray-400 hover:bg-gray-100 hover:text-gray-600 focus:outline-none"
+          aria-label="Rotate right"
+          onClick={e => { e.stopPropagation(); onRotate(id, 90); }}
           onPointerDown={e => e.stopPropagation()}
           type="button"
         >
           <img src="/icons/rotate-cw.svg" alt="Rotate" className="w-4 h-4" />
         </button>
+        {/* Select pages button */}
+        <button
+          className="absolute top-2 left-[4.5rem] w-7 h-7 bg-white dark:bg-[#101A26] rounded-full flex items-center justify-center z-10 shadow-sm p-1 text-gray-400 hover:bg-gray-100 hover:text-gray-600 focus:outline-none"
+          aria-label="Select pages"
+          onClick={e => { e.stopPropagation(); onSelectPages(id); }}
+          onPointerDown={e => e.stopPropagation()}
+          type="button"
+        >
+          <Layers className="h-4 w-4" />
+        </button>
         <CardContent className="flex flex-col items-center justify-center px-2 pt-6 pb-3">
           <div className="rounded-lg mb-2 w-full h-[100px] flex items-center justify-center overflow-hidden p-2" style={{padding: '8px'}}>
-            {preview ? (
+            {locked ? (
+              <button
+                className="flex flex-col items-center gap-1 text-gray-500 hover:text-gray-700 dark:text-gray-300 dark:hover:text-white text-xs focus:outline-none"
+                aria-label="Unlock"
+                onClick={e => { e.stopPropagation(); onUnlock(id); }}
+                onPointerDown={e => e.stopPropagation()}
+                type="button"
+              >
+                <Lock className="h-6 w-6" />
+                Enter password
+              </button>
+            ) : preview ? (
               <img
                 src={preview}
                 alt={name}
@@ -114,6 +157,23 @@ function SortableCard({ id, name, preview, onDelete, onRotate, listeners, attrib
           >
             {name}
           </p>
+          {pageSelection && (
+            <p
+              className="truncate w-full text-center text-[11px] text-gray-500 dark:text-gray-300 mt-1 px-2"
+              title={`Pages ${pageSelection}`}
+            >
+              Pages {pageSelection}
+            </p>
+          )}
+          {signed && (
+            <p
+              className="flex items-center gap-1 mt-1 px-2 text-[11px] text-amber-600 dark:text-amber-400"
+              title="Joining its pages invalidates the signatures"
+            >
+              <FileSignature className="h-3 w-3 shrink-0" />
+              Signed
+            </p>
+          )}
         </CardContent>
       </Card>
     </div>
@@ -123,10 +183,12 @@ function SortableCard({ id, name, preview, onDelete, onRotate, listeners, attrib
 interface SortableCardWrapperProps {
   item: CardItem;
   onDelete: (id: string) => void;
-  onRotate: (id: string) => void;
+  onRotate: (id: string, degrees: number) => void;
+  onSelectPages: (id: string) => void;
+  onUnlock: (id: string) => void;
 }
 
-function SortableCardWrapper({ item, onDelete, onRotate }: SortableCardWrapperProps) {
+function SortableCardWrapper({ item, onDelete, onRotate, onSelectPages, onUnlock }: SortableCardWrapperProps) {
   const {
     attributes,
     listeners,
@@ -140,8 +202,13 @@ function SortableCardWrapper({ item, onDelete, onRotate }: SortableCardWrapperPr
       id={item.id}
       name={item.name}
       preview={item.preview}
+      pageSelection={item.pageSelection}
+      locked={item.locked}
+      signed={item.signed}
       onDelete={onDelete}
       onRotate={onRotate}
+      onSelectPages={onSelectPages}
+      onUnlock={onUnlock}
       listeners={listeners}
       attributes={attributes}
       setNodeRef={setNodeRef}
@@ -152,7 +219,7 @@ function SortableCardWrapper({ item, onDelete, onRotate }: SortableCardWrapperPr
   );
 }
 
-export default function DragAndDropCardGrid({ items, onDelete, onReorder, isProcessing, onFileSelect, onRotate }: DragAndDropCardGridProps) {
+export default function DragAndDropCardGrid({ items, onDelete, onReorder, isProcessing, onFileSelect, onRotate, onSelectPages, onUnlock }: DragAndDropCardGridProps) {
   const [internalItems, setInternalItems] = React.useState(items);
 
   React.useEffect(() => {
@@ -197,7 +264,7 @@ export default function DragAndDropCardGrid({ items, onDelete, onReorder, isProc
             onFileSelect={onFileSelect}
           />
           {internalItems.map((item) => (
-            <SortableCardWrapper key={item.id} item={item} onDelete={onDelete} onRotate={onRotate} />
+            <SortableCardWrapper key={item.id} item={item} onDelete={onDelete} onRotate={onRotate} onSelectPages={onSelectPages} onUnlock={onUnlock} />
           ))}
         </div>
       </SortableContext>
@@ -4,6 +4,7 @@
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { cn } from "@/lib/utils";
+import { MERGE_INPUT_ACCEPT } from "@/lib/file-types";
 import { useRef } from "react";
 
 interface DragAndDropUploadCardProps {
@@ -55,7 +56,7 @@ export function DragAndDropUploadCard({
               <input
                 ref={fileInputRef}
                 type="file"
-                accept="application/pdf"
+                accept={MERGE_INPUT_ACCEPT}
                 multiple
                 onChange={onFileSelect}
                 disabled={isProcessing}
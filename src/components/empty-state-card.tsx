@@ -8,11 +8,14 @@ import { useRef } from "react";
 interface EmptyStateCardProps {
   isProcessing: boolean;
   onFileSelect: (event: React.ChangeEvent<HTMLInputElement>) => void;
+  // File types the picker offers
+  accept?: string;
 }
 
 export function EmptyStateCard({
   isProcessing,
   onFileSelect,
+  accept = "application/pdf",
 }: EmptyStateCardProps) {
   const fileInputRef = useRef<HTMLInputElement>(null);
 
@@ -41,7 +44,7 @@ export function EmptyStateCard({
           <input
             ref={fileInputRef}
             type="file"
-            accept="application/pdf"
+            accept={accept}
             multiple
             onChange={onFileSelect}
             disabled={isProcessing}
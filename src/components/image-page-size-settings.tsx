@@ -0,0 +1,36 @@
+// Copyright © 2025 Anton Medvedev
+// SPDX‑License‑Identifier: AGPL‑3.0
+
+import type { ImagePageSize } from "../workers/mupdf.worker";
+
+const PAGE_SIZES: { value: ImagePageSize; label: string }[] = [
+  { value: 'a4', label: 'Fit to A4' },
+  { value: 'letter', label: 'Fit to Letter' },
+  { value: 'native', label: 'Native size' },
+];
+
+interface ImagePageSizeControlProps {
+  value: ImagePageSize;
+  onChange: (value: ImagePageSize) => void;
+  disabled?: boolean;
+}
+
+export function ImagePageSizeControl({ value, onChange, disabled }: ImagePageSizeControlProps) {
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-2 text-sm text-gray-700 dark:text-gray-200">
+      <label className="flex items-center gap-2">
+        Image pages
+        <select
+          className="h-9 rounded-md border border-input bg-background px-2 text-sm"
+          value={value}
+          disabled={disabled}
+          onChange={e => onChange(e.target.value as ImagePageSize)}
+        >
+          {PAGE_SIZES.map(size => (
+            <option key={size.value} value={size.value}>{size.label}</option>
+          ))}
+        </select>
+      </label>
+    </div>
+  );
+}
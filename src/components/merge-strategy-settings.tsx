@@ -0,0 +1,102 @@
+// Copyright © 2025 Anton Medvedev
+// SPDX‑License‑Identifier: AGPL‑3.0
+
+import { Input } from "@/components/ui/input";
+import type { MergeStrategy } from "../workers/mupdf.worker";
+
+const STRATEGIES: { value: MergeStrategy['type']; label: string }[] = [
+  { value: 'concatenate', label: 'One after another' },
+  { value: 'interleave', label: 'Interleave two files' },
+  { value: 'reverse', label: 'Reverse all pages' },
+  { value: 'insert', label: 'Insert a file into another' },
+];
+
+const SELECT_CLASS = "h-9 max-w-48 rounded-md border border-input bg-background px-2 text-sm";
+
+// Interleaving starts out set up for a duplex scan: fronts in the first file and
+// backs, scanned from the last page, in the second
+function createStrategy(type: MergeStrategy['type']): MergeStrategy | undefined {
+  switch (type) {
+    case 'concatenate': return undefined;
+    case 'interleave': return { type, first: 0, second: 1, reverseSecond: true };
+    case 'reverse': return { type };
+    case 'insert': return { type, target: 0, inserted: 1, afterPage: 1 };
+  }
+}
+
+interface MergeStrategyControlProps {
+  // Undefined puts the files one after another
+  value: MergeStrategy | undefined;
+  onChange: (value: MergeStrategy | undefined) => void;
+  // Names of the files in merge order
+  fileNames: string[];
+  disabled?: boolean;
+}
+
+export function MergeStrategyControl({ value, onChange, fileNames, disabled }: MergeStrategyControlProps) {
+  const fileSelect = (label: string, selected: number, onSelect: (docIndex: number) => void) => (
+    <select
+      className={SELECT_CLASS}
+      value={selected}
+      aria-label={label}
+      disabled={disabled}
+      onChange={e => onSelect(Number(e.target.value))}
+    >
+      {fileNames.map((name, docIndex) => (
+        <option key={docIndex} value={docIndex}>{docIndex + 1}. {name}</option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-2 text-sm text-gray-700 dark:text-gray-200">
+      <label className="flex items-center gap-2">
+        Page order
+        <select
+          className={SELECT_CLASS}
+          value={value?.type ?? 'concatenate'}
+          disabled={disabled}
+          onChange={e => onChange(createStrategy(e.target.value as MergeStrategy['type']))}
+        >
+          {STRATEGIES.map(strategy => (
+            <option key={strategy.value} value={strategy.value}>{strategy.label}</option>
+          ))}
+        </select>
+      </label>
+      {value?.type === 'interleave' && (
+        <>
+          {fileSelect('Fronts', value.first, first => onChange({ ...value, first }))}
+          with
+          {fileSelect('Backs', value.second, second => onChange({ ...value, second }))}
+          <label className="flex items-center gap-2" title="Backs of a duplex scan come out of the scanner last page first">
+            <input
+              type="checkbox"
+              checked={value.reverseSecond}
+              disabled={disabled}
+              onChange={e => onChange({ ...value, reverseSecond: e.target.checked })}
+            />
+            Reverse second file
+          </label>
+        </>
+      )}
+      {value?.type === 'insert' && (
+        <>
+          {fileSelect('Inserted file', value.inserted, inserted => onChange({ ...value, inserted }))}
+          into
+          {fileSelect('Target file', value.target, target => onChange({ ...value, target }))}
+          <label className="flex items-center gap-1">
+            after page
+            <Input
+              type="number"
+              min={0}
+              className="h-9 w-20"
+              value={value.afterPage}
+              disabled={disabled}
+              onChange={e => onChange({ ...value, afterPage: Number(e.target.value) })}
+            />
+          </label>
+        </>
+      )}
+    </div>
+  );
+}
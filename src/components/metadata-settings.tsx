@@ -0,0 +1,132 @@
+// Copyright © 2025 Anton Medvedev
+// SPDX‑License‑Identifier: AGPL‑3.0
+
+import React from "react";
+import { FileText } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import type { DocumentMetadata } from "../workers/mupdf.worker";
+
+type TextProperty = 'title' | 'author' | 'subject' | 'keywords' | 'creator';
+
+const TEXT_FIELDS: { value: TextProperty; label: string }[] = [
+  { value: 'title', label: 'Title' },
+  { value: 'author', label: 'Author' },
+  { value: 'subject', label: 'Subject' },
+  { value: 'keywords', label: 'Keywords' },
+  { value: 'creator', label: 'Created with' },
+];
+
+const EMPTY_METADATA: DocumentMetadata = { title: '', author: '', subject: '', keywords: '', creator: '' };
+
+// Date inputs show local time without a time zone, "2025-01-02T03:04"
+function toLocalInput(date: string | undefined): string {
+  if (!date) return '';
+  const parsed = new Date(date);
+  if (isNaN(parsed.getTime())) return '';
+  const local = new Date(parsed.getTime() - parsed.getTimezoneOffset() * 60000);
+  return local.toISOString().slice(0, 16);
+}
+
+function fromLocalInput(value: string): string | undefined {
+  const parsed = new Date(value);
+  return value && !isNaN(parsed.getTime()) ? parsed.toISOString() : undefined;
+}
+
+interface MetadataPanelProps {
+  // Properties the merged document has been given, if any
+  applied: DocumentMetadata | null;
+  // Properties the form starts with until some are applied, those of the first file
+  initial: DocumentMetadata | null;
+  // Rejects when the properties could not be written
+  onApply: (metadata: DocumentMetadata) => Promise<void>;
+}
+
+export function MetadataPanel({ applied, initial, onApply }: MetadataPanelProps) {
+  const [isOpen, setIsOpen] = React.useState(false);
+  const [metadata, setMetadata] = React.useState<DocumentMetadata>(applied ?? initial ?? EMPTY_METADATA);
+  const [isApplying, setIsApplying] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+
+  function handleOpen() {
+    setMetadata(applied ?? initial ?? EMPTY_METADATA);
+    setError(null);
+    setIsOpen(true);
+  }
+
+  async function handleApply() {
+    if (isApplying) return;
+    setIsApplying(true);
+    setError(null);
+    try {
+      await onApply(metadata);
+      setIsOpen(false);
+    } catch (e) {
+      console.error(e);
+      setError('Failed to save the document properties.');
+    } finally {
+      setIsApplying(false);
+    }
+  }
+
+  if (!isOpen) {
+    return (
+      <div className="flex flex-wrap items-center justify-center gap-2 text-sm text-gray-700 dark:text-gray-200">
+        {applied?.title && (
+          <span className="flex items-center gap-1 max-w-64 truncate">
+            <FileText className="h-4 w-4 shrink-0" />
+            {applied.title}
+          </span>
+        )}
+        <Button variant="outline" size="sm" onClick={handleOpen}>
+          Edit title and properties
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-3 w-full text-sm text-gray-700 dark:text-gray-200">
+      {TEXT_FIELDS.map(field => (
+        <label key={field.value} className="flex flex-col gap-1">
+          {field.label}
+          <Input
+            value={metadata[field.value]}
+            onChange={e => setMetadata(prev => ({ ...prev, [field.value]: e.target.value }))}
+          />
+        </label>
+      ))}
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <label className="flex flex-col gap-1">
+          Created
+          <Input
+            type="datetime-local"
+            value={toLocalInput(metadata.creationDate)}
+            onChange={e => setMetadata(prev => ({ ...prev, creationDate: fromLocalInput(e.target.value) }))}
+          />
+        </label>
+        <label className="flex flex-col gap-1">
+          Modified
+          <Input
+            type="datetime-local"
+            value={toLocalInput(metadata.modificationDate)}
+            onChange={e => setMetadata(prev => ({ ...prev, modificationDate: fromLocalInput(e.target.value) }))}
+          />
+        </label>
+      </div>
+      <p className="text-xs text-gray-500 dark:text-gray-400">The title is also used as the name of the downloaded file.</p>
+      {error && <p className="text-sm text-red-500">{error}</p>}
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" size="sm" onClick={() => setIsOpen(false)}>Cancel</Button>
+        <Button
+          size="sm"
+          className="bg-red-500 hover:bg-red-600 text-white"
+          disabled={isApplying}
+          onClick={handleApply}
+        >
+          {isApplying ? 'Saving…' : 'Save properties'}
+        </Button>
+      </div>
+    </div>
+  );
+}
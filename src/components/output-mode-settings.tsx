@@ -0,0 +1,37 @@
+// Copyright © 2025 Anton Medvedev
+// SPDX‑License‑Identifier: AGPL‑3.0
+
+// Join the pages of the files into one document, or bundle the files unchanged
+// into a portfolio with a cover listing them
+export type OutputMode = 'merge' | 'portfolio';
+
+const MODES: { value: OutputMode; label: string }[] = [
+  { value: 'merge', label: 'One document with all pages' },
+  { value: 'portfolio', label: 'Portfolio of the original files' },
+];
+
+interface OutputModeControlProps {
+  value: OutputMode;
+  onChange: (value: OutputMode) => void;
+  disabled?: boolean;
+}
+
+export function OutputModeControl({ value, onChange, disabled }: OutputModeControlProps) {
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-2 text-sm text-gray-700 dark:text-gray-200">
+      <label className="flex items-center gap-2" title="A portfolio keeps every file intact, signatures included, as an attachment of a cover page">
+        Create
+        <select
+          className="h-9 rounded-md border border-input bg-background px-2 text-sm"
+          value={value}
+          disabled={disabled}
+          onChange={e => onChange(e.target.value as OutputMode)}
+        >
+          {MODES.map(mode => (
+            <option key={mode.value} value={mode.value}>{mode.label}</option>
+          ))}
+        </select>
+      </label>
+    </div>
+  );
+}
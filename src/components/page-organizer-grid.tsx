@@ -0,0 +1,169 @@
+// Copyright © 2025 Anton Medvedev
+// SPDX‑License‑Identifier: AGPL‑3.0
+
+import React from "react";
+import { DndContext, closestCenter, DragEndEvent } from "@dnd-kit/core";
+import {
+  SortableContext,
+  useSortable,
+  arrayMove,
+  rectSortingStrategy,
+} from "@dnd-kit/sortable";
+import { CSS } from "@dnd-kit/utilities";
+import { Copy, RotateCcw, X } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { DragAndDropUploadCard } from "@/components/drag-and-drop-upload-card";
+import { cn } from "@/lib/utils";
+
+interface PageCardItem {
+  id: string;
+  // Name of the file the page comes from
+  name: string;
+  pageNumber: number;
+  rotation: number;
+  preview: string | null;
+}
+
+interface PageOrganizerGridProps {
+  items: PageCardItem[];
+  isProcessing: boolean;
+  onFileSelect: (event: React.ChangeEvent<HTMLInputElement>) => void;
+  onReorder: (ids: string[]) => void;
+  onDelete: (id: string) => void;
+  onDuplicate: (id: string) => void;
+  onRotate: (id: string, degrees: number) => void;
+}
+
+interface SortablePageCardProps {
+  item: PageCardItem;
+  onDelete: (id: string) => void;
+  onDuplicate: (id: string) => void;
+  onRotate: (id: string, degrees: number) => void;
+}
+
+const pageButtonClassName = "w-6 h-6 bg-white dark:bg-[#101A26] rounded-full flex items-center justify-center shadow-sm p-1 text-gray-400 hover:bg-gray-100 hover:text-gray-600 focus:outline-none";
+
+function SortablePageCard({ item, onDelete, onDuplicate, onRotate }: SortablePageCardProps) {
+  const { attributes, listeners, setNodeRef, transform, transition, isDragging } = useSortable({ id: item.id });
+  const style = {
+    transform: CSS.Transform.toString(transform),
+    transition,
+    opacity: isDragging ? 0.7 : 1,
+    cursor: 'grab',
+    width: '120px',
+    height: '150px',
+  };
+
+  return (
+    <div ref={setNodeRef} style={style} className="relative">
+      <Card
+        className="relative rounded-lg w-full h-full flex flex-col justify-between p-0 border border-[#D0D5DD] bg-white dark:bg-[#182B47]"
+        {...listeners}
+        {...attributes}
+        tabIndex={0}
+      >
+        <div className="absolute top-1 left-1 right-1 flex justify-between z-10">
+          <div className="flex gap-1">
+            <button
+              className={pageButtonClassName}
+              aria-label="Rotate page left"
+              onClick={e => { e.stopPropagation(); onRotate(item.id, -90); }}
+              onPointerDown={e => e.stopPropagation()}
+              type="button"
+            >
+              <RotateCcw className="h-3 w-3" />
+            </button>
+            <button
+              className={pageButtonClassName}
+              aria-label="Rotate page right"
+              onClick={e => { e.stopPropagation(); onRotate(item.id, 90); }}
+              onPointerDown={e => e.stopPropagation()}
+              type="button"
+            >
+              <img src="/icons/rotate-cw.svg" alt="Rotate" className="w-3 h-3" />
+            </button>
+            <button
+              className={pageButtonClassName}
+              aria-label="Duplicate page"
+              onClick={e => { e.stopPropagation(); onDuplicate(item.id); }}
+              onPointerDown={e => e.stopPropagation()}
+              type="button"
+            >
+              <Copy className="h-3 w-3" />
+            </button>
+          </div>
+          <button
+            className={pageButtonClassName}
+            aria-label="Delete page"
+            onClick={e => { e.stopPropagation(); onDelete(item.id); }}
+            onPointerDown={e => e.stopPropagation()}
+            type="button"
+          >
+            <X className="h-3 w-3" />
+          </button>
+        </div>
+        <CardContent className="flex flex-col items-center justify-center px-2 pt-8 pb-2">
+          <div className="w-full h-[80px] flex items-center justify-center overflow-hidden">
+            {item.preview ? (
+              <img
+                src={item.preview}
+                alt={`${item.name}, page ${item.pageNumber}`}
+                className="object-contain max-w-[80px] max-h-[80px] transition-transform"
+                style={{ transform: `rotate(${item.rotation}deg)` }}
+              />
+            ) : (
+              <span className="text-gray-400 text-xs">Loading...</span>
+            )}
+          </div>
+          <p
+            className="truncate w-full text-center font-inter font-medium text-[11px] text-[rgba(26,28,32,0.8)] dark:text-white mt-2"
+            title={`${item.name}, page ${item.pageNumber}`}
+          >
+            {item.name}
+          </p>
+          <p className="text-[11px] text-gray-500 dark:text-gray-300">Page {item.pageNumber}</p>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+export function PageOrganizerGrid({ items, isProcessing, onFileSelect, onReorder, onDelete, onDuplicate, onRotate }: PageOrganizerGridProps) {
+  function handleDragEnd(event: DragEndEvent) {
+    const { active, over } = event;
+    if (over && active.id !== over.id) {
+      const oldIndex = items.findIndex((i) => i.id === active.id);
+      const newIndex = items.findIndex((i) => i.id === over.id);
+      onReorder(arrayMove(items, oldIndex, newIndex).map(item => item.id));
+    }
+  }
+
+  return (
+    <DndContext collisionDetection={closestCenter} onDragEnd={handleDragEnd}>
+      <div className="w-full flex justify-center">
+        <p className="mb-2 text-center text-foreground dark:text-white text-sm max-w-[1000px]">
+          Drag pages to change their order. Pages are joined exactly as shown here.
+        </p>
+      </div>
+      <SortableContext items={items} strategy={rectSortingStrategy}>
+        <div className={cn(
+          "mx-auto max-w-[1040px] grid grid-cols-3 sm:grid-cols-4 md:grid-cols-6 lg:grid-cols-8 gap-3 p-2 sm:p-4 justify-center",
+          isProcessing && "pointer-events-none opacity-70"
+        )}>
+          {items.map((item) => (
+            <SortablePageCard
+              key={item.id}
+              item={item}
+              onDelete={onDelete}
+              onDuplicate={onDuplicate}
+              onRotate={onRotate}
+            />
+          ))}
+        </div>
+      </SortableContext>
+      <div className="flex justify-center mt-4">
+        <DragAndDropUploadCard isProcessing={isProcessing} onFileSelect={onFileSelect} />
+      </div>
+    </DndContext>
+  );
+}
@@ -0,0 +1,151 @@
+// Copyright © 2025 Anton Medvedev
+// SPDX‑License‑Identifier: AGPL‑3.0
+
+import React from "react";
+import { Check } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { cn } from "@/lib/utils";
+import { formatPageRanges, parsePageRanges } from "@/lib/page-ranges";
+
+interface PageSelectionDialogProps {
+  open: boolean;
+  fileName: string;
+  // Currently selected pages, all pages when not set
+  pages?: number[];
+  // Clockwise rotation the file is merged with, shown on the thumbnails
+  rotation?: number;
+  // Called again whenever it changes, keep it stable while the dialog is open
+  loadThumbnails: () => Promise<string[]>;
+  onOpenChange: (open: boolean) => void;
+  // Called with undefined when every page is selected in its original order
+  onSave: (pages: number[] | undefined) => void;
+}
+
+export function PageSelectionDialog({ open, fileName, pages, rotation = 0, loadThumbnails, onOpenChange, onSave }: PageSelectionDialogProps) {
+  const [thumbnails, setThumbnails] = React.useState<string[] | null>(null);
+  const [text, setText] = React.useState('');
+  const [loadError, setLoadError] = React.useState(false);
+
+  React.useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    setThumbnails(null);
+    setLoadError(false);
+    loadThumbnails()
+      .then(result => {
+        if (cancelled) return;
+        setThumbnails(result);
+        setText(formatPageRanges(pages ?? result.map((_, i) => i)));
+      })
+      .catch(error => {
+        console.error(error);
+        if (!cancelled) setLoadError(true);
+      });
+    return () => { cancelled = true; };
+  }, [open, loadThumbnails, pages]);
+
+  const pageCount = thumbnails?.length ?? 0;
+  const selected = thumbnails ? parsePageRanges(text, pageCount) : null;
+
+  function togglePage(pageIndex: number) {
+    const current = selected ?? [];
+    const next = current.includes(pageIndex)
+      ? current.filter(i => i !== pageIndex)
+      : [...current, pageIndex];
+    setText(formatPageRanges(next));
+  }
+
+  function handleSave() {
+    if (!selected || selected.length === 0) return;
+    const isAllPages = selected.length === pageCount && selected.every((page, i) => page === i);
+    onSave(isAllPages ? undefined : selected);
+    onOpenChange(false);
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="truncate">Select pages</DialogTitle>
+          <DialogDescription className="truncate" title={fileName}>
+            Choose which pages of {fileName} to join, e.g. 1-3,7,10-
+          </DialogDescription>
+        </DialogHeader>
+        <div className="flex flex-col gap-2">
+          <Input
+            value={text}
+            onChange={e => setText(e.target.value)}
+            placeholder="1-3,7,10-"
+            disabled={!thumbnails}
+            aria-invalid={selected === null && thumbnails !== null}
+            aria-label="Page ranges"
+          />
+          {thumbnails && selected === null && (
+            <p className="text-sm text-red-500">Enter pages between 1 and {pageCount}, like 1-3,7,10-</p>
+          )}
+          {thumbnails && selected?.length === 0 && (
+            <p className="text-sm text-red-500">Select at least one page.</p>
+          )}
+        </div>
+        <div className="max-h-[50vh] overflow-y-auto">
+          {loadError ? (
+            <p className="text-sm text-red-500 text-center py-8">Failed to load pages.</p>
+          ) : !thumbnails ? (
+            <p className="text-sm text-gray-400 text-center py-8">Loading...</p>
+          ) : (
+            <div className="grid grid-cols-3 sm:grid-cols-5 gap-3 p-1">
+              {thumbnails.map((thumbnail, pageIndex) => {
+                const isSelected = selected?.includes(pageIndex) ?? false;
+                return (
+                  <button
+                    key={pageIndex}
+                    type="button"
+                    onClick={() => togglePage(pageIndex)}
+                    className={cn(
+                      "relative flex flex-col items-center gap-1 rounded-lg border-2 p-1 transition-colors focus:outline-none focus-visible:ring-2 focus-visible:ring-ring",
+                      isSelected ? "border-red-500" : "border-transparent opacity-50 hover:opacity-80"
+                    )}
+                    aria-pressed={isSelected}
+                    aria-label={`Page ${pageIndex + 1}`}
+                  >
+                    <img
+                      src={thumbnail}
+                      alt={`Page ${pageIndex + 1}`}
+                      className="h-24 w-full object-contain"
+                      style={{ transform: `rotate(${rotation}deg)` }}
+                    />
+                    <span className="text-xs text-muted-foreground">{pageIndex + 1}</span>
+                    {isSelected && (
+                      <span className="absolute top-1 right-1 w-5 h-5 rounded-full bg-red-500 text-white flex items-center justify-center">
+                        <Check className="h-3 w-3" />
+                      </span>
+                    )}
+                  </button>
+                );
+              })}
+            </div>
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button
+            className="bg-red-500 hover:bg-red-600 text-white"
+            disabled={!selected || selected.length === 0}
+            onClick={handleSave}
+          >
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
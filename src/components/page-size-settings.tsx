@@ -0,0 +1,90 @@
+// Copyright © 2025 Anton Medvedev
+// SPDX‑License‑Identifier: AGPL‑3.0
+
+import { Input } from "@/components/ui/input";
+import type { PageSizeSettings } from "../workers/mupdf.worker";
+
+const PAPER_SIZES: { value: PageSizeSettings['paperSize'] | 'preserve'; label: string }[] = [
+  { value: 'preserve', label: 'Keep original sizes' },
+  { value: 'a4', label: 'A4' },
+  { value: 'letter', label: 'Letter' },
+  { value: 'custom', label: 'Custom' },
+];
+
+// Width and height in millimetres a custom size starts out with
+const DEFAULT_CUSTOM_SIZE: [number, number] = [210, 297];
+
+const SELECT_CLASS = "h-9 rounded-md border border-input bg-background px-2 text-sm";
+
+interface PageSizeControlProps {
+  // Undefined keeps the size of every page
+  value: PageSizeSettings | undefined;
+  onChange: (value: PageSizeSettings | undefined) => void;
+  disabled?: boolean;
+}
+
+export function PageSizeControl({ value, onChange, disabled }: PageSizeControlProps) {
+  const handlePaperSizeChange = (paperSize: PageSizeSettings['paperSize'] | 'preserve') => {
+    if (paperSize === 'preserve') return onChange(undefined);
+    onChange({
+      scaling: value?.scaling ?? 'fit',
+      paperSize,
+      customSize: paperSize === 'custom' ? value?.customSize ?? DEFAULT_CUSTOM_SIZE : undefined,
+    });
+  };
+
+  const sizeInput = (label: string, index: 0 | 1) => value?.customSize && (
+    <Input
+      type="number"
+      min={1}
+      max={5000}
+      className="h-9 w-20"
+      value={value.customSize[index]}
+      aria-label={label}
+      disabled={disabled}
+      onChange={e => {
+        const customSize: [number, number] = [...value.customSize!];
+        customSize[index] = Number(e.target.value);
+        onChange({ ...value, customSize });
+      }}
+    />
+  );
+
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-2 text-sm text-gray-700 dark:text-gray-200">
+      <label className="flex items-center gap-2" title="Scale every page onto one paper size, in its own orientation">
+        Page size
+        <select
+          className={SELECT_CLASS}
+          value={value?.paperSize ?? 'preserve'}
+          disabled={disabled}
+          onChange={e => handlePaperSizeChange(e.target.value as PageSizeSettings['paperSize'] | 'preserve')}
+        >
+          {PAPER_SIZES.map(size => (
+            <option key={size.value} value={size.value}>{size.label}</option>
+          ))}
+        </select>
+      </label>
+      {value?.paperSize === 'custom' && (
+        <span className="flex items-center gap-1">
+          {sizeInput('Page width', 0)}
+          ×
+          {sizeInput('Page height', 1)}
+          mm
+        </span>
+      )}
+      {value && (
+        <select
+          className={SELECT_CLASS}
+          value={value.scaling}
+          aria-label="Page scaling"
+          disabled={disabled}
+          onChange={e => onChange({ ...value, scaling: e.target.value as PageSizeSettings['scaling'] })}
+        >
+          <option value="fit">Fit whole page</option>
+          <option value="fill">Fill paper, crop edges</option>
+        </select>
+      )}
+    </div>
+  );
+}
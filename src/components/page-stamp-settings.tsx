@@ -0,0 +1,109 @@
+// Copyright © 2025 Anton Medvedev
+// SPDX‑License‑Identifier: AGPL‑3.0
+
+import { Input } from "@/components/ui/input";
+import type { PageStamp, StampPosition } from "../workers/mupdf.worker";
+
+const DEFAULT_STAMP: PageStamp = {
+  template: 'Page {page} of {total}',
+  position: 'bottom-center',
+  fontSize: 10,
+  margin: 24,
+  startNumber: 1,
+};
+
+const POSITIONS: { value: StampPosition; label: string }[] = [
+  { value: 'top-left', label: 'Top left' },
+  { value: 'top-center', label: 'Top center' },
+  { value: 'top-right', label: 'Top right' },
+  { value: 'bottom-left', label: 'Bottom left' },
+  { value: 'bottom-center', label: 'Bottom center' },
+  { value: 'bottom-right', label: 'Bottom right' },
+];
+
+const TOKENS_HINT = '{page} page number, {total} last page number, {file} file name, ' +
+  '{filepage} page in the file, {date} today. {page:6} pads the number to 6 digits, e.g. ACME-{page:6}';
+
+interface PageStampControlProps {
+  // Undefined leaves pages unstamped
+  value: PageStamp | undefined;
+  onChange: (value: PageStamp | undefined) => void;
+  disabled?: boolean;
+}
+
+export function PageStampControl({ value, onChange, disabled }: PageStampControlProps) {
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-2 text-sm text-gray-700 dark:text-gray-200">
+      <label className="flex items-center gap-2">
+        <input
+          type="checkbox"
+          checked={value !== undefined}
+          disabled={disabled}
+          onChange={e => onChange(e.target.checked ? DEFAULT_STAMP : undefined)}
+        />
+        Page numbers
+      </label>
+      {value && (
+        <>
+          <Input
+            className="h-9 w-56"
+            value={value.template}
+            title={TOKENS_HINT}
+            placeholder="Page {page} of {total}"
+            aria-label="Stamp text"
+            disabled={disabled}
+            onChange={e => onChange({ ...value, template: e.target.value })}
+          />
+          <select
+            className="h-9 rounded-md border border-input bg-background px-2 text-sm"
+            value={value.position}
+            aria-label="Stamp position"
+            disabled={disabled}
+            onChange={e => onChange({ ...value, position: e.target.value as StampPosition })}
+          >
+            {POSITIONS.map(position => (
+              <option key={position.value} value={position.value}>{position.label}</option>
+            ))}
+          </select>
+          <label className="flex items-center gap-1">
+            Size
+            <Input
+              type="number"
+              min={1}
+              max={72}
+              className="h-9 w-16"
+              value={value.fontSize}
+              disabled={disabled}
+              onChange={e => onChange({ ...value, fontSize: Number(e.target.value) })}
+            />
+            pt
+          </label>
+          <label className="flex items-center gap-1">
+            Margin
+            <Input
+              type="number"
+              min={0}
+              className="h-9 w-16"
+              value={value.margin}
+              disabled={disabled}
+              onChange={e => onChange({ ...value, margin: Number(e.target.value) })}
+            />
+            pt
+          </label>
+          <label className="flex items-center gap-1">
+            Start at
+            <Input
+              type="number"
+              min={0}
+              step={1}
+              className="h-9 w-20"
+              value={value.startNumber}
+              disabled={disabled}
+              onChange={e => onChange({ ...value, startNumber: Number(e.target.value) })}
+            />
+          </label>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+// Copyright © 2025 Anton Medvedev
+// SPDX‑License‑Identifier: AGPL‑3.0
+
+import React from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+
+interface PasswordDialogProps {
+  open: boolean;
+  fileName: string;
+  onOpenChange: (open: boolean) => void;
+  // Rejects when the password is wrong, the dialog stays open to try again
+  onUnlock: (password: string) => Promise<void>;
+}
+
+export function PasswordDialog({ open, fileName, onOpenChange, onUnlock }: PasswordDialogProps) {
+  const [password, setPassword] = React.useState('');
+  const [isUnlocking, setIsUnlocking] = React.useState(false);
+  const [error, setError] = React.useState(false);
+
+  React.useEffect(() => {
+    if (!open) return;
+    setPassword('');
+    setError(false);
+  }, [open]);
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    if (!password || isUnlocking) return;
+    setIsUnlocking(true);
+    setError(false);
+    try {
+      await onUnlock(password);
+      onOpenChange(false);
+    } catch (e) {
+      console.error(e);
+      setError(true);
+    } finally {
+      setIsUnlocking(false);
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <form onSubmit={handleSubmit} className="flex flex-col gap-4">
+          <DialogHeader>
+            <DialogTitle>Password required</DialogTitle>
+            <DialogDescription className="truncate" title={fileName}>
+              Enter the password to open {fileName}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex flex-col gap-2">
+            <Input
+              type="password"
+              value={password}
+              onChange={e => setPassword(e.target.value)}
+              autoFocus
+              autoComplete="off"
+              aria-invalid={error}
+              aria-label="Password"
+            />
+            {error && (
+              <p className="text-sm text-red-500">Incorrect password, please try again.</p>
+            )}
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+            <Button
+              type="submit"
+              className="bg-red-500 hover:bg-red-600 text-white"
+              disabled={!password || isUnlocking}
+            >
+              {isUnlocking ? 'Unlocking…' : 'Unlock'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
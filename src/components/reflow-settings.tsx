@@ -0,0 +1,49 @@
+// Copyright © 2025 Anton Medvedev
+// SPDX‑License‑Identifier: AGPL‑3.0
+
+import { Input } from "@/components/ui/input";
+import type { ReflowSettings } from "../workers/mupdf.worker";
+
+const PAGE_SIZES: { value: ReflowSettings['pageSize']; label: string }[] = [
+  { value: 'a4', label: 'A4' },
+  { value: 'letter', label: 'Letter' },
+];
+
+interface ReflowSettingsControlProps {
+  value: ReflowSettings;
+  onChange: (value: ReflowSettings) => void;
+  disabled?: boolean;
+}
+
+export function ReflowSettingsControl({ value, onChange, disabled }: ReflowSettingsControlProps) {
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-2 text-sm text-gray-700 dark:text-gray-200">
+      <label className="flex items-center gap-2">
+        Text pages
+        <select
+          className="h-9 rounded-md border border-input bg-background px-2 text-sm"
+          value={value.pageSize}
+          disabled={disabled}
+          onChange={e => onChange({ ...value, pageSize: e.target.value as ReflowSettings['pageSize'] })}
+        >
+          {PAGE_SIZES.map(size => (
+            <option key={size.value} value={size.value}>{size.label}</option>
+          ))}
+        </select>
+      </label>
+      <label className="flex items-center gap-1">
+        Font size
+        <Input
+          type="number"
+          min={1}
+          max={72}
+          className="h-9 w-20"
+          value={value.fontSize}
+          disabled={disabled}
+          onChange={e => onChange({ ...value, fontSize: Number(e.target.value) })}
+        />
+        pt
+      </label>
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+// Copyright © 2025 Anton Medvedev
+// SPDX‑License‑Identifier: AGPL‑3.0
+
+import { ShieldCheck } from "lucide-react";
+import type { SanitizeReport } from "../workers/mupdf.worker";
+
+const REMOVED_ITEMS: { value: keyof SanitizeReport; label: string }[] = [
+  { value: 'metadata', label: 'Metadata entries' },
+  { value: 'javaScript', label: 'Scripts' },
+  { value: 'actions', label: 'Automatic actions' },
+  { value: 'embeddedFiles', label: 'Embedded files' },
+  { value: 'thumbnails', label: 'Thumbnails' },
+  { value: 'privateData', label: 'Private application data' },
+];
+
+interface SanitizeControlProps {
+  value: boolean;
+  onChange: (value: boolean) => void;
+  disabled?: boolean;
+}
+
+export function SanitizeControl({ value, onChange, disabled }: SanitizeControlProps) {
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-2 text-sm text-gray-700 dark:text-gray-200">
+      <label className="flex items-center gap-2" title="Remove metadata, scripts, embedded files, thumbnails and private application data">
+        <input
+          type="checkbox"
+          checked={value}
+          disabled={disabled}
+          onChange={e => onChange(e.target.checked)}
+        />
+        Remove hidden data
+      </label>
+    </div>
+  );
+}
+
+interface SanitizeReportSummaryProps {
+  report: SanitizeReport;
+}
+
+// Lists what was removed from the merged document
+export function SanitizeReportSummary({ report }: SanitizeReportSummaryProps) {
+  const removed = REMOVED_ITEMS.filter(item => report[item.value] > 0);
+
+  return (
+    <div className="flex flex-col items-center gap-1 text-sm text-gray-700 dark:text-gray-200">
+      <span className="flex items-center gap-1 font-medium">
+        <ShieldCheck className="h-4 w-4" />
+        {removed.length > 0 ? 'Hidden data removed' : 'No hidden data found'}
+      </span>
+      {removed.length > 0 && (
+        <ul className="flex flex-wrap justify-center gap-x-4 gap-y-1">
+          {removed.map(item => (
+            <li key={item.value}>{item.label}: {report[item.value]}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
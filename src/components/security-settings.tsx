@@ -0,0 +1,141 @@
+// Copyright © 2025 Anton Medvedev
+// SPDX‑License‑Identifier: AGPL‑3.0
+
+import React from "react";
+import { Lock } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import type { SecuritySettings } from "../workers/mupdf.worker";
+
+type EncryptionMethod = NonNullable<SecuritySettings['method']>;
+type Permission = keyof NonNullable<SecuritySettings['permissions']>;
+
+const METHODS: { value: EncryptionMethod; label: string }[] = [
+  { value: 'aes-256', label: 'AES-256' },
+  { value: 'aes-128', label: 'AES-128' },
+  { value: 'rc4-128', label: 'RC4-128 (legacy viewers)' },
+];
+
+const PERMISSIONS: { value: Permission; label: string }[] = [
+  { value: 'print', label: 'Printing' },
+  { value: 'copy', label: 'Copying text and images' },
+  { value: 'modify', label: 'Editing' },
+  { value: 'annotate', label: 'Comments' },
+  { value: 'fillForms', label: 'Filling in forms' },
+  { value: 'assemble', label: 'Inserting and removing pages' },
+];
+
+interface SecuritySettingsPanelProps {
+  // Settings the download is currently encrypted with, if any
+  applied: SecuritySettings | null;
+  // Rejects when the document could not be encrypted
+  onApply: (settings: SecuritySettings) => Promise<void>;
+  onRemove: () => void;
+}
+
+export function SecuritySettingsPanel({ applied, onApply, onRemove }: SecuritySettingsPanelProps) {
+  const [isOpen, setIsOpen] = React.useState(false);
+  const [userPassword, setUserPassword] = React.useState('');
+  const [ownerPassword, setOwnerPassword] = React.useState('');
+  const [method, setMethod] = React.useState<EncryptionMethod>('aes-256');
+  const [permissions, setPermissions] = React.useState<Record<Permission, boolean>>({
+    print: true, copy: true, modify: true, annotate: true, fillForms: true, assemble: true,
+  });
+  const [isApplying, setIsApplying] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+
+  const hasRestrictions = Object.values(permissions).some(allowed => !allowed);
+  const validationError = !userPassword && !ownerPassword
+    ? 'Enter a password to open the document, to change permissions, or both.'
+    : userPassword.includes(',') || ownerPassword.includes(',')
+      ? 'Passwords cannot contain commas.'
+      : hasRestrictions && !ownerPassword
+        ? 'Restrictions need an owner password, otherwise anyone can lift them.'
+        : null;
+
+  async function handleApply() {
+    if (validationError || isApplying) return;
+    setIsApplying(true);
+    setError(null);
+    try {
+      await onApply({ userPassword, ownerPassword, method, permissions });
+      setIsOpen(false);
+    } catch (e) {
+      console.error(e);
+      setError('Failed to encrypt the PDF.');
+    } finally {
+      setIsApplying(false);
+    }
+  }
+
+  if (!isOpen) {
+    return (
+      <div className="flex flex-wrap items-center justify-center gap-2 text-sm text-gray-700 dark:text-gray-200">
+        {applied && (
+          <span className="flex items-center gap-1">
+            <Lock className="h-4 w-4" />
+            Encrypted with {METHODS.find(m => m.value === applied.method)?.label ?? applied.method}
+          </span>
+        )}
+        <Button variant="outline" size="sm" onClick={() => setIsOpen(true)}>
+          {applied ? 'Change protection' : 'Protect with password'}
+        </Button>
+        {applied && (
+          <Button variant="outline" size="sm" onClick={onRemove}>Remove protection</Button>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-3 w-full text-sm text-gray-700 dark:text-gray-200">
+      <label className="flex flex-col gap-1">
+        Password to open
+        <Input type="password" autoComplete="new-password" value={userPassword} onChange={e => setUserPassword(e.target.value)} />
+      </label>
+      <label className="flex flex-col gap-1">
+        Owner password, to change permissions
+        <Input type="password" autoComplete="new-password" value={ownerPassword} onChange={e => setOwnerPassword(e.target.value)} />
+      </label>
+      <label className="flex items-center gap-2">
+        Encryption
+        <select
+          className="h-9 rounded-md border border-input bg-background px-2 text-sm"
+          value={method}
+          onChange={e => setMethod(e.target.value as EncryptionMethod)}
+        >
+          {METHODS.map(m => (
+            <option key={m.value} value={m.value}>{m.label}</option>
+          ))}
+        </select>
+      </label>
+      <fieldset className="grid grid-cols-1 sm:grid-cols-2 gap-1">
+        <legend className="mb-1">Allow</legend>
+        {PERMISSIONS.map(permission => (
+          <label key={permission.value} className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={permissions[permission.value]}
+              onChange={e => setPermissions(prev => ({ ...prev, [permission.value]: e.target.checked }))}
+            />
+            {permission.label}
+          </label>
+        ))}
+      </fieldset>
+      {(error ?? validationError) && (
+        <p className="text-sm text-red-500">{error ?? validationError}</p>
+      )}
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" size="sm" onClick={() => setIsOpen(false)}>Cancel</Button>
+        <Button
+          size="sm"
+          className="bg-red-500 hover:bg-red-600 text-white"
+          disabled={validationError !== null || isApplying}
+          onClick={handleApply}
+        >
+          {isApplying ? 'Encrypting…' : 'Encrypt PDF'}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,38 @@
+// Copyright © 2025 Anton Medvedev
+// SPDX‑License‑Identifier: AGPL‑3.0
+
+import type { SeparatorMode } from "../workers/mupdf.worker";
+
+const MODES: { value: SeparatorMode | 'none'; label: string }[] = [
+  { value: 'none', label: 'Nothing' },
+  { value: 'blank', label: 'Blank page' },
+  { value: 'title', label: 'Page with the file name' },
+  { value: 'odd-page', label: 'Blank page to start on an odd page' },
+];
+
+interface SeparatorControlProps {
+  // Undefined puts the files right after each other
+  value: SeparatorMode | undefined;
+  onChange: (value: SeparatorMode | undefined) => void;
+  disabled?: boolean;
+}
+
+export function SeparatorControl({ value, onChange, disabled }: SeparatorControlProps) {
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-2 text-sm text-gray-700 dark:text-gray-200">
+      <label className="flex items-center gap-2" title="Start each file on a fresh sheet when printing on both sides">
+        Between files
+        <select
+          className="h-9 rounded-md border border-input bg-background px-2 text-sm"
+          value={value ?? 'none'}
+          disabled={disabled}
+          onChange={e => onChange(e.target.value === 'none' ? undefined : e.target.value as SeparatorMode)}
+        >
+          {MODES.map(mode => (
+            <option key={mode.value} value={mode.value}>{mode.label}</option>
+          ))}
+        </select>
+      </label>
+    </div>
+  );
+}
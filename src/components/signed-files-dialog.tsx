@@ -0,0 +1,60 @@
+// Copyright © 2025 Anton Medvedev
+// SPDX‑License‑Identifier: AGPL‑3.0
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+// Bundle the signed files unchanged, join them with their signatures drawn into
+// the pages, or join them with signature fields that are no longer valid
+export type SignedFilesChoice = 'portfolio' | 'flatten' | 'keep';
+
+interface SignedFilesDialogProps {
+  open: boolean;
+  fileNames: string[];
+  onOpenChange: (open: boolean) => void;
+  onChoose: (choice: SignedFilesChoice) => void;
+}
+
+export function SignedFilesDialog({ open, fileNames, onOpenChange, onChoose }: SignedFilesDialogProps) {
+  function choose(choice: SignedFilesChoice) {
+    onOpenChange(false);
+    onChoose(choice);
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Signed files</DialogTitle>
+          <DialogDescription>
+            Joining copies the pages into a new file, so the digital signatures stop being valid
+            even though they still look signed.
+          </DialogDescription>
+        </DialogHeader>
+        <ul className="flex flex-col gap-1 text-sm text-gray-700 dark:text-gray-200">
+          {fileNames.map((fileName, i) => (
+            <li key={i} className="truncate" title={fileName}>{fileName}</li>
+          ))}
+        </ul>
+        <div className="flex flex-col gap-2 text-sm text-gray-700 dark:text-gray-200">
+          <p>A portfolio keeps every file intact, signatures included, as an attachment of a cover page.</p>
+          <p>Flattening draws the signatures into the pages and removes the signature fields.</p>
+        </div>
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={() => choose('keep')}>Join anyway</Button>
+          <Button variant="outline" onClick={() => choose('flatten')}>Flatten signatures</Button>
+          <Button className="bg-red-500 hover:bg-red-600 text-white" onClick={() => choose('portfolio')}>
+            Create portfolio
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
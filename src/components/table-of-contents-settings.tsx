@@ -0,0 +1,24 @@
+// Copyright © 2025 Anton Medvedev
+// SPDX‑License‑Identifier: AGPL‑3.0
+
+interface TableOfContentsControlProps {
+  value: boolean;
+  onChange: (value: boolean) => void;
+  disabled?: boolean;
+}
+
+export function TableOfContentsControl({ value, onChange, disabled }: TableOfContentsControlProps) {
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-2 text-sm text-gray-700 dark:text-gray-200">
+      <label className="flex items-center gap-2" title="Start with pages that list every file and link to its first page">
+        <input
+          type="checkbox"
+          checked={value}
+          disabled={disabled}
+          onChange={e => onChange(e.target.checked)}
+        />
+        Add table of contents
+      </label>
+    </div>
+  );
+}
@@ -0,0 +1,198 @@
+// Copyright © 2025 Anton Medvedev
+// SPDX‑License‑Identifier: AGPL‑3.0
+
+import { useRef, useState } from "react";
+import { Input } from "@/components/ui/input";
+import type { Watermark, WatermarkPosition } from "../workers/mupdf.worker";
+
+const DEFAULT_WATERMARK: Watermark = {
+  content: { type: 'text', text: 'CONFIDENTIAL', fontSize: 60 },
+  opacity: 0.3,
+  angle: 45,
+  position: 'center',
+  tile: false,
+  layer: 'over',
+};
+
+// Share of the page width a new image watermark takes, in percent
+const DEFAULT_IMAGE_WIDTH = 40;
+
+const POSITIONS: { value: WatermarkPosition; label: string }[] = [
+  { value: 'center', label: 'Center' },
+  { value: 'top-left', label: 'Top left' },
+  { value: 'top-center', label: 'Top center' },
+  { value: 'top-right', label: 'Top right' },
+  { value: 'center-left', label: 'Left' },
+  { value: 'center-right', label: 'Right' },
+  { value: 'bottom-left', label: 'Bottom left' },
+  { value: 'bottom-center', label: 'Bottom center' },
+  { value: 'bottom-right', label: 'Bottom right' },
+];
+
+const SELECT_CLASS = "h-9 rounded-md border border-input bg-background px-2 text-sm";
+
+interface WatermarkControlProps {
+  // Undefined leaves pages without a watermark
+  value: Watermark | undefined;
+  onChange: (value: Watermark | undefined) => void;
+  disabled?: boolean;
+}
+
+export function WatermarkControl({ value, onChange, disabled }: WatermarkControlProps) {
+  const imageInputRef = useRef<HTMLInputElement>(null);
+  const [imageName, setImageName] = useState<string | null>(null);
+
+  const handleImageChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !value) return;
+    const data = await file.arrayBuffer();
+    setImageName(file.name);
+    onChange({ ...value, content: { type: 'image', data, width: DEFAULT_IMAGE_WIDTH } });
+  };
+
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-2 text-sm text-gray-700 dark:text-gray-200">
+      <label className="flex items-center gap-2">
+        <input
+          type="checkbox"
+          checked={value !== undefined}
+          disabled={disabled}
+          onChange={e => onChange(e.target.checked ? DEFAULT_WATERMARK : undefined)}
+        />
+        Watermark
+      </label>
+      {value && (
+        <>
+          <select
+            className={SELECT_CLASS}
+            value={value.content.type}
+            aria-label="Watermark type"
+            disabled={disabled}
+            onChange={e => {
+              // The image is only used once one is picked
+              if (e.target.value === 'image') imageInputRef.current?.click();
+              else onChange({ ...value, content: DEFAULT_WATERMARK.content });
+            }}
+          >
+            <option value="text">Text</option>
+            <option value="image">Image</option>
+          </select>
+          <input
+            ref={imageInputRef}
+            type="file"
+            accept="image/png,image/jpeg"
+            className="hidden"
+            onChange={handleImageChange}
+          />
+          {value.content.type === 'text' ? (
+            <>
+              <Input
+                className="h-9 w-40"
+                value={value.content.text}
+                aria-label="Watermark text"
+                disabled={disabled}
+                onChange={e => value.content.type === 'text' && onChange({ ...value, content: { ...value.content, text: e.target.value } })}
+              />
+              <label className="flex items-center gap-1">
+                Size
+                <Input
+                  type="number"
+                  min={1}
+                  max={500}
+                  className="h-9 w-20"
+                  value={value.content.fontSize}
+                  disabled={disabled}
+                  onChange={e => value.content.type === 'text' && onChange({ ...value, content: { ...value.content, fontSize: Number(e.target.value) } })}
+                />
+                pt
+              </label>
+            </>
+          ) : (
+            <>
+              <button
+                type="button"
+                className="max-w-40 truncate underline"
+                disabled={disabled}
+                onClick={() => imageInputRef.current?.click()}
+              >
+                {imageName ?? 'Choose image'}
+              </button>
+              <label className="flex items-center gap-1" title="Width of the image as a share of the page width">
+                Width
+                <Input
+                  type="number"
+                  min={1}
+                  max={100}
+                  className="h-9 w-20"
+                  value={value.content.width}
+                  disabled={disabled}
+                  onChange={e => value.content.type === 'image' && onChange({ ...value, content: { ...value.content, width: Number(e.target.value) } })}
+                />
+                %
+              </label>
+            </>
+          )}
+          <label className="flex items-center gap-1">
+            Opacity
+            <Input
+              type="number"
+              min={0}
+              max={100}
+              step={5}
+              className="h-9 w-20"
+              value={Math.round(value.opacity * 100)}
+              disabled={disabled}
+              onChange={e => onChange({ ...value, opacity: Number(e.target.value) / 100 })}
+            />
+            %
+          </label>
+          <label className="flex items-center gap-1">
+            Angle
+            <Input
+              type="number"
+              min={-180}
+              max={180}
+              step={15}
+              className="h-9 w-20"
+              value={value.angle}
+              disabled={disabled}
+              onChange={e => onChange({ ...value, angle: Number(e.target.value) })}
+            />
+            °
+          </label>
+          <select
+            className={SELECT_CLASS}
+            value={value.position}
+            aria-label="Watermark position"
+            disabled={disabled}
+            onChange={e => onChange({ ...value, position: e.target.value as WatermarkPosition })}
+          >
+            {POSITIONS.map(position => (
+              <option key={position.value} value={position.value}>{position.label}</option>
+            ))}
+          </select>
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={value.tile}
+              disabled={disabled}
+              onChange={e => onChange({ ...value, tile: e.target.checked })}
+            />
+            Tile
+          </label>
+          <select
+            className={SELECT_CLASS}
+            value={value.layer}
+            aria-label="Watermark layer"
+            disabled={disabled}
+            onChange={e => onChange({ ...value, layer: e.target.value as Watermark['layer'] })}
+          >
+            <option value="over">Over content</option>
+            <option value="under">Under content</option>
+          </select>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,28 @@
+// Copyright © 2025 Anton Medvedev
+// SPDX‑License‑Identifier: AGPL‑3.0‑or‑later
+
+import { useEffect } from 'react';
+import { trackError } from '@/lib/amplitude';
+
+// Follows the system color scheme
+export function useDarkMode() {
+  useEffect(() => {
+    try {
+      const mediaQuery = window.matchMedia('(prefers-color-scheme: dark)');
+      function updateDarkMode(e?: MediaQueryListEvent) {
+        if ((e && e.matches) || (!e && mediaQuery.matches)) {
+          document.documentElement.classList.add('dark');
+        } else {
+          document.documentElement.classList.remove('dark');
+        }
+      }
+      updateDarkMode();
+      mediaQuery.addEventListener('change', updateDarkMode);
+      return () => mediaQuery.removeEventListener('change', updateDarkMode);
+    } catch (error) {
+      trackError(error instanceof Error ? error : new Error(String(error)), {
+        context: 'dark_mode_handler'
+      });
+    }
+  }, []);
+}
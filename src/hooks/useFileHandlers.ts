@@ -3,10 +3,21 @@
 
 import { useCallback, useRef } from 'react';
 import { trackEvent } from '@/lib/amplitude';
+import { isMergeInput } from '@/lib/file-types';
 
 export interface FileItem {
   id: string;
+  // A PDF, or an image that becomes a page (a page per image for multi-page TIFF)
   file: File;
+  // 0-based indexes of the pages to merge, in order. All pages when not set.
+  pages?: number[];
+  // Clockwise rotation in degrees (0, 90, 180 or 270), applied when merging
+  rotation?: number;
+  // Encrypted with a password that has not been entered yet
+  locked?: boolean;
+  // Digitally signed or certified, merging its pages invalidates that.
+  // Not set until the file has been checked.
+  signed?: boolean;
 }
 
 interface UseFileHandlersProps {
@@ -22,9 +33,7 @@ export function useFileHandlers({ setFiles, setPreviews, generateId }: UseFileHa
     event.preventDefault();
     dragCounter.current = 0;
     setIsDragActive(false);
-    const droppedFiles = Array.from(event.dataTransfer.files || []).filter(
-      (file) => file.type === 'application/pdf'
-    );
+    const droppedFiles = Array.from(event.dataTransfer.files || []).filter(isMergeInput);
     if (droppedFiles.length) {
       const newFileItems: FileItem[] = droppedFiles.map(file => ({ id: generateId(), file }));
       setFiles((prev) => [...prev, ...newFileItems]);
@@ -62,9 +71,7 @@ export function useFileHandlers({ setFiles, setPreviews, generateId }: UseFileHa
   }, []);
 
   const handleFileInput = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
-    const selectedFiles = Array.from(event.target.files || []).filter(
-      (file) => file.type === 'application/pdf'
-    );
+    const selectedFiles = Array.from(event.target.files || []).filter(isMergeInput);
     if (selectedFiles.length) {
       const newFileItems: FileItem[] = selectedFiles.map(file => ({ id: generateId(), file }));
       setFiles((prev) => [...prev, ...newFileItems]);
@@ -1,10 +1,10 @@
 // Copyright © 2025 Anton Medvedev
 // SPDX‑License‑Identifier: AGPL‑3.0‑or‑later
 
-import { MUPDF_LOADED, type MupdfWorker } from "../workers/mupdf.worker";
+import { MUPDF_LOADED, type DocumentMetadata, type MergeOptions, type MupdfWorker, type PageRef, type PortfolioFile, type SecuritySettings, type SplitMode, type Watermark } from "../workers/mupdf.worker";
 import * as Comlink from "comlink";
 import { Remote } from "comlink";
-import { useEffect, useRef, useState } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
 
 export function useMupdf() {
   const [isWorkerInitialized, setIsWorkerInitialized] = useState(false);
@@ -30,23 +30,84 @@ export function useMupdf() {
     };
   }, []);
 
-  const mergeDocuments = async (documents: ArrayBuffer[]) => {
-    return await mupdfWorker.current!.mergeDocuments(documents);
-  }
+  // The helpers only use the worker ref, so they stay the same across renders
+  const mergeDocuments = useCallback(async (documents: ArrayBuffer[], options?: MergeOptions) => {
+    return await mupdfWorker.current!.mergeDocuments(documents, options);
+  }, []);
 
-  const renderFirstPage = async (pdfBuffer: ArrayBuffer) => {
-    return await mupdfWorker.current!.renderFirstPage(pdfBuffer);
-  }
+  const createPortfolio = useCallback(async (files: PortfolioFile[]) => {
+    return await mupdfWorker.current!.createPortfolio(files);
+  }, []);
 
-  const rotateDocument = async (pdfBuffer: ArrayBuffer) => {
-    return mupdfWorker.current!.rotateDocument(pdfBuffer);
-  }
+  const mergePages = useCallback(async (documents: ArrayBuffer[], pages: PageRef[], options?: Omit<MergeOptions, 'pages'>) => {
+    return await mupdfWorker.current!.mergePages(documents, pages, options);
+  }, []);
+
+  const findFieldNameCollisions = useCallback(async (documents: ArrayBuffer[]) => {
+    return await mupdfWorker.current!.findFieldNameCollisions(documents);
+  }, []);
+
+  const splitDocument = useCallback(async (pdfBuffer: ArrayBuffer, mode: SplitMode, fileName?: string) => {
+    return await mupdfWorker.current!.splitDocument(pdfBuffer, mode, fileName);
+  }, []);
+
+  const countPages = useCallback(async (pdfBuffer: ArrayBuffer) => {
+    return await mupdfWorker.current!.countPages(pdfBuffer);
+  }, []);
+
+  const unlockDocument = useCallback(async (pdfBuffer: ArrayBuffer, password: string) => {
+    return await mupdfWorker.current!.unlockDocument(pdfBuffer, password);
+  }, []);
+
+  const protectDocument = useCallback(async (pdfBuffer: ArrayBuffer, security: SecuritySettings) => {
+    return await mupdfWorker.current!.protectDocument(pdfBuffer, security);
+  }, []);
+
+  const readDocumentMetadata = useCallback(async (pdfBuffer: ArrayBuffer) => {
+    return await mupdfWorker.current!.readDocumentMetadata(pdfBuffer);
+  }, []);
+
+  const setDocumentMetadata = useCallback(async (pdfBuffer: ArrayBuffer, metadata: DocumentMetadata) => {
+    return await mupdfWorker.current!.setDocumentMetadata(pdfBuffer, metadata);
+  }, []);
+
+  const sanitizeDocument = useCallback(async (pdfBuffer: ArrayBuffer) => {
+    return await mupdfWorker.current!.sanitizeDocument(pdfBuffer);
+  }, []);
+
+  const listEmbeddedFiles = useCallback(async (pdfBuffer: ArrayBuffer) => {
+    return await mupdfWorker.current!.listEmbeddedFiles(pdfBuffer);
+  }, []);
+
+  const findSignatures = useCallback(async (pdfBuffer: ArrayBuffer) => {
+    return await mupdfWorker.current!.findSignatures(pdfBuffer);
+  }, []);
+
+  const renderFirstPage = useCallback(async (pdfBuffer: ArrayBuffer, rotation?: number, watermark?: Watermark) => {
+    return await mupdfWorker.current!.renderFirstPage(pdfBuffer, rotation, watermark);
+  }, []);
+
+  const renderPageThumbnails = useCallback(async (pdfBuffer: ArrayBuffer) => {
+    return await mupdfWorker.current!.renderPageThumbnails(pdfBuffer);
+  }, []);
 
   return {
     isWorkerInitialized,
     mergeDocuments,
+    mergePages,
+    createPortfolio,
+    findFieldNameCollisions,
+    splitDocument,
+    countPages,
+    unlockDocument,
+    protectDocument,
+    readDocumentMetadata,
+    setDocumentMetadata,
+    sanitizeDocument,
+    listEmbeddedFiles,
+    findSignatures,
     renderFirstPage,
-    rotateDocument,
+    renderPageThumbnails,
   }
 }
 
@@ -0,0 +1,118 @@
+// Copyright © 2025 Anton Medvedev
+// SPDX‑License‑Identifier: AGPL‑3.0‑or‑later
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { FileItem } from './useFileHandlers';
+
+export interface PageEntry {
+  id: string;
+  fileId: string;
+  // 0-based page index in the file
+  pageIndex: number;
+  // Clockwise rotation in degrees, added on top of the page's own rotation
+  rotation: number;
+}
+
+interface UsePageOrganizerProps {
+  files: FileItem[];
+  renderFileThumbnails: (item: FileItem) => Promise<string[]>;
+  generateId: () => string;
+}
+
+// Page organizer mode: every file is expanded into its pages, which can be
+// reordered across files, removed, duplicated and rotated one by one.
+export function usePageOrganizer({ files, renderFileThumbnails, generateId }: UsePageOrganizerProps) {
+  // null while files are organized as a whole
+  const [pages, setPages] = useState<PageEntry[] | null>(null);
+  const [thumbnails, setThumbnails] = useState<Record<string, string[]>>({});
+  // Files whose pages could not be read
+  const [failedFileIds, setFailedFileIds] = useState<string[]>([]);
+  const expandedFileIds = useRef(new Set<string>());
+  const isActive = pages !== null;
+
+  // Expand files into pages when the organizer opens, and files added while it is open
+  useEffect(() => {
+    if (!isActive) {
+      expandedFileIds.current.clear();
+      setFailedFileIds([]);
+      return;
+    }
+
+    const fileIds = new Set(files.map(f => f.id));
+    setPages(prev => prev && prev.some(page => !fileIds.has(page.fileId))
+      ? prev.filter(page => fileIds.has(page.fileId))
+      : prev
+    );
+    setFailedFileIds(prev => prev.some(id => !fileIds.has(id)) ? prev.filter(id => fileIds.has(id)) : prev);
+
+    // Thumbnails load in any order, pages of a file go before those of the files after it
+    const fileOrder = new Map(files.map((f, i) => [f.id, i]));
+
+    // Locked files are expanded once they are unlocked
+    files.filter(item => !item.locked && !expandedFileIds.current.has(item.id)).forEach(async (item) => {
+      expandedFileIds.current.add(item.id);
+      let fileThumbnails: string[];
+      try {
+        fileThumbnails = await renderFileThumbnails(item);
+      } catch (error) {
+        console.error(error);
+        setFailedFileIds(prev => [...prev, item.id]);
+        return;
+      }
+      setThumbnails(prev => ({ ...prev, [item.id]: fileThumbnails }));
+      const pageIndexes = item.pages ?? fileThumbnails.map((_, i) => i);
+      const newPages = pageIndexes.map(pageIndex => ({ id: generateId(), fileId: item.id, pageIndex, rotation: item.rotation ?? 0 }));
+      const position = fileOrder.get(item.id) ?? files.length;
+      setPages(prev => {
+        if (!prev) return prev;
+        const index = prev.findIndex(page => (fileOrder.get(page.fileId) ?? files.length) > position);
+        return index < 0 ? [...prev, ...newPages] : [...prev.slice(0, index), ...newPages, ...prev.slice(index)];
+      });
+    });
+  }, [isActive, files, renderFileThumbnails, generateId]);
+
+  const open = useCallback(() => {
+    setPages(prev => prev ?? []);
+  }, []);
+
+  const close = useCallback(() => {
+    setPages(null);
+  }, []);
+
+  const reorderPages = useCallback((ids: string[]) => {
+    setPages(prev => prev && ids.map(id => prev.find(page => page.id === id)).filter(Boolean) as PageEntry[]);
+  }, []);
+
+  const deletePage = useCallback((id: string) => {
+    setPages(prev => prev && prev.filter(page => page.id !== id));
+  }, []);
+
+  const duplicatePage = useCallback((id: string) => {
+    setPages(prev => {
+      if (!prev) return prev;
+      const index = prev.findIndex(page => page.id === id);
+      if (index < 0) return prev;
+      return [...prev.slice(0, index + 1), { ...prev[index], id: generateId() }, ...prev.slice(index + 1)];
+    });
+  }, [generateId]);
+
+  const rotatePage = useCallback((id: string, degrees: number) => {
+    setPages(prev => prev && prev.map(page => page.id === id
+      ? { ...page, rotation: (((page.rotation + degrees) % 360) + 360) % 360 }
+      : page
+    ));
+  }, []);
+
+  return {
+    isActive,
+    pages: pages ?? [],
+    thumbnails,
+    failedFileIds,
+    open,
+    close,
+    reorderPages,
+    deletePage,
+    duplicatePage,
+    rotatePage,
+  };
+}
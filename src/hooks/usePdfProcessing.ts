@@ -1,60 +1,171 @@
 // Copyright © 2025 Anton Medvedev
 // SPDX‑License‑Identifier: AGPL‑3.0‑or‑later
 
-import { useCallback } from 'react';
+import { useCallback, useEffect, useRef } from 'react';
 import { useMupdf } from './useMupdf';
 import type { FileItem } from './useFileHandlers';
+import type { PageEntry } from './usePageOrganizer';
+import { isPdfFile } from '@/lib/file-types';
+import { PASSWORD_REQUIRED_ERROR, type DocumentMetadata, type MergeOptions, type SecuritySettings, type Watermark } from '../workers/mupdf.worker';
+
+// Whether the worker refused to open a document for lack of the right password
+export function isPasswordRequiredError(error: unknown): boolean {
+  return error instanceof Error && error.name === PASSWORD_REQUIRED_ERROR;
+}
 
 export function usePdfProcessing(
   files: FileItem[],
+  setFiles: React.Dispatch<React.SetStateAction<FileItem[]>>,
   previews: Record<string, string | null>,
-  setPreviews: React.Dispatch<React.SetStateAction<Record<string, string | null>>>
+  setPreviews: React.Dispatch<React.SetStateAction<Record<string, string | null>>>,
+  // Drawn onto the previews, so they show what the merged pages will look like
+  watermark?: Watermark
 ) {
-  const { mergeDocuments, renderFirstPage, isWorkerInitialized, rotateDocument } = useMupdf();
+  const { mergeDocuments, mergePages, createPortfolio, findFieldNameCollisions, unlockDocument, protectDocument, readDocumentMetadata, setDocumentMetadata, sanitizeDocument, listEmbeddedFiles, findSignatures, renderFirstPage, renderPageThumbnails, isWorkerInitialized } = useMupdf();
+
+  // Previews rendered with an earlier watermark are dropped, the new one is rendered instead
+  const watermarkRef = useRef(watermark);
+  useEffect(() => {
+    watermarkRef.current = watermark;
+  }, [watermark]);
 
   // Generate previews for new files only
   const generatePreviews = useCallback(async () => {
     if (!isWorkerInitialized) return;
-    const missing = files.filter(item => previews[item.id] == null);
+    // Locked files get their preview once they are unlocked
+    const missing = files.filter(item => previews[item.id] == null && !item.locked);
     if (missing.length === 0) return;
     const newEntries: Record<string, string | null> = {};
+    const lockedIds: string[] = [];
+    const signedById: Record<string, boolean> = {};
     await Promise.all(
       missing.map(async (item) => {
         try {
           const buffer = await item.file.arrayBuffer();
-          const preview = await renderFirstPage(buffer);
+          const preview = await renderFirstPage(buffer, item.rotation, watermark);
           newEntries[item.id] = preview;
-        } catch {
+          if (item.signed === undefined && isPdfFile(item.file)) {
+            const { signatures, permissions } = await findSignatures(buffer)
+              .catch(() => ({ signatures: 0, permissions: false }));
+            signedById[item.id] = signatures > 0 || permissions;
+          }
+        } catch (error) {
+          if (isPasswordRequiredError(error)) lockedIds.push(item.id);
           newEntries[item.id] = null;
         }
       })
     );
+    if (watermarkRef.current !== watermark) return;
+    if (lockedIds.length > 0) {
+      setFiles(prev => prev.map(f => lockedIds.includes(f.id) ? { ...f, locked: true } : f));
+    }
+    if (Object.keys(signedById).length > 0) {
+      setFiles(prev => prev.map(f => f.id in signedById ? { ...f, signed: signedById[f.id] } : f));
+    }
     // Only update if there are new entries
     if (Object.keys(newEntries).length > 0) {
       setPreviews(prev => ({ ...prev, ...newEntries }));
     }
-  }, [files, previews, isWorkerInitialized, renderFirstPage, setPreviews]);
+  }, [files, setFiles, previews, isWorkerInitialized, renderFirstPage, findSignatures, setPreviews, watermark]);
+
+  // Replace a locked file with its decrypted copy. Throws a password required
+  // error when the password is wrong.
+  const unlockFile = useCallback(async (item: FileItem, password: string) => {
+    const buffer = await item.file.arrayBuffer();
+    const unlocked = await unlockDocument(buffer, password);
+    const file = new File([unlocked], item.file.name, { type: 'application/pdf', lastModified: item.file.lastModified });
+    setFiles(prev => prev.map(f => f.id === item.id ? { ...f, file, locked: false } : f));
+    setPreviews(prev => ({ ...prev, [item.id]: null }));
+  }, [unlockDocument, setFiles, setPreviews]);
+
+  // Find form field names defined by more than one file
+  const findFormFieldCollisions = useCallback(async () => {
+    const fileBuffers = await Promise.all(files.map(item => item.file.arrayBuffer()));
+    return await findFieldNameCollisions(fileBuffers);
+  }, [files, findFieldNameCollisions]);
 
   // Merge PDFs
-  const mergePdfs = useCallback(async () => {
+  const mergePdfs = useCallback(async (options: Omit<MergeOptions, 'fileNames' | 'pages' | 'rotations'> = {}) => {
     const fileBuffers = await Promise.all(files.map(item => item.file.arrayBuffer()));
-    return await mergeDocuments(fileBuffers);
+    return await mergeDocuments(fileBuffers, {
+      ...options,
+      fileNames: files.map(item => item.file.name),
+      pages: files.map(item => item.pages),
+      rotations: files.map(item => item.rotation),
+    });
   }, [files, mergeDocuments]);
 
-  // Rotate a PDF and update preview
-  const rotateAndPreviewPdf = useCallback(async (item: FileItem) => {
-    if (!isWorkerInitialized) return;
+  // Bundle the original files unchanged into a portfolio
+  const bundlePdfs = useCallback(async () => {
+    return await createPortfolio(await Promise.all(files.map(async item => ({
+      name: item.file.name,
+      data: await item.file.arrayBuffer(),
+      mimeType: item.file.type,
+      lastModified: item.file.lastModified,
+    }))));
+  }, [files, createPortfolio]);
+
+  // Merge individually arranged pages
+  const mergeOrganizedPages = useCallback(async (pages: PageEntry[], options: Omit<MergeOptions, 'fileNames' | 'pages' | 'rotations'> = {}) => {
+    const fileBuffers = await Promise.all(files.map(item => item.file.arrayBuffer()));
+    return await mergePages(fileBuffers, pages.map(page => ({
+      docIndex: files.findIndex(item => item.id === page.fileId),
+      pageIndex: page.pageIndex,
+      rotation: page.rotation,
+    })), {
+      ...options,
+      fileNames: files.map(item => item.file.name),
+    });
+  }, [files, mergePages]);
+
+  // Encrypt a merged PDF with passwords and permissions
+  const protectPdf = useCallback(async (blob: Blob, security: SecuritySettings) => {
+    const protectedPdf = await protectDocument(await blob.arrayBuffer(), security);
+    return new Blob([protectedPdf], { type: 'application/pdf' });
+  }, [protectDocument]);
+
+  // Properties of the first file, the merged document starts out with
+  const readFirstFileMetadata = useCallback(async () => {
+    if (files.length === 0) return undefined;
+    return await readDocumentMetadata(await files[0].file.arrayBuffer());
+  }, [files, readDocumentMetadata]);
+
+  // Set the title, author and other properties of a merged PDF
+  const setPdfMetadata = useCallback(async (blob: Blob, metadata: DocumentMetadata) => {
+    const pdf = await setDocumentMetadata(await blob.arrayBuffer(), metadata);
+    return new Blob([pdf], { type: 'application/pdf' });
+  }, [setDocumentMetadata]);
+
+  // Remove hidden data from a merged PDF
+  const sanitizePdf = useCallback(async (blob: Blob) => {
+    const { pdf, report } = await sanitizeDocument(await blob.arrayBuffer());
+    return { blob: new Blob([pdf], { type: 'application/pdf' }), report };
+  }, [sanitizeDocument]);
+
+  // Files embedded in a merged PDF
+  const listPdfAttachments = useCallback(async (blob: Blob) => {
+    return await listEmbeddedFiles(await blob.arrayBuffer());
+  }, [listEmbeddedFiles]);
+
+  // Render thumbnails of all pages of a file, for page selection
+  const renderFileThumbnails = useCallback(async (item: FileItem) => {
     const buffer = await item.file.arrayBuffer();
-    const rotatedBuffer = await rotateDocument(buffer);
-    const rotatedFile = new File([rotatedBuffer], item.file.name, { type: 'application/pdf' });
-    const preview = await renderFirstPage(rotatedBuffer);
-    return { rotatedFile, preview };
-  }, [isWorkerInitialized, rotateDocument, renderFirstPage]);
+    return await renderPageThumbnails(buffer);
+  }, [renderPageThumbnails]);
 
   return {
     isWorkerInitialized,
     generatePreviews,
+    findFormFieldCollisions,
     mergePdfs,
-    rotateAndPreviewPdf,
+    mergeOrganizedPages,
+    bundlePdfs,
+    protectPdf,
+    readFirstFileMetadata,
+    setPdfMetadata,
+    sanitizePdf,
+    listPdfAttachments,
+    renderFileThumbnails,
+    unlockFile,
   };
 } 
\ No newline at end of file
@@ -0,0 +1,17 @@
+// Copyright © 2025 Anton Medvedev
+// SPDX‑License‑Identifier: AGPL‑3.0
+
+// Characters that are not allowed in file names on common file systems
+export const UNSAFE_FILE_NAME_CHARS = /[\\/:*?"<>|]/g;
+
+// Names a downloaded PDF after its title, e.g. "Annual report 2024.pdf"
+export function pdfFileName(title: string | undefined, fallback = 'merged'): string {
+  const name = title
+    ?.replace(UNSAFE_FILE_NAME_CHARS, '_')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/^\.+/, '')
+    .slice(0, 120)
+    .trim();
+  return `${name || fallback}.pdf`;
+}
@@ -0,0 +1,33 @@
+// Copyright © 2025 Anton Medvedev
+// SPDX‑License‑Identifier: AGPL‑3.0
+
+export const IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/tiff', 'image/webp'];
+
+// Formats converted to PDF pages in the worker, besides images
+const DOCUMENT_TYPES = ['application/x-fictionbook+xml', 'text/plain', 'application/vnd.comicbook+zip'];
+
+// Types and extensions accepted by the merge file pickers
+export const MERGE_INPUT_ACCEPT = ['application/pdf', ...IMAGE_TYPES, ...DOCUMENT_TYPES, '.fb2', '.txt', '.cbz'].join(',');
+
+// Browsers report these types inconsistently, often as no type at all, the extension decides then
+const IMAGE_EXTENSION = /\.(jpe?g|png|tiff?|webp)$/i;
+const REFLOWABLE_EXTENSION = /\.(fb2|txt)$/i;
+const DOCUMENT_EXTENSION = /\.(fb2|txt|cbz)$/i;
+
+export function isPdfFile(file: File): boolean {
+  return file.type === 'application/pdf' || (!file.type && /\.pdf$/i.test(file.name));
+}
+
+export function isImageFile(file: File): boolean {
+  return IMAGE_TYPES.includes(file.type) || (!file.type && IMAGE_EXTENSION.test(file.name));
+}
+
+// FictionBook and text files have no pages of their own and are laid out when merging
+export function isReflowableFile(file: File): boolean {
+  return REFLOWABLE_EXTENSION.test(file.name) || file.type === 'application/x-fictionbook+xml' || file.type === 'text/plain';
+}
+
+// Files that can be merged: PDFs, images and the other formats converted to PDF pages
+export function isMergeInput(file: File): boolean {
+  return file.type === 'application/pdf' || isImageFile(file) || DOCUMENT_TYPES.includes(file.type) || DOCUMENT_EXTENSION.test(file.name);
+}
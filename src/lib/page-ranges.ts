@@ -0,0 +1,57 @@
+// Copyright © 2025 Anton Medvedev
+// SPDX‑License‑Identifier: AGPL‑3.0
+
+// Parses a page selection such as "1-3,7,10-" into 0-based page indexes, in the
+// order they were listed. Ranges may be open-ended ("10-" or "-3"). Pages listed
+// more than once are only taken the first time.
+// Returns null when the text is not a valid selection for a document of pageCount pages.
+export function parsePageRanges(text: string, pageCount: number): number[] | null {
+  const pages: number[] = [];
+  const seen = new Set<number>();
+
+  for (const part of text.split(',')) {
+    const token = part.replace(/\s+/g, '');
+    if (token === '') continue;
+
+    const match = token.match(/^(\d*)(?:(-)(\d*))?$/);
+    if (!match || (match[1] === '' && match[3] === '')) return null;
+
+    const start = match[1] === '' ? 1 : Number(match[1]);
+    const end = match[2] ? (match[3] === '' ? pageCount : Number(match[3])) : start;
+    if (start < 1 || end > pageCount || start > end) return null;
+
+    for (let page = start; page <= end; page++) {
+      if (!seen.has(page - 1)) {
+        seen.add(page - 1);
+        pages.push(page - 1);
+      }
+    }
+  }
+
+  return pages;
+}
+
+// Formats 0-based page indexes as a page selection, joining consecutive pages into ranges.
+export function formatPageRanges(pages: number[]): string {
+  const parts: string[] = [];
+  for (let i = 0; i < pages.length; i++) {
+    let j = i;
+    while (j + 1 < pages.length && pages[j + 1] === pages[j] + 1) j++;
+    parts.push(j > i ? `${pages[i] + 1}-${pages[j] + 1}` : `${pages[i] + 1}`);
+    i = j;
+  }
+  return parts.join(',');
+}
+
+// Parses split ranges such as "1-3,4-8,9-": every comma-separated range becomes
+// one part. Returns null when any range is not valid for a document of pageCount pages.
+export function parseSplitRanges(text: string, pageCount: number): number[][] | null {
+  const parts: number[][] = [];
+  for (const range of text.split(',')) {
+    if (range.trim() === '') continue;
+    const pages = parsePageRanges(range, pageCount);
+    if (!pages) return null;
+    parts.push(pages);
+  }
+  return parts;
+}
@@ -0,0 +1,36 @@
+// Copyright © 2025 Anton Medvedev
+// SPDX‑License‑Identifier: AGPL‑3.0
+
+import { zipSync } from "fflate";
+import { UNSAFE_FILE_NAME_CHARS } from "@/lib/file-names";
+import { formatPageRanges } from "@/lib/page-ranges";
+
+interface SplitFile {
+  title?: string;
+  pages: number[];
+  data: ArrayBuffer | Uint8Array;
+}
+
+// Names a part after the source file and its bookmark title or page range,
+// e.g. "scan_Chapter 1.pdf" or "scan_pages_1-3.pdf".
+export function splitPartFileName(sourceName: string, part: Omit<SplitFile, 'data'>): string {
+  const baseName = sourceName.replace(/\.pdf$/i, '');
+  const title = part.title?.replace(UNSAFE_FILE_NAME_CHARS, '_').replace(/\s+/g, ' ').trim().slice(0, 80);
+  return title
+    ? `${baseName}_${title}.pdf`
+    : `${baseName}_pages_${formatPageRanges(part.pages)}.pdf`;
+}
+
+// Packs the parts into a ZIP archive. PDFs are compressed already, so they are stored as is.
+export function zipSplitParts(sourceName: string, parts: SplitFile[]): Uint8Array {
+  const entries: Record<string, [Uint8Array, { level: 0 }]> = {};
+  parts.forEach((part, index) => {
+    const fileName = splitPartFileName(sourceName, part);
+    // Bookmarks with the same title would overwrite each other, and a numbered name
+    // can be the title of another bookmark
+    let name = fileName;
+    for (let n = index + 1; entries[name]; n++) name = fileName.replace(/\.pdf$/, `_${n}.pdf`);
+    entries[name] = [new Uint8Array(part.data), { level: 0 }];
+  });
+  return zipSync(entries);
+}
@@ -3,12 +3,20 @@
 
 import React from 'react';
 import ReactDOM from 'react-dom/client';
+import { HashRouter, Route, Routes } from 'react-router-dom';
 import App from './App';
+import Split from './Split';
 import './i18n/config';
 import "./index.css";
 
 ReactDOM.createRoot(document.getElementById('root')!).render(
   <React.StrictMode>
-    <App />
+    {/* Hash routes, the extension serves a single index.html */}
+    <HashRouter>
+      <Routes>
+        <Route path="/" element={<App />} />
+        <Route path="/split" element={<Split />} />
+      </Routes>
+    </HashRouter>
   </React.StrictMode>
 );
@@ -0,0 +1,258 @@
+// Copyright © 2025 Anton Medvedev
+// SPDX‑License‑Identifier: AGPL‑3.0
+
+import * as mupdf from "mupdf/mupdfjs"
+
+export interface FieldNameCollision {
+  // Fully qualified field name, e.g. "applicant.name"
+  name: string;
+  // Indexes of the documents that define a field with this name
+  docIndexes: number[];
+}
+
+function collectFieldNames(field: mupdf.PDFObject, parentName: string, names: Set<string>) {
+  const partialName = field.get('T');
+  const name = partialName.isString()
+    ? (parentName ? `${parentName}.${partialName.asString()}` : partialName.asString())
+    : parentName;
+
+  // Kids without /T are widget annotations of this field, not child fields
+  let hasChildFields = false;
+  const kids = field.get('Kids');
+  if (kids.isArray()) {
+    for (let i = 0; i < kids.length; i++) {
+      const kid = kids.get(i);
+      if (kid.get('T').isString()) {
+        hasChildFields = true;
+        collectFieldNames(kid, name, names);
+      }
+    }
+  }
+
+  if (!hasChildFields && name) names.add(name);
+}
+
+export function isWidget(annot: mupdf.PDFObject): boolean {
+  const subtype = annot.get('Subtype');
+  return subtype.isName() && subtype.asName() === 'Widget';
+}
+
+// Returns the widget annotations on a page, as indirect references.
+export function getPageWidgets(pageObj: mupdf.PDFObject): mupdf.PDFObject[] {
+  const widgets: mupdf.PDFObject[] = [];
+  const annots = pageObj.get('Annots');
+  if (annots.isArray()) {
+    for (let i = 0; i < annots.length; i++) {
+      const annot = annots.get(i);
+      if (annot.isIndirect() && isWidget(annot)) widgets.push(annot);
+    }
+  }
+  return widgets;
+}
+
+// Returns the top-level fields the given widgets belong to, in /Fields order.
+// Widgets are the source of truth: some producers leave fields in /Fields that are
+// not on any page, or put widgets on pages without listing their field in /Fields.
+function collectRootFields(doc: mupdf.PDFDocument, widgets: mupdf.PDFObject[]): mupdf.PDFObject[] {
+  const roots = new Map<number, mupdf.PDFObject>();
+  for (const widget of widgets) {
+    let field = widget;
+    for (let depth = 0; depth < 32 && field.get('Parent').isIndirect(); depth++) {
+      field = field.get('Parent');
+    }
+    if (field.get('T').isString() || field.get('FT').isName()) {
+      roots.set(field.asIndirect(), field);
+    }
+  }
+
+  const ordered: mupdf.PDFObject[] = [];
+  const form = doc.getTrailer().get('Root').get('AcroForm');
+  const fields = form.isDictionary() ? form.get('Fields') : undefined;
+  if (fields?.isArray()) {
+    for (let i = 0; i < fields.length; i++) {
+      const field = fields.get(i);
+      if (field.isIndirect() && roots.has(field.asIndirect())) {
+        ordered.push(field);
+        roots.delete(field.asIndirect());
+      }
+    }
+  }
+
+  return [...ordered, ...roots.values()];
+}
+
+// Returns the fully qualified names of all terminal fields with a widget on a page.
+export function getFieldNames(doc: mupdf.PDFDocument): Set<string> {
+  const widgets: mupdf.PDFObject[] = [];
+  for (let i = 0; i < doc.countPages(); i++) {
+    widgets.push(...getPageWidgets(doc.findPage(i)));
+  }
+
+  const names = new Set<string>();
+  for (const field of collectRootFields(doc, widgets)) {
+    collectFieldNames(field, '', names);
+  }
+  return names;
+}
+
+// Lists field names defined by more than one document. Such fields would share
+// their value in the merged document unless they are renamed.
+export function findFieldNameCollisions(fieldNamesPerDoc: Set<string>[]): FieldNameCollision[] {
+  const docIndexesByName = new Map<string, number[]>();
+  fieldNamesPerDoc.forEach((names, docIndex) => {
+    for (const name of names) {
+      docIndexesByName.set(name, [...(docIndexesByName.get(name) ?? []), docIndex]);
+    }
+  });
+
+  return Array.from(docIndexesByName, ([name, docIndexes]) => ({ name, docIndexes }))
+    .filter(collision => collision.docIndexes.length > 1);
+}
+
+function getOrCreateAcroForm(mergedDoc: mupdf.PDFDocument): mupdf.PDFObject {
+  const root = mergedDoc.getTrailer().get('Root');
+  let form = root.get('AcroForm');
+  if (!form.isDictionary()) {
+    form = mergedDoc.addObject(mergedDoc.newDictionary());
+    form.put('Fields', mergedDoc.newArray());
+    form.put('DR', mergedDoc.newDictionary());
+    // Let viewers regenerate appearances, fields from different producers rarely agree on them
+    form.put('NeedAppearances', true);
+    root.put('AcroForm', form);
+  }
+  return form;
+}
+
+// Copies resource entries (Font, XObject, ...) that the merged /DR does not define yet.
+function mergeDefaultResources(mergedDoc: mupdf.PDFDocument, dr: mupdf.PDFObject, srcDR: mupdf.PDFObject) {
+  srcDR.forEach((resources, category) => {
+    if (!resources.isDictionary()) return;
+    let target = dr.get(category);
+    if (!target.isDictionary()) {
+      target = mergedDoc.newDictionary();
+      dr.put(category, target);
+    }
+    resources.forEach((resource, name) => {
+      if (target.get(name).isNull()) target.put(name, resource);
+    });
+  });
+}
+
+function containsObject(array: mupdf.PDFObject, obj: mupdf.PDFObject): boolean {
+  for (let i = 0; i < array.length; i++) {
+    if (array.get(i).asIndirect() === obj.asIndirect()) return true;
+  }
+  return false;
+}
+
+// Drops kids whose widgets are not on a merged page. Returns whether the field keeps any widget.
+function pruneField(mergedDoc: mupdf.PDFDocument, field: mupdf.PDFObject, mergedWidgets: Set<number>): boolean {
+  const kids = field.get('Kids');
+  if (!kids.isArray()) return isWidget(field) && mergedWidgets.has(field.asIndirect());
+
+  const keptKids = mergedDoc.newArray();
+  for (let i = 0; i < kids.length; i++) {
+    if (pruneField(mergedDoc, kids.get(i), mergedWidgets)) keptKids.push(kids.get(i));
+  }
+  field.put('Kids', keptKids);
+  return keptKids.length > 0;
+}
+
+// Adds the form fields of a source document to the merged /AcroForm.
+// Only fields with a widget among the given (source) widgets are carried over.
+// The graft map must be the one its pages and widgets were grafted with, so the
+// field tree and the widget annotations on the pages stay the same objects.
+// With a prefix, the document's fields are nested under a new parent field so
+// that "name" becomes "<prefix>.name".
+// Widget copies are widgets already in the merged document (on repeated pages)
+// that become additional widgets of their field.
+export function appendAcroForm(
+  mergedDoc: mupdf.PDFDocument,
+  src: mupdf.PDFDocument,
+  graftMap: mupdf.PDFGraftMap,
+  widgets: mupdf.PDFObject[],
+  prefix?: string,
+  widgetCopies: mupdf.PDFObject[] = []
+) {
+  const srcFields = collectRootFields(src, widgets);
+  if (srcFields.length === 0) return;
+
+  const srcForm = src.getTrailer().get('Root').get('AcroForm');
+  const form = getOrCreateAcroForm(mergedDoc);
+
+  let parent: mupdf.PDFObject | undefined;
+  if (prefix) {
+    parent = mergedDoc.addObject(mergedDoc.newDictionary());
+    parent.put('T', mergedDoc.newString(prefix));
+    parent.put('Kids', mergedDoc.newArray());
+    form.get('Fields').push(parent);
+  }
+
+  // Make every merged widget reachable from its parent field, then drop the
+  // widgets (and emptied fields) that did not make it onto a merged page
+  const mergedWidgets = new Set<number>();
+  for (const widget of [...widgets.map(widget => graftMap.graftObject(widget)), ...widgetCopies]) {
+    mergedWidgets.add(widget.asIndirect());
+    let child = widget;
+    for (let depth = 0; depth < 32 && child.get('Parent').isIndirect(); depth++) {
+      const parentField = child.get('Parent');
+      if (!parentField.get('Kids').isArray()) parentField.put('Kids', mergedDoc.newArray());
+      if (!containsObject(parentField.get('Kids'), child)) parentField.get('Kids').push(child);
+      child = parentField;
+    }
+  }
+
+  // Default appearance is inherited from the AcroForm, move it onto the fields
+  // so each document keeps its own after merging
+  const srcDA = srcForm.isDictionary() ? srcForm.get('DA') : mupdf.PDFObject.Null;
+  for (const srcField of srcFields) {
+    const field = graftMap.graftObject(srcField);
+    pruneField(mergedDoc, field, mergedWidgets);
+    if (srcDA.isString() && field.get('DA').isNull()) {
+      field.put('DA', mergedDoc.newString(srcDA.asString()));
+    }
+    if (parent) {
+      field.put('Parent', parent);
+      parent.get('Kids').push(field);
+    } else {
+      form.get('Fields').push(field);
+    }
+  }
+
+  // Copies of widgets that are also the field itself become fields of the same name
+  for (const copy of widgetCopies) {
+    if (copy.get('Parent').isIndirect()) continue;
+    if (parent) {
+      copy.put('Parent', parent);
+      parent.get('Kids').push(copy);
+    } else {
+      form.get('Fields').push(copy);
+    }
+  }
+
+  // The source may have widgets without an /AcroForm dictionary
+  if (!srcForm.isDictionary()) return;
+
+  const srcDR = srcForm.get('DR');
+  if (srcDR.isDictionary()) {
+    mergeDefaultResources(mergedDoc, form.get('DR'), graftMap.graftObject(srcDR));
+  }
+  if (srcDA.isString() && form.get('DA').isNull()) {
+    form.put('DA', mergedDoc.newString(srcDA.asString()));
+  }
+
+  const srcSigFlags = srcForm.get('SigFlags');
+  if (srcSigFlags.isInteger()) {
+    const sigFlags = form.get('SigFlags');
+    form.put('SigFlags', (sigFlags.isInteger() ? sigFlags.asNumber() : 0) | srcSigFlags.asNumber());
+  }
+
+  // Calculation order of fields with calculate actions
+  const srcCO = srcForm.get('CO');
+  if (srcCO.isArray()) {
+    if (!form.get('CO').isArray()) form.put('CO', mergedDoc.newArray());
+    for (let i = 0; i < srcCO.length; i++) {
+      form.get('CO').push(graftMap.graftObject(srcCO.get(i)));
+    }
+  }
+}
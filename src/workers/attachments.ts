@@ -0,0 +1,57 @@
+// Copyright © 2025 Anton Medvedev
+// SPDX‑License‑Identifier: AGPL‑3.0
+
+import * as mupdf from "mupdf/mupdfjs"
+
+// A file embedded in a document, like the XML of an e-invoice or an attached spreadsheet
+export interface EmbeddedFileInfo {
+  name: string;
+  mimeType: string;
+  // Size in bytes
+  size: number;
+}
+
+// Numbers a name that is taken, "data.xml" becomes "data (2).xml"
+export function getUniqueName(name: string, usedNames: Set<string>): string {
+  if (!usedNames.has(name)) return name;
+  const dot = name.lastIndexOf('.');
+  const [base, extension] = dot > 0 ? [name.slice(0, dot), name.slice(dot)] : [name, ''];
+  let number = 2;
+  while (usedNames.has(`${base} (${number})${extension}`)) number++;
+  return `${base} (${number})${extension}`;
+}
+
+// Adds the embedded files of a source document to the merged document. Files are
+// grafted with the pages' graft map, so file attachment annotations on merged pages
+// and the name tree share them. Names already taken by another document get a number.
+export function appendEmbeddedFiles(mergedDoc: mupdf.PDFDocument, src: mupdf.PDFDocument, graftMap: mupdf.PDFGraftMap) {
+  const usedNames = new Set(Object.keys(mergedDoc.getEmbeddedFiles()));
+  for (const [name, fileSpec] of Object.entries(src.getEmbeddedFiles())) {
+    if (!fileSpec.isDictionary()) continue;
+    const uniqueName = getUniqueName(name, usedNames);
+    usedNames.add(uniqueName);
+
+    const grafted = graftMap.graftObject(fileSpec);
+    if (uniqueName !== name) {
+      // Viewers show the file name of the file specification rather than the name tree key
+      grafted.put('F', mergedDoc.newString(uniqueName));
+      grafted.put('UF', mergedDoc.newString(uniqueName));
+    }
+    mergedDoc.insertEmbeddedFile(uniqueName, grafted);
+  }
+}
+
+// Lists the files in the embedded files name tree
+export function listEmbeddedFiles(doc: mupdf.PDFDocument): EmbeddedFileInfo[] {
+  return Object.entries(doc.getEmbeddedFiles()).map(([name, fileSpec]) => {
+    let mimeType = '';
+    let size = 0;
+    try {
+      mimeType = doc.getEmbeddedFileParams(fileSpec).mimetype;
+      size = doc.getEmbeddedFileContents(fileSpec)?.getLength() ?? 0;
+    } catch (e) {
+      console.warn(`Failed to read embedded file ${name}:`, e);
+    }
+    return { name, mimeType, size };
+  });
+}
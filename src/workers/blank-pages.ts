@@ -0,0 +1,56 @@
+// Copyright © 2025 Anton Medvedev
+// SPDX‑License‑Identifier: AGPL‑3.0
+
+import * as mupdf from "mupdf/mupdfjs"
+
+export interface BlankPageSettings {
+  // Highest share of non-white pixels, in percent, for a page to count as blank.
+  // Scans of empty sheets are never perfectly white, dust and paper texture need some slack.
+  threshold: number;
+}
+
+export const ALL_PAGES_BLANK_ERROR = 'AllPagesBlankError';
+
+// Thrown when every page of a merge is blank, nothing would be left to save
+export class AllPagesBlankError extends Error {
+  constructor(message = 'All pages are blank') {
+    super(message);
+    this.name = ALL_PAGES_BLANK_ERROR;
+  }
+}
+
+// Pages are analyzed at a low resolution, enough to see a line of text
+const ANALYSIS_DPI = 50;
+
+// Gray level below which a pixel counts as ink rather than paper
+const INK_LEVEL = 224;
+
+// Returns the share of non-white pixels of a rendered page, in percent.
+export function measureInk(page: mupdf.PDFPage): number {
+  const zoom = ANALYSIS_DPI / 72;
+  const pix = page.toPixmap(mupdf.Matrix.scale(zoom, zoom), mupdf.ColorSpace.DeviceGray, false, true);
+  try {
+    const width = pix.getWidth();
+    const height = pix.getHeight();
+    const stride = pix.getStride();
+    const pixels = pix.getPixels();
+    if (width === 0 || height === 0) return 0;
+
+    let ink = 0;
+    for (let y = 0; y < height; y++) {
+      for (let x = 0, offset = y * stride; x < width; x++, offset++) {
+        if (pixels[offset] < INK_LEVEL) ink++;
+      }
+    }
+    return (ink / (width * height)) * 100;
+  } finally {
+    pix.destroy();
+  }
+}
+
+export function isBlankPage(page: mupdf.PDFPage, settings: BlankPageSettings): boolean {
+  if (!(settings.threshold >= 0 && settings.threshold <= 100)) {
+    throw new Error('Blank page threshold must be between 0 and 100 percent');
+  }
+  return measureInk(page) <= settings.threshold;
+}
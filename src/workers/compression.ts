@@ -0,0 +1,188 @@
+// Copyright © 2025 Anton Medvedev
+// SPDX‑License‑Identifier: AGPL‑3.0
+
+import * as mupdf from "mupdf/mupdfjs"
+
+export type CompressionPreset = 'lossless' | 'balanced' | 'maximum' | 'custom';
+
+export interface CompressionSettings {
+  preset: CompressionPreset;
+  // Resolution images are downsampled to, used by the custom preset
+  dpi?: number;
+  // JPEG quality (1-100) images are recompressed with, used by the custom preset
+  quality?: number;
+}
+
+export const DEFAULT_COMPRESSION: CompressionSettings = { preset: 'balanced' };
+
+interface ImageCompression {
+  dpi: number;
+  quality: number;
+}
+
+const IMAGE_COMPRESSION: Record<Exclude<CompressionPreset, 'custom'>, ImageCompression | null> = {
+  lossless: null,
+  balanced: { dpi: 150, quality: 70 },
+  maximum: { dpi: 96, quality: 50 },
+};
+
+const SAVE_OPTIONS: Record<CompressionPreset, string> = {
+  // Garbage collection and stream compression only, image data is left untouched
+  lossless: "compress,compress-images,compress-fonts,garbage=2",
+  balanced: "compress,compress-images,compress-fonts,garbage=2,compression-effort=90",
+  maximum: "compress,compress-images,compress-fonts,garbage=4,compression-effort=100",
+  custom: "compress,compress-images,compress-fonts,garbage=2,compression-effort=90",
+};
+
+export function getSaveOptions(settings: CompressionSettings = DEFAULT_COMPRESSION): string {
+  return SAVE_OPTIONS[settings.preset] ?? SAVE_OPTIONS.balanced;
+}
+
+export function getImageCompression(settings: CompressionSettings = DEFAULT_COMPRESSION): ImageCompression | null {
+  if (settings.preset !== 'custom') {
+    return settings.preset in IMAGE_COMPRESSION ? IMAGE_COMPRESSION[settings.preset] : IMAGE_COMPRESSION.balanced;
+  }
+
+  const dpi = Math.round(settings.dpi ?? IMAGE_COMPRESSION.balanced!.dpi);
+  const quality = Math.round(settings.quality ?? IMAGE_COMPRESSION.balanced!.quality);
+  if (!(dpi > 0) || !(quality >= 1 && quality <= 100)) {
+    throw new Error('Compression DPI must be positive and quality between 1 and 100');
+  }
+  return { dpi, quality };
+}
+
+// Images that can be recompressed as JPEG without losing meaning: 8-bit gray or
+// RGB without transparency. Masks, bilevel scans and CMYK images are kept as is.
+function isRecompressible(imageObj: mupdf.PDFObject, image: mupdf.Image): boolean {
+  if (image.getImageMask() || image.getMask()) return false;
+  if (!imageObj.get('SMask').isNull() || !imageObj.get('Mask').isNull()) return false;
+  if (image.getBitsPerComponent() !== 8) return false;
+  const components = image.getNumberOfComponents();
+  return components === 1 || components === 3;
+}
+
+function isJPEG(imageObj: mupdf.PDFObject): boolean {
+  const filter = imageObj.get('Filter');
+  if (filter.isName()) return filter.asName() === 'DCTDecode';
+  return filter.isArray() && filter.length === 1 && filter.get(0).asName() === 'DCTDecode';
+}
+
+// Decodes an image, scaled down by the given factor, and encodes it as JPEG.
+// Pixmaps are freed right away, the loop over a document's images gives the
+// garbage collector no chance to.
+function encodeJPEG(image: mupdf.Image, scale: number, quality: number): Uint8Array {
+  const width = image.getWidth();
+  const height = image.getHeight();
+  let pixmap = image.toPixmap();
+  try {
+    if (scale < 1) {
+      const scaled = pixmap.warp(
+        [[0, 0], [width, 0], [width, height], [0, height]],
+        Math.max(1, Math.round(width * scale)),
+        Math.max(1, Math.round(height * scale))
+      );
+      pixmap.destroy();
+      pixmap = scaled;
+    }
+    return pixmap.asJPEG(quality, false);
+  } finally {
+    pixmap.destroy();
+  }
+}
+
+// Downsamples images larger than needed to fill their page at the given DPI and
+// recompresses them as JPEG. Images that would not get smaller are left alone.
+// Returns the number of images replaced.
+export function compressImages(doc: mupdf.PDFDocument, compression: ImageCompression): number {
+  // Replacement image for every image object already processed, by object number
+  const replaced = new Map<number, mupdf.PDFObject | null>();
+  const visited = new Set<number>();
+
+  const compressImage = (imageObj: mupdf.PDFObject, maxPixels: number): mupdf.PDFObject | null => {
+    const image = doc.loadImage(imageObj);
+    let jpeg: Uint8Array;
+    try {
+      if (!isRecompressible(imageObj, image)) return null;
+
+      const width = image.getWidth();
+      const height = image.getHeight();
+      const scale = Math.min(1, maxPixels / Math.max(width, height));
+      // Already a JPEG at or below the target resolution
+      if (scale === 1 && isJPEG(imageObj)) return null;
+
+      jpeg = encodeJPEG(image, scale, compression.quality);
+    } finally {
+      image.destroy();
+    }
+    const raw = imageObj.readRawStream();
+    try {
+      if (jpeg.length >= raw.getLength()) return null;
+    } finally {
+      raw.destroy();
+    }
+
+    const newImage = new mupdf.Image(jpeg);
+    let newImageObj: mupdf.PDFObject;
+    try {
+      newImageObj = doc.addImage(newImage);
+    } finally {
+      newImage.destroy();
+    }
+    // Keep how the image is drawn
+    for (const key of ['Interpolate', 'Intent']) {
+      if (!imageObj.get(key).isNull()) newImageObj.put(key, imageObj.get(key));
+    }
+    return newImageObj;
+  };
+
+  const visitResources = (resources: mupdf.PDFObject, maxPixels: number) => {
+    const xobjects = resources.isDictionary() ? resources.get('XObject') : mupdf.PDFObject.Null;
+    if (!xobjects.isDictionary()) return;
+
+    const replacements: [string, mupdf.PDFObject][] = [];
+    xobjects.forEach((xobject, name) => {
+      if (!xobject.isIndirect()) return;
+      const num = xobject.asIndirect();
+      const subtype = xobject.get('Subtype');
+
+      if (subtype.isName() && subtype.asName() === 'Form') {
+        // Form XObjects can be shared between pages, visit them once
+        if (visited.has(num)) return;
+        visited.add(num);
+        visitResources(xobject.get('Resources'), maxPixels);
+      } else if (subtype.isName() && subtype.asName() === 'Image') {
+        if (!replaced.has(num)) {
+          try {
+            replaced.set(num, compressImage(xobject, maxPixels));
+          } catch (e) {
+            console.warn(`Failed to compress image ${num}:`, e);
+            replaced.set(num, null);
+          }
+        }
+        const replacement = replaced.get(num);
+        if (replacement) replacements.push([String(name), replacement]);
+      }
+    });
+    replacements.forEach(([name, replacement]) => xobjects.put(name, replacement));
+  };
+
+  for (let i = 0; i < doc.countPages(); i++) {
+    const pageObj = doc.findPage(i);
+    const page = doc.loadPage(i);
+    const [x0, y0, x1, y1] = page.getBounds();
+    page.destroy();
+    // Images are assumed to cover at most the whole page
+    const maxPixels = Math.ceil(Math.max(x1 - x0, y1 - y0) / 72 * compression.dpi);
+    visitResources(pageObj.getInheritable('Resources'), maxPixels);
+  }
+
+  return Array.from(replaced.values()).filter(Boolean).length;
+}
+
+// Compresses images as the settings ask for and saves the document
+export function saveCompressed(doc: mupdf.PDFDocument, settings: CompressionSettings = DEFAULT_COMPRESSION): Uint8Array {
+  const imageCompression = getImageCompression(settings);
+  if (imageCompression) compressImages(doc, imageCompression);
+  // Copy out of the WebAssembly heap, the buffer is freed with the document
+  return doc.saveToBuffer(getSaveOptions(settings)).asUint8Array().slice();
+}
@@ -0,0 +1,168 @@
+// Copyright © 2025 Anton Medvedev
+// SPDX‑License‑Identifier: AGPL‑3.0
+
+import * as mupdf from "mupdf/mupdfjs"
+
+export type LinkDestination = ReturnType<mupdf.Document['resolveLinkDestination']>;
+
+// Resolves a link or bookmark URI of a source document to a page index and view.
+export type DestinationResolver = (uri: string) => LinkDestination | undefined;
+
+// Maps a page index of a source document to its index in the merged document.
+// Returns undefined when the page did not make it into the merged document.
+export type PageRemapper = (originalPageIndex: number) => number | undefined;
+
+// Catalog /Dests (PDF 1.1) and the /Names /Dests tree (PDF 1.2+) can both be present.
+// MuPDF only looks into one of them, so named destinations are looked up here.
+function loadNamedDestinations(doc: mupdf.PDFDocument): Map<string, mupdf.PDFObject> {
+  const namedDests = new Map<string, mupdf.PDFObject>();
+
+  const catalogDests = doc.getTrailer().get('Root').get('Dests');
+  if (catalogDests.isDictionary()) {
+    catalogDests.forEach((value, key) => namedDests.set(String(key), value));
+  }
+
+  try {
+    for (const [name, value] of Object.entries(doc.loadNameTree('Dests'))) {
+      namedDests.set(name, value);
+    }
+  } catch (e) {
+    console.warn('Failed to read named destinations tree:', e);
+  }
+
+  return namedDests;
+}
+
+function numberOrNaN(obj: mupdf.PDFObject): number {
+  return obj.isNumber() ? obj.asNumber() : NaN;
+}
+
+// Converts an explicit destination array ([page /XYZ left top zoom], [page /Fit], ...)
+// into the LinkDestination MuPDF uses for URIs, with coordinates in page space.
+function destinationFromArray(
+  doc: mupdf.PDFDocument,
+  array: mupdf.PDFObject,
+  findPageIndex: (pageObj: mupdf.PDFObject) => number
+): LinkDestination | undefined {
+  const page = findPageIndex(array.get(0));
+  if (page < 0) return undefined;
+
+  const type = (array.get(1).isName() ? array.get(1).asName() : 'Fit') as LinkDestination['type'];
+  const dest: LinkDestination = { type, chapter: 0, page, x: NaN, y: NaN, width: NaN, height: NaN, zoom: NaN };
+
+  // Destination parameters are in PDF user space, URIs use the page space MuPDF renders in
+  const pdfPage = doc.loadPage(page);
+  const [a, b, c, d, e, f] = pdfPage.getTransform();
+  pdfPage.destroy();
+  const toX = (x: number, y: number) => a * x + c * y + e;
+  const toY = (x: number, y: number) => b * x + d * y + f;
+
+  switch (type) {
+    case 'XYZ': {
+      const left = numberOrNaN(array.get(2));
+      const top = numberOrNaN(array.get(3));
+      dest.x = isNaN(left) ? NaN : toX(left, isNaN(top) ? 0 : top);
+      dest.y = isNaN(top) ? NaN : toY(isNaN(left) ? 0 : left, top);
+      const zoom = numberOrNaN(array.get(4));
+      dest.zoom = zoom > 0 ? zoom * 100 : NaN;
+      break;
+    }
+    case 'FitH':
+    case 'FitBH': {
+      const top = numberOrNaN(array.get(2));
+      dest.y = isNaN(top) ? NaN : toY(0, top);
+      break;
+    }
+    case 'FitV':
+    case 'FitBV': {
+      const left = numberOrNaN(array.get(2));
+      dest.x = isNaN(left) ? NaN : toX(left, 0);
+      break;
+    }
+    case 'FitR': {
+      const x0 = toX(numberOrNaN(array.get(2)), numberOrNaN(array.get(3)));
+      const y0 = toY(numberOrNaN(array.get(2)), numberOrNaN(array.get(3)));
+      const x1 = toX(numberOrNaN(array.get(4)), numberOrNaN(array.get(5)));
+      const y1 = toY(numberOrNaN(array.get(4)), numberOrNaN(array.get(5)));
+      dest.x = Math.min(x0, x1);
+      dest.y = Math.min(y0, y1);
+      dest.width = Math.abs(x1 - x0);
+      dest.height = Math.abs(y1 - y0);
+      break;
+    }
+  }
+
+  return dest;
+}
+
+// Creates a resolver for the internal destinations of a source document:
+// explicit page destinations, GoTo actions and named destinations.
+export function createDestinationResolver(doc: mupdf.PDFDocument): DestinationResolver {
+  let namedDests: Map<string, mupdf.PDFObject> | undefined;
+  let pageIndexes: Map<number, number> | undefined;
+
+  const findPageIndex = (pageObj: mupdf.PDFObject) => {
+    // Remote destinations address pages by number instead of reference
+    if (pageObj.isInteger()) return pageObj.asNumber();
+    if (!pageObj.isIndirect()) return -1;
+    if (!pageIndexes) {
+      pageIndexes = new Map();
+      for (let i = 0; i < doc.countPages(); i++) {
+        pageIndexes.set(doc.findPage(i).asIndirect(), i);
+      }
+    }
+    return pageIndexes.get(pageObj.asIndirect()) ?? -1;
+  };
+
+  return (uri: string) => {
+    try {
+      const dest = doc.resolveLinkDestination(uri);
+      if (dest.page >= 0) return dest;
+    } catch (e) {
+      console.warn(`Failed to resolve destination: ${uri}`, e);
+    }
+
+    const nameMatch = uri.match(/#nameddest=([^&]*)/);
+    if (!nameMatch) return undefined;
+
+    namedDests ??= loadNamedDestinations(doc);
+    let target = namedDests.get(decodeURIComponent(nameMatch[1]))?.resolve();
+    // Named destinations may be wrapped in a dictionary with the array under /D
+    if (target?.isDictionary()) target = target.get('D').resolve();
+    if (!target?.isArray()) return undefined;
+
+    return destinationFromArray(doc, target, findPageIndex);
+  };
+}
+
+// Rewrites a resolved source destination as a URI pointing into the merged document,
+// keeping the view parameters (XYZ, Fit, FitH, ...) of the original destination.
+export function remapDestinationURI(
+  mergedDoc: mupdf.PDFDocument,
+  dest: LinkDestination,
+  remapPage: PageRemapper
+): string | undefined {
+  const newPageIndex = remapPage(dest.page);
+  if (newPageIndex === undefined) return undefined;
+
+  return mergedDoc.formatLinkURI({ ...dest, page: newPageIndex });
+}
+
+// Splits a remote (GoToR) link URI such as "file:appendix.pdf#page=2" into the target
+// file name and the destination inside that file, defaulting to its first page.
+export function parseRemoteLink(uri: string): { fileName: string; fragment: string } | undefined {
+  const match = uri.match(/^file:(?:\/\/)?([^#]*)(#.*)?$/);
+  if (!match) return undefined;
+
+  let path = match[1];
+  try {
+    path = decodeURIComponent(path);
+  } catch {
+    // Keep the raw path when it is not valid percent-encoding
+  }
+
+  const fileName = path.split(/[\\/]/).pop();
+  if (!fileName) return undefined;
+
+  return { fileName, fragment: match[2] ?? '#page=1' };
+}
@@ -0,0 +1,203 @@
+// Copyright © 2025 Anton Medvedev
+// SPDX‑License‑Identifier: AGPL‑3.0
+
+import * as mupdf from "mupdf/mupdfjs"
+import { unzipSync } from "fflate"
+
+// Size of the pages images are placed on: the image size at its resolution,
+// or fitted into a paper size in the orientation of the image
+export type ImagePageSize = 'native' | PaperSize;
+
+export type PaperSize = 'a4' | 'letter';
+
+type ImageType = 'jpeg' | 'png' | 'tiff' | 'webp';
+
+// Portrait width and height in points
+export const PAPER_SIZES: Record<PaperSize, [number, number]> = {
+  a4: [595, 842],
+  letter: [612, 792],
+};
+
+// Page images inside comic book archives
+const COMIC_PAGE_NAME = /\.(jpe?g|png|tiff?|webp)$/i;
+
+// TIFF files list their pages in a chain, a limit keeps broken files from looping
+const MAX_TIFF_PAGES = 10000;
+
+function startsWith(data: Uint8Array, bytes: number[], offset = 0): boolean {
+  return bytes.every((byte, i) => data[offset + i] === byte);
+}
+
+export function detectImageType(data: Uint8Array): ImageType | undefined {
+  if (startsWith(data, [0xff, 0xd8, 0xff])) return 'jpeg';
+  if (startsWith(data, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'png';
+  if (startsWith(data, [0x49, 0x49, 0x2a, 0x00]) || startsWith(data, [0x4d, 0x4d, 0x00, 0x2a])) return 'tiff';
+  // "RIFF" <size> "WEBP"
+  if (startsWith(data, [0x52, 0x49, 0x46, 0x46]) && startsWith(data, [0x57, 0x45, 0x42, 0x50], 8)) return 'webp';
+  return undefined;
+}
+
+// Reads the EXIF orientation (1-8) of a JPEG, 1 when it has none.
+// Phones store photos as the sensor saw them and only record how to turn them.
+export function getJpegOrientation(data: Uint8Array): number {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  let offset = 2;
+  while (offset + 4 <= data.length && data[offset] === 0xff) {
+    const marker = data[offset + 1];
+    const length = view.getUint16(offset + 2);
+    // Start of scan, the metadata segments are all before it
+    if (marker === 0xda) break;
+    if (marker === 0xe1 && startsWith(data, [0x45, 0x78, 0x69, 0x66, 0, 0], offset + 4)) {
+      const tiff = offset + 10;
+      const little = data[tiff] === 0x49;
+      const ifd = tiff + view.getUint32(tiff + 4, little);
+      if (ifd + 2 > data.length) return 1;
+      const count = view.getUint16(ifd, little);
+      for (let i = 0; i < count; i++) {
+        const entry = ifd + 2 + i * 12;
+        if (entry + 12 > data.length) break;
+        if (view.getUint16(entry, little) === 0x0112) {
+          const orientation = view.getUint16(entry + 8, little);
+          return orientation >= 1 && orientation <= 8 ? orientation : 1;
+        }
+      }
+      return 1;
+    }
+    offset += 2 + length;
+  }
+  return 1;
+}
+
+// Splits a multi-page TIFF into single-page files. Offsets in a TIFF are absolute,
+// so each page is a copy of the file that starts at its directory and ends there.
+export function* splitTiffPages(data: Uint8Array): Generator<Uint8Array> {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const little = data[0] === 0x49;
+  const seen = new Set<number>();
+  let ifd = view.getUint32(4, little);
+  while (ifd !== 0 && ifd + 2 <= data.length && !seen.has(ifd) && seen.size < MAX_TIFF_PAGES) {
+    seen.add(ifd);
+    const nextPointer = ifd + 2 + view.getUint16(ifd, little) * 12;
+    if (nextPointer + 4 > data.length) break;
+
+    const page = data.slice();
+    const pageView = new DataView(page.buffer);
+    pageView.setUint32(4, ifd, little);
+    pageView.setUint32(nextPointer, 0, little);
+    yield page;
+
+    ifd = view.getUint32(nextPointer, little);
+  }
+}
+
+// MuPDF has no WebP decoder, the browser decodes it to PNG instead
+async function decodeWebP(data: Uint8Array): Promise<Uint8Array> {
+  if (typeof OffscreenCanvas === 'undefined' || typeof createImageBitmap === 'undefined') {
+    throw new Error('WebP images are not supported in this environment');
+  }
+  const bitmap = await createImageBitmap(new Blob([data], { type: 'image/webp' }));
+  try {
+    const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+    canvas.getContext('2d')!.drawImage(bitmap, 0, 0);
+    const png = await canvas.convertToBlob({ type: 'image/png' });
+    return new Uint8Array(await png.arrayBuffer());
+  } finally {
+    bitmap.close();
+  }
+}
+
+// Maps the unit square of the image to the unit square of the page for each
+// EXIF orientation, so the image shows upright
+const ORIENTATION_MATRICES: Record<number, mupdf.Matrix> = {
+  1: [1, 0, 0, 1, 0, 0],
+  2: [-1, 0, 0, 1, 1, 0],
+  3: [-1, 0, 0, -1, 1, 1],
+  4: [1, 0, 0, -1, 0, 1],
+  5: [0, -1, -1, 0, 1, 1],
+  6: [0, -1, 1, 0, 0, 1],
+  7: [0, 1, 1, 0, 0, 0],
+  8: [0, 1, -1, 0, 1, 0],
+};
+
+function addImagePage(doc: mupdf.PDFDocument, image: mupdf.Image, orientation: number, pageSize: ImagePageSize) {
+  // Size in points at the image resolution, upright
+  const turned = orientation >= 5;
+  const width = image.getWidth() * 72 / (image.getXResolution() || 96);
+  const height = image.getHeight() * 72 / (image.getYResolution() || 96);
+  const [imageWidth, imageHeight] = turned ? [height, width] : [width, height];
+
+  let pageWidth = imageWidth;
+  let pageHeight = imageHeight;
+  let scale = 1;
+  if (pageSize !== 'native') {
+    const [short, long] = PAPER_SIZES[pageSize];
+    [pageWidth, pageHeight] = imageWidth > imageHeight ? [long, short] : [short, long];
+    scale = Math.min(pageWidth / imageWidth, pageHeight / imageHeight);
+  }
+
+  const w = imageWidth * scale;
+  const h = imageHeight * scale;
+  const x = (pageWidth - w) / 2;
+  const y = (pageHeight - h) / 2;
+  const [a, b, c, d, e, f] = ORIENTATION_MATRICES[orientation] ?? ORIENTATION_MATRICES[1];
+  const matrix = [a * w, b * h, c * w, d * h, e * w + x, f * h + y].map(n => +n.toFixed(4));
+
+  const resources = { XObject: { Im0: doc.addImage(image) } };
+  const contents = `q ${matrix.join(' ')} cm /Im0 Do Q`;
+  doc.insertPage(-1, doc.addPage([0, 0, pageWidth, pageHeight], 0, resources, contents));
+}
+
+// Adds the pages of an image file: one, or one per page of a TIFF
+async function addImageFile(doc: mupdf.PDFDocument, data: Uint8Array, type: ImageType, pageSize: ImagePageSize) {
+  if (type === 'webp') data = await decodeWebP(data);
+  const orientation = type === 'jpeg' ? getJpegOrientation(data) : 1;
+  const pages = type === 'tiff' ? splitTiffPages(data) : [data];
+
+  for (const page of pages) {
+    const image = new mupdf.Image(page);
+    try {
+      addImagePage(doc, image, orientation, pageSize);
+    } finally {
+      image.destroy();
+    }
+  }
+}
+
+// Builds a document from image files, in the given order
+async function createImageDocument(images: Uint8Array[], pageSize: ImagePageSize): Promise<mupdf.PDFDocument> {
+  const doc = new mupdf.PDFDocument();
+  try {
+    for (const data of images) {
+      const type = detectImageType(data);
+      if (type) await addImageFile(doc, data, type, pageSize);
+    }
+    if (doc.countPages() === 0) throw new Error('The image has no pages');
+    return doc;
+  } catch (e) {
+    doc.destroy();
+    throw e;
+  }
+}
+
+// Turns an image file into a document with one page per image,
+// or returns undefined when the data is not a supported image.
+export async function openImageDocument(buffer: ArrayBuffer, pageSize: ImagePageSize): Promise<mupdf.PDFDocument | undefined> {
+  const data = new Uint8Array(buffer);
+  if (!detectImageType(data)) return undefined;
+  return createImageDocument([data], pageSize);
+}
+
+// Comic book archives (CBZ) are ZIP files with an image per page, ordered by name.
+// Returns undefined for other data, including ZIP based formats without images.
+export async function openComicBook(buffer: ArrayBuffer, pageSize: ImagePageSize): Promise<mupdf.PDFDocument | undefined> {
+  const data = new Uint8Array(buffer);
+  if (!startsWith(data, [0x50, 0x4b, 0x03, 0x04])) return undefined;
+
+  const files = unzipSync(data, {
+    filter: file => COMIC_PAGE_NAME.test(file.name) && !file.name.startsWith('__MACOSX/'),
+  });
+  const names = Object.keys(files).sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+  if (names.length === 0) return undefined;
+
+  return createImageDocument(names.map(name => files[name]), pageSize);
+}
@@ -0,0 +1,64 @@
+// Copyright © 2025 Anton Medvedev
+// SPDX‑License‑Identifier: AGPL‑3.0
+
+// How the pages of the merged documents are put in order. Documents are referred
+// to by their 0-based index; documents a strategy does not name follow in order.
+export type MergeStrategy =
+  // One document after another
+  | { type: 'concatenate' }
+  // Alternating pages of two documents, like the fronts and backs of a duplex scan,
+  // which come out of the scanner in reverse order
+  | { type: 'interleave'; first: number; second: number; reverseSecond: boolean }
+  // Every page in reverse order
+  | { type: 'reverse' }
+  // A document inserted into another, after the given number of its pages
+  | { type: 'insert'; target: number; inserted: number; afterPage: number };
+
+function checkDocument(documentCount: number, docIndex: number) {
+  if (!Number.isInteger(docIndex) || docIndex < 0 || docIndex >= documentCount) {
+    throw new Error(`There is no file number ${docIndex + 1} to merge`);
+  }
+}
+
+// Orders the pages of each document into one list. Pages are anything, usually
+// references to pages in the order they are taken from each document.
+export function arrangePages<T>(documents: T[][], strategy: MergeStrategy = { type: 'concatenate' }): T[] {
+  const others = (...named: number[]) => documents.filter((_, docIndex) => !named.includes(docIndex)).flat();
+
+  switch (strategy.type) {
+    case 'concatenate':
+      return documents.flat();
+    case 'reverse':
+      return documents.flat().reverse();
+    case 'interleave': {
+      const { first, second } = strategy;
+      checkDocument(documents.length, first);
+      checkDocument(documents.length, second);
+      if (first === second) throw new Error('Interleaving needs two different files');
+
+      const a = documents[first];
+      const b = strategy.reverseSecond ? [...documents[second]].reverse() : documents[second];
+      const pages: T[] = [];
+      // Pages left over in the longer document follow at the end
+      for (let i = 0; i < Math.max(a.length, b.length); i++) {
+        if (i < a.length) pages.push(a[i]);
+        if (i < b.length) pages.push(b[i]);
+      }
+      return [...pages, ...others(first, second)];
+    }
+    case 'insert': {
+      const { target, inserted } = strategy;
+      checkDocument(documents.length, target);
+      checkDocument(documents.length, inserted);
+      if (target === inserted) throw new Error('A file cannot be inserted into itself');
+
+      const at = Math.min(Math.max(Math.floor(strategy.afterPage), 0), documents[target].length);
+      return [
+        ...documents[target].slice(0, at),
+        ...documents[inserted],
+        ...documents[target].slice(at),
+        ...others(target, inserted),
+      ];
+    }
+  }
+}
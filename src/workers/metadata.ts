@@ -0,0 +1,181 @@
+// Copyright © 2025 Anton Medvedev
+// SPDX‑License‑Identifier: AGPL‑3.0
+
+import * as mupdf from "mupdf/mupdfjs"
+
+// Document properties shown by PDF viewers. Dates are ISO 8601 strings, empty
+// text and missing dates leave the property out.
+export interface DocumentMetadata {
+  title: string;
+  author: string;
+  subject: string;
+  keywords: string;
+  // Application the original document was created with
+  creator: string;
+  creationDate?: string;
+  modificationDate?: string;
+}
+
+type TextProperty = 'title' | 'author' | 'subject' | 'keywords' | 'creator';
+
+const INFO_KEYS: Record<TextProperty, string> = {
+  title: 'Title',
+  author: 'Author',
+  subject: 'Subject',
+  keywords: 'Keywords',
+  creator: 'Creator',
+};
+
+// Fields of the Info dictionary and the XMP properties they match
+const XMP_PROPERTIES: Record<TextProperty, string> = {
+  title: 'dc:title',
+  author: 'dc:creator',
+  subject: 'dc:description',
+  keywords: 'pdf:Keywords',
+  creator: 'xmp:CreatorTool',
+};
+
+const XML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+function unescapeXML(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, name: string) => {
+    if (name[0] !== '#') return XML_ENTITIES[name] ?? entity;
+    const code = name[1] === 'x' || name[1] === 'X' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+    // Beyond the last code point the reference is kept as written
+    return code <= 0x10FFFF ? String.fromCodePoint(code) : entity;
+  });
+}
+
+function escapeXML(text: string): string {
+  return text.replace(/[&<>"]/g, char => `&${Object.keys(XML_ENTITIES).find(name => XML_ENTITIES[name] === char)};`);
+}
+
+// Value of an XMP property, written as an element or as an attribute. Lists
+// (rdf:Alt, rdf:Seq, rdf:Bag) give their items joined by commas.
+function getXMPProperty(xml: string, name: string): string | undefined {
+  const attribute = xml.match(new RegExp(`\\s${name}="([^"]*)"`));
+  if (attribute) return unescapeXML(attribute[1]).trim() || undefined;
+
+  const element = xml.match(new RegExp(`<${name}(?:\\s[^>]*)?>([\\s\\S]*?)</${name}>`));
+  if (!element) return undefined;
+  const items = Array.from(element[1].matchAll(/<rdf:li(?:\s[^>]*)?>([\s\S]*?)<\/rdf:li>/g), match => match[1]);
+  const text = items.length > 0 ? items.join(', ') : element[1];
+  return unescapeXML(text).trim() || undefined;
+}
+
+function readXMP(doc: mupdf.PDFDocument): string {
+  const metadata = doc.getTrailer().get('Root').get('Metadata');
+  if (!metadata.isStream()) return '';
+  try {
+    return metadata.readStream().asString();
+  } catch (e) {
+    console.warn('Failed to read XMP metadata:', e);
+    return '';
+  }
+}
+
+// Converts a PDF date ("D:20250102030405+01'00'") to ISO 8601
+function parsePDFDate(date: string): string | undefined {
+  const match = date.match(/^(?:D:)?(\d{4})(\d{2})?(\d{2})?(\d{2})?(\d{2})?(\d{2})?(?:([Zz+-])(\d{2})?'?(\d{2})?'?)?/);
+  if (!match) return undefined;
+  const [, year, month = '01', day = '01', hour = '00', minute = '00', second = '00', sign, offsetHours = '00', offsetMinutes = '00'] = match;
+  const offset = sign === '+' || sign === '-' ? `${sign}${offsetHours}:${offsetMinutes}` : 'Z';
+  const parsed = new Date(`${year}-${month}-${day}T${hour}:${minute}:${second}${offset}`);
+  return isNaN(parsed.getTime()) ? undefined : parsed.toISOString();
+}
+
+// Converts an ISO 8601 date to a PDF date in UTC
+function formatPDFDate(date: string): string | undefined {
+  const parsed = new Date(date);
+  if (isNaN(parsed.getTime())) return undefined;
+  return `D:${parsed.toISOString().replace(/[-:T]|\.\d+/g, '').replace('Z', '')}Z`;
+}
+
+function normalizeDate(date: string | undefined): string | undefined {
+  if (!date) return undefined;
+  const parsed = new Date(date);
+  return isNaN(parsed.getTime()) ? undefined : parsed.toISOString();
+}
+
+// Reads the properties from the Info dictionary, and from the XMP metadata
+// for those the Info dictionary leaves out
+export function readMetadata(doc: mupdf.PDFDocument): DocumentMetadata {
+  const xmp = readXMP(doc);
+  const getText = (property: TextProperty) =>
+    doc.getMetaData(`info:${INFO_KEYS[property]}`)?.trim() || getXMPProperty(xmp, XMP_PROPERTIES[property]) || '';
+  const getDate = (infoKey: string, xmpProperty: string) => {
+    const infoDate = doc.getMetaData(`info:${infoKey}`);
+    return (infoDate && parsePDFDate(infoDate)) || normalizeDate(getXMPProperty(xmp, xmpProperty));
+  };
+
+  return {
+    title: getText('title'),
+    author: getText('author'),
+    subject: getText('subject'),
+    keywords: getText('keywords'),
+    creator: getText('creator'),
+    creationDate: getDate('CreationDate', 'xmp:CreateDate'),
+    modificationDate: getDate('ModDate', 'xmp:ModifyDate'),
+  };
+}
+
+function createXMP(metadata: DocumentMetadata): string {
+  const alt = (text: string) => `<rdf:Alt><rdf:li xml:lang="x-default">${escapeXML(text)}</rdf:li></rdf:Alt>`;
+  const properties = [
+    '<dc:format>application/pdf</dc:format>',
+    metadata.title && `<dc:title>${alt(metadata.title)}</dc:title>`,
+    metadata.author && `<dc:creator><rdf:Seq><rdf:li>${escapeXML(metadata.author)}</rdf:li></rdf:Seq></dc:creator>`,
+    metadata.subject && `<dc:description>${alt(metadata.subject)}</dc:description>`,
+    metadata.keywords && `<pdf:Keywords>${escapeXML(metadata.keywords)}</pdf:Keywords>`,
+    metadata.creator && `<xmp:CreatorTool>${escapeXML(metadata.creator)}</xmp:CreatorTool>`,
+    metadata.creationDate && `<xmp:CreateDate>${metadata.creationDate}</xmp:CreateDate>`,
+    metadata.modificationDate && `<xmp:ModifyDate>${metadata.modificationDate}</xmp:ModifyDate>`,
+  ].filter(Boolean);
+
+  return [
+    '<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>',
+    '<x:xmpmeta xmlns:x="adobe:ns:meta/">',
+    '<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">',
+    '<rdf:Description rdf:about="" xmlns:dc="http://purl.org/dc/elements/1.1/" ' +
+      'xmlns:pdf="http://ns.adobe.com/pdf/1.3/" xmlns:xmp="http://ns.adobe.com/xap/1.0/">',
+    ...properties,
+    '</rdf:Description>',
+    '</rdf:RDF>',
+    '</x:xmpmeta>',
+    '<?xpacket end="w"?>',
+  ].join('\n');
+}
+
+// Writes the properties to the Info dictionary and replaces the XMP metadata
+// with the same properties, so viewers reading either one agree
+export function writeMetadata(doc: mupdf.PDFDocument, metadata: DocumentMetadata) {
+  const values: DocumentMetadata = {
+    title: metadata.title.trim(),
+    author: metadata.author.trim(),
+    subject: metadata.subject.trim(),
+    keywords: metadata.keywords.trim(),
+    creator: metadata.creator.trim(),
+    creationDate: normalizeDate(metadata.creationDate),
+    modificationDate: normalizeDate(metadata.modificationDate),
+  };
+
+  const infoValues: Record<string, string | undefined> = {
+    CreationDate: values.creationDate && formatPDFDate(values.creationDate),
+    ModDate: values.modificationDate && formatPDFDate(values.modificationDate),
+  };
+  for (const property of Object.keys(INFO_KEYS) as TextProperty[]) {
+    infoValues[INFO_KEYS[property]] = values[property];
+  }
+  // MuPDF creates the Info dictionary when it is missing
+  for (const [key, value] of Object.entries(infoValues)) {
+    if (value) {
+      doc.setMetaData(`info:${key}`, value);
+    } else {
+      const info = doc.getTrailer().get('Info');
+      if (info.isDictionary()) info.delete(key);
+    }
+  }
+
+  // Text streams are written as UTF-8
+  doc.getTrailer().get('Root').put('Metadata', doc.addStream(createXMP(values), { Type: 'Metadata', Subtype: 'XML' }));
+}
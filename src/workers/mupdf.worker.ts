@@ -4,14 +4,58 @@
 /// <reference lib="webworker" />
 import * as Comlink from 'comlink'
 import * as mupdf from "mupdf/mupdfjs"
+import { appendDocumentOutline } from "./outline"
+import { ALL_PAGES_BLANK_ERROR, AllPagesBlankError, isBlankPage, type BlankPageSettings } from "./blank-pages"
+import { openComicBook, openImageDocument, type ImagePageSize } from "./images"
+import { openReflowableDocument, type ReflowSettings } from "./reflowable"
+import {
+  appendAcroForm,
+  findFieldNameCollisions,
+  getFieldNames,
+  getPageWidgets,
+  isWidget,
+  type FieldNameCollision,
+} from "./acroform"
+import {
+  createDestinationResolver,
+  parseRemoteLink,
+  remapDestinationURI,
+  type LinkDestination,
+} from "./destinations"
+import { getSaveOptions, saveCompressed, type CompressionSettings } from "./compression"
+import { getEncryptionOptions, type SecuritySettings } from "./security"
+import { arrangePages, type MergeStrategy } from "./merge-strategies"
+import { normalizePageSizes, PAGE_SIZE_ERROR, type PageSizeSettings } from "./page-sizes"
+import { readMetadata, writeMetadata, type DocumentMetadata } from "./metadata"
+import { sanitizeDocument, type SanitizeReport } from "./sanitize"
+import { appendEmbeddedFiles, listEmbeddedFiles, type EmbeddedFileInfo } from "./attachments"
+import { createPortfolio, type PortfolioFile } from "./portfolio"
+import { findSignatures, flattenSignatures, type SignatureInfo } from "./signatures"
+import { STAMP_ERROR, stampPages, type PageStamp, type StampPosition, type StampSource } from "./stamps"
+import { createSeparatorPage, type SeparatorMode } from "./separators"
+import { insertTableOfContents } from "./table-of-contents"
+import { WATERMARK_ERROR, watermarkPages, type Watermark, type WatermarkContent, type WatermarkPosition } from "./watermarks"
+import {
+  splitAtBookmarks,
+  splitBySize,
+  splitEveryNPages,
+  type SplitMode,
+  type SplitPlanPart,
+} from "./split"
 
 export const MUPDF_LOADED = 'MUPDF_LOADED'
-const OPEN_DOCUMENT_TIMEOUT = 10000; // 10 seconds timeout
-const COMPRESSION_OPTIONS = "compress-images,compression-effort=90,image_dpi=150,image_quality=70," +
-  "compress-fonts,garbage=2,color-lossy-image-subsample-dpi=150,"+
-  "color-lossy-image-recompress-method=jpeg,"+
-  "color-lossy-image-recompress-quality=70,";
+export const PASSWORD_REQUIRED_ERROR = 'PasswordRequiredError'
+
+// Thrown when an encrypted document is opened without its password, or with a wrong one.
+// Comlink only passes the name and message of errors on, so callers check the name.
+export class PasswordRequiredError extends Error {
+  constructor(message = 'The document is protected with a password') {
+    super(message);
+    this.name = PASSWORD_REQUIRED_ERROR;
+  }
+}
 
+const OPEN_DOCUMENT_TIMEOUT = 10000; // 10 seconds timeout
 function withTimeout<T>(promise: Promise<T>, timeoutMs: number): Promise<T> {
   return new Promise((resolve, reject) => {
     const timeoutId = setTimeout(() => {
@@ -30,6 +74,112 @@ function withTimeout<T>(promise: Promise<T>, timeoutMs: number): Promise<T> {
   });
 }
 
+// Makes a copy of a source annotation for another merged page. Everything the
+// annotation references (appearance streams, parent field) is grafted through
+// the document's graft map, so a widget copy stays a widget of the same field.
+function copyAnnotation(
+  mergedDoc: mupdf.PDFDocument,
+  graftMap: mupdf.PDFGraftMap,
+  annot: mupdf.PDFObject,
+  dstPageObj: mupdf.PDFObject
+): mupdf.PDFObject {
+  const copy = mergedDoc.addObject(mergedDoc.newDictionary());
+  annot.forEach((value, key) => {
+    // A popup belongs to a single annotation, viewers create a new one when needed
+    if (key === 'Popup') return;
+    copy.put(key, key === 'P' ? dstPageObj : graftMap.graftObject(value));
+  });
+  return copy;
+}
+
+export interface MergeOptions {
+  // Original file names, in the same order as the merged documents.
+  // Used to title the top-level bookmark of each document and to turn
+  // links to other merged files (GoToR) into internal links.
+  fileNames?: string[];
+  // Nest the form fields of a document under a "doc<N>" parent field when their
+  // names collide with fields of an earlier document, so copies don't share values.
+  renameCollidingFields?: boolean;
+  // Pages to take from each document, as 0-based page indexes in the order they
+  // should appear. A missing entry merges all pages of that document.
+  pages?: (number[] | undefined)[];
+  // How images and streams are compressed when saving, balanced by default
+  compression?: CompressionSettings;
+  // Clockwise rotation in degrees (a multiple of 90) for all pages of each document,
+  // in merge order, on top of the pages' own rotation
+  rotations?: (number | undefined)[];
+  // Leave out pages that render (nearly) white. Off unless set.
+  removeBlankPages?: BlankPageSettings;
+  // Pages that image and comic book inputs are placed on, fitted to A4 by default
+  imagePageSize?: ImagePageSize;
+  // Page size and font size that FictionBook and text inputs are laid out with
+  reflow?: ReflowSettings;
+  // Headers, footers or Bates numbers stamped onto every merged page
+  stamps?: PageStamp[];
+  // Text or image drawn onto every merged page, below the stamps
+  watermark?: Watermark;
+  // Start with pages listing every merged file and the page it starts on
+  tableOfContents?: boolean;
+  // Pages put between merged files, none unless set. They go wherever the pages
+  // of another file begin, which is on every page when interleaving.
+  separators?: SeparatorMode;
+  // How the pages of the documents are put in order, one document after another by default
+  strategy?: MergeStrategy;
+  // Paper every page is scaled onto, pages keep their own size unless set
+  pageSize?: PageSizeSettings;
+  // Draw signatures into the pages and drop the signature fields, which are no
+  // longer valid once merged. They are kept as fields unless set.
+  flattenSignatures?: boolean;
+}
+
+// Options of a page list, splitting a document into parts sets those beyond the merge options
+interface PageListOptions extends MergeOptions {
+  // Keep the document's bookmarks at top level instead of under a bookmark named after it
+  topLevelOutline?: boolean;
+}
+
+// How a document is opened: the password of an encrypted PDF, and how
+// inputs in other formats are turned into pages
+type OpenOptions = Pick<MergeOptions, 'imagePageSize' | 'reflow'> & { password?: string };
+
+// A page to merge: the page at pageIndex of the document at docIndex,
+// turned clockwise by rotation degrees (a multiple of 90) on top of its own rotation.
+export interface PageRef {
+  docIndex: number;
+  pageIndex: number;
+  rotation?: number;
+}
+
+export interface SplitPart extends SplitPlanPart {
+  data: ArrayBuffer;
+}
+
+export type {
+  BlankPageSettings,
+  CompressionSettings,
+  DocumentMetadata,
+  EmbeddedFileInfo,
+  FieldNameCollision,
+  ImagePageSize,
+  MergeStrategy,
+  PageSizeSettings,
+  PageStamp,
+  PortfolioFile,
+  ReflowSettings,
+  SanitizeReport,
+  SecuritySettings,
+  SeparatorMode,
+  SignatureInfo,
+  SplitMode,
+  StampPosition,
+  Watermark,
+  WatermarkContent,
+  WatermarkPosition,
+};
+
+// Names of the errors thrown for merge settings that cannot be applied
+export { ALL_PAGES_BLANK_ERROR, PAGE_SIZE_ERROR, STAMP_ERROR, WATERMARK_ERROR };
+
 export class MupdfWorker {
 
   constructor() {
@@ -43,18 +193,162 @@ export class MupdfWorker {
       }
   }
 
-  private async openDocumentWithTimeout(buffer: ArrayBuffer): Promise<mupdf.PDFDocument> {
-    return withTimeout(
+  // Opens a PDF. Images (JPEG, PNG, TIFF, WebP) and comic books become a page per image,
+  // FictionBook and text files are laid out on pages.
+  private async openDocumentWithTimeout(buffer: ArrayBuffer, options: OpenOptions = {}): Promise<mupdf.PDFDocument> {
+    const { password, imagePageSize = 'a4', reflow } = options;
+    const converted = await openImageDocument(buffer, imagePageSize)
+      ?? await openComicBook(buffer, imagePageSize)
+      ?? openReflowableDocument(buffer, reflow);
+    if (converted) return converted;
+
+    const doc = await withTimeout(
       Promise.resolve(mupdf.PDFDocument.openDocument(buffer, 'application/pdf')),
       OPEN_DOCUMENT_TIMEOUT
     );
+    // Without authentication MuPDF reads encrypted streams as garbage instead of failing
+    if (doc.needsPassword() && (password === undefined || !doc.authenticatePassword(password))) {
+      doc.destroy();
+      throw new PasswordRequiredError(password === undefined ? undefined : 'Incorrect password');
+    }
+    return doc;
+  }
+
+  // Opens an encrypted document with its user or owner password and returns it
+  // decrypted, to be used in place of the original from then on.
+  async unlockDocument(pdfBuffer: ArrayBuffer, password: string): Promise<ArrayBuffer> {
+    const doc = await this.openDocumentWithTimeout(pdfBuffer, { password });
+    try {
+      return doc.saveToBuffer('decrypt').asUint8Array().slice();
+    } finally {
+      doc.destroy();
+    }
+  }
+
+  // Encrypts a finished document with passwords and permission restrictions.
+  // Streams are already compressed, they are kept as they are.
+  async protectDocument(pdfBuffer: ArrayBuffer, security: SecuritySettings): Promise<ArrayBuffer> {
+    const options = `${getSaveOptions({ preset: 'lossless' })},${getEncryptionOptions(security)}`;
+    const doc = await this.openDocumentWithTimeout(pdfBuffer);
+    try {
+      return doc.saveToBuffer(options).asUint8Array().slice();
+    } finally {
+      doc.destroy();
+    }
+  }
+
+  // Reads the title, author and other properties of a document, to start editing
+  // those of the merged document from
+  async readDocumentMetadata(pdfBuffer: ArrayBuffer): Promise<DocumentMetadata> {
+    const doc = await this.openDocumentWithTimeout(pdfBuffer);
+    try {
+      return readMetadata(doc);
+    } finally {
+      doc.destroy();
+    }
+  }
+
+  // Sets the properties of a finished document, keeping its streams as they are
+  async setDocumentMetadata(pdfBuffer: ArrayBuffer, metadata: DocumentMetadata): Promise<ArrayBuffer> {
+    const doc = await this.openDocumentWithTimeout(pdfBuffer);
+    try {
+      writeMetadata(doc, metadata);
+      return doc.saveToBuffer(getSaveOptions({ preset: 'lossless' })).asUint8Array().slice();
+    } finally {
+      doc.destroy();
+    }
+  }
+
+  // Removes metadata, scripts, embedded files, thumbnails and private application data
+  // from a finished document, and reports how much of each there was
+  async sanitizeDocument(pdfBuffer: ArrayBuffer): Promise<{ pdf: ArrayBuffer; report: SanitizeReport }> {
+    const doc = await this.openDocumentWithTimeout(pdfBuffer);
+    try {
+      const report = sanitizeDocument(doc);
+      // Garbage collection drops the objects nothing refers to anymore
+      return { pdf: doc.saveToBuffer(getSaveOptions({ preset: 'lossless' })).asUint8Array().slice(), report };
+    } finally {
+      doc.destroy();
+    }
   }
 
-  async mergeDocuments(documents: ArrayBuffer[]): Promise<ArrayBuffer> {
+  // Lists the files embedded in a finished document
+  async listEmbeddedFiles(pdfBuffer: ArrayBuffer): Promise<EmbeddedFileInfo[]> {
+    const doc = await this.openDocumentWithTimeout(pdfBuffer);
+    try {
+      return listEmbeddedFiles(doc);
+    } finally {
+      doc.destroy();
+    }
+  }
+
+  async mergeDocuments(documents: ArrayBuffer[], options: MergeOptions = {}): Promise<ArrayBuffer> {
     if (documents.length === 0) throw new Error('No documents to merge');
 
+    const sources: mupdf.PDFDocument[] = [];
+    try {
+      const pagesPerDocument: PageRef[][] = [];
+      for (let docIndex = 0; docIndex < documents.length; docIndex++) {
+        const src = await this.openDocumentWithTimeout(documents[docIndex], options);
+        sources.push(src);
+        const pageIndexes = options.pages?.[docIndex] ?? Array.from({ length: src.countPages() }, (_, i) => i);
+        const rotation = options.rotations?.[docIndex];
+        pagesPerDocument.push(pageIndexes.map(pageIndex => ({ docIndex, pageIndex, rotation })));
+      }
+      return await this.mergePageList(sources, arrangePages(pagesPerDocument, options.strategy), options);
+    } finally {
+      sources.forEach(src => src.destroy());
+    }
+  }
+
+  // Finds the digital signatures of a document, which merging invalidates
+  async findSignatures(pdfBuffer: ArrayBuffer): Promise<SignatureInfo> {
+    const doc = await this.openDocumentWithTimeout(pdfBuffer);
+    try {
+      return findSignatures(doc);
+    } finally {
+      doc.destroy();
+    }
+  }
+
+  // Bundles the files unchanged into a portfolio instead of merging their pages,
+  // for when the originals have to stay intact, signatures included
+  async createPortfolio(files: PortfolioFile[]): Promise<ArrayBuffer> {
+    const doc = createPortfolio(files);
+    try {
+      // Embedded files are compressed without loss, they come out byte for byte
+      return doc.saveToBuffer(getSaveOptions({ preset: 'lossless' })).asUint8Array().slice();
+    } finally {
+      doc.destroy();
+    }
+  }
+
+  // Merges an explicit list of pages, taken from any of the documents in any order.
+  // The same page may be listed more than once.
+  async mergePages(documents: ArrayBuffer[], pages: PageRef[], options: Omit<MergeOptions, 'pages' | 'rotations' | 'strategy'> = {}): Promise<ArrayBuffer> {
+    if (documents.length === 0) throw new Error('No documents to merge');
+    if (pages.length === 0) throw new Error('No pages to merge');
+
+    const sources: mupdf.PDFDocument[] = [];
+    try {
+      for (const buf of documents) {
+        sources.push(await this.openDocumentWithTimeout(buf, options));
+      }
+      return await this.mergePageList(sources, pages, options);
+    } finally {
+      sources.forEach(src => src.destroy());
+    }
+  }
+
+  private async mergePageList(sources: mupdf.PDFDocument[], pages: PageRef[], options: PageListOptions): Promise<ArrayBuffer> {
+    if (options.removeBlankPages) {
+      pages = this.withoutBlankPages(sources, pages, options.removeBlankPages);
+    }
+
     // Use hybrid approach to avoid page tree corruption while preserving links
     const mergedDoc = mupdf.PDFDocument.createBlankDocument();
+    // The blank document comes with an empty page, removed once the merged pages are in
+    const placeholderPage = mergedDoc.findPage(0);
     
     // Track page mappings for internal link remapping
     interface PageMapping {
@@ -69,113 +363,261 @@ export class MupdfWorker {
       newPageIndex: number;
       bounds: number[];
       originalURI: string;
-      originalPageRef: number;
+      targetDocIndex: number;
+      destination: LinkDestination;
     }
     const internalLinks: InternalLink[] = [];
     
+    // Links to other files being merged are resolved once every page is grafted
+    interface RemoteLink {
+      newPageIndex: number;
+      bounds: number[];
+      originalURI: string;
+      targetDocIndex: number;
+      targetURI: string;
+    }
+    const remoteLinks: RemoteLink[] = [];
+    
+    const getDocumentTitle = (docIndex: number) => options.fileNames?.[docIndex] ?? `Document ${docIndex + 1}`;
+    const findDocumentByFileName = (fileName: string) => (options.fileNames ?? []).findIndex(
+      name => name.toLowerCase() === fileName.toLowerCase()
+    );
+    
+    // Per-document state, created when the first page of a document is grafted
+    interface MergedSource {
+      docIndex: number;
+      // One graft map per document keeps objects shared between pages, widgets
+      // and form fields from being copied more than once
+      graftMap: mupdf.PDFGraftMap;
+      // Widgets grafted onto merged pages, their fields make up the merged form
+      widgets: mupdf.PDFObject[];
+      // Copies of widgets on pages that are merged more than once
+      widgetCopies: mupdf.PDFObject[];
+      // Source pages grafted so far, to tell repeated pages apart
+      grafted: Set<number>;
+    }
+    const mergedSources = new Map<number, MergedSource>();
+    
+    const resolvers = sources.map(src => createDestinationResolver(src));
+    const getFirstPageIndex = (docIndex: number) => Math.min(
+      ...pageMappings.filter(m => m.docIndex === docIndex).map(m => m.newPageIndex)
+    );
+    const remapPage = (docIndex: number) => (originalPageIndex: number) => pageMappings.find(mapping =>
+      mapping.docIndex === docIndex && mapping.originalPageIndex === originalPageIndex
+    )?.newPageIndex;
+    
+    // Source of every grafted page in merge order, for the stamps
+    const stampSources: StampSource[] = [];
+    
+    // Rotation is applied after every link is in place, links are inserted in unrotated page space
+    const rotations: { newPageIndex: number; rotation: number }[] = [];
+    
+    // Fully qualified form field names of the documents merged so far
+    const mergedFieldNames = new Set<string>();
+    
+    // Bookmarks of every source document are nested under one top-level bookmark per file
+    const outline = mergedDoc.outlineIterator();
+    
+    // Adds a separator page the size of the last merged page, as the back of its sheet
+    const addSeparatorPage = (title?: string) => {
+      const lastPage = mergedDoc.loadPage(mergedDoc.countPages() - 1);
+      const [x0, y0, x1, y1] = lastPage.getBounds();
+      lastPage.destroy();
+      mergedDoc.insertPage(-1, createSeparatorPage(mergedDoc, [x1 - x0, y1 - y0], title));
+      stampSources.push({ fileName: '', pageIndex: 0 });
+    };
+    
     try {
-      for (let docIndex = 0; docIndex < documents.length; docIndex++) {
-        const buf = documents[docIndex];
-        const src = await this.openDocumentWithTimeout(buf);
-        const pageCount = src.countPages();
+      let previousDocIndex: number | undefined;
+      for (const { docIndex, pageIndex: i, rotation } of pages) {
+        const src = sources[docIndex];
+        if (!src || !Number.isInteger(i) || i < 0 || i >= src.countPages()) {
+          console.warn(`Skipping page ${i} of document ${docIndex}: no such page`);
+          continue;
+        }
         
-        for (let i = 0; i < pageCount; i++) {
-          // Graft the page content (preserves page dimensions and content)
-          mergedDoc.graftPage(-1, src, i);
-          
-          // Get the destination page (last added page)
-          const dstPageIndex = mergedDoc.countPages() - 1;
-          
-          // Record page mapping for internal link remapping
+        if (options.separators && previousDocIndex !== undefined && docIndex !== previousDocIndex) {
+          // The placeholder page is not counted
+          const isOddPageCount = (mergedDoc.countPages() - 1) % 2 === 1;
+          if (options.separators === 'title') addSeparatorPage(getDocumentTitle(docIndex));
+          else if (options.separators === 'blank' || isOddPageCount) addSeparatorPage();
+        }
+        previousDocIndex = docIndex;
+        
+        let source = mergedSources.get(docIndex);
+        if (!source) {
+          source = { docIndex, graftMap: mergedDoc.newGraftMap(), widgets: [], widgetCopies: [], grafted: new Set() };
+          mergedSources.set(docIndex, source);
+        }
+        const { graftMap } = source;
+        const isRepeated = source.grafted.has(i);
+        source.grafted.add(i);
+        
+        // Graft the page content (preserves page dimensions and content)
+        graftMap.graftPage(-1, src, i);
+        
+        // Get the destination page (last added page)
+        const dstPageIndex = mergedDoc.countPages() - 1;
+        
+        // Record page mapping for internal link remapping. Links to a repeated page go to its first copy.
+        if (!isRepeated) {
           pageMappings.push({
             docIndex,
             originalPageIndex: i,
             newPageIndex: dstPageIndex
           });
-          
-          const srcPage = src.loadPage(i);
-          const dstPage = mergedDoc.loadPage(dstPageIndex);
-          
-          // Process links: copy external links immediately, collect internal links for later
-          try {
-            const links = srcPage.getLinks();
-            for (const link of links) {
-              if (link.isExternal()) {
-                // Copy external links (URLs) immediately
-                const bounds = link.getBounds();
-                dstPage.insertLink({
-                  x: bounds[0],
-                  y: bounds[1], 
-                  width: bounds[2] - bounds[0],
-                  height: bounds[3] - bounds[1]
-                }, link.getURI());
+        }
+        
+        if (rotation) rotations.push({ newPageIndex: dstPageIndex, rotation });
+        stampSources.push({ fileName: getDocumentTitle(docIndex), pageIndex: i });
+        
+        const srcPage = src.loadPage(i);
+        const dstPage = mergedDoc.loadPage(dstPageIndex);
+        
+        // Process links: copy external links immediately, collect internal links for later
+        try {
+          const links = srcPage.getLinks();
+          for (const link of links) {
+            const remote = link.isExternal() ? parseRemoteLink(link.getURI()) : undefined;
+            const remoteDocIndex = remote ? findDocumentByFileName(remote.fileName) : -1;
+            
+            if (remote && remoteDocIndex >= 0) {
+              // Link to another file that is part of this merge, turn it into an internal link later
+              remoteLinks.push({
+                newPageIndex: dstPageIndex,
+                bounds: link.getBounds(),
+                originalURI: link.getURI(),
+                targetDocIndex: remoteDocIndex,
+                targetURI: remote.fragment
+              });
+            } else if (link.isExternal()) {
+              // Copy external links (URLs) immediately
+              const bounds = link.getBounds();
+              dstPage.insertLink({
+                x: bounds[0],
+                y: bounds[1], 
+                width: bounds[2] - bounds[0],
+                height: bounds[3] - bounds[1]
+              }, link.getURI());
+            } else {
+              // Collect internal links for remapping after all pages are grafted.
+              // Page URIs, GoTo actions and named destinations are all resolved to a source page.
+              // Links to pages that are left out of the merge are dropped during remapping.
+              const uri = link.getURI();
+              const destination = uri ? resolvers[docIndex](uri) : undefined;
+              if (destination) {
+                internalLinks.push({
+                  newPageIndex: dstPageIndex,
+                  bounds: link.getBounds(),
+                  originalURI: uri,
+                  targetDocIndex: docIndex,
+                  destination
+                });
               } else {
-                // Collect internal links for remapping after all pages are grafted
-                const uri = link.getURI();
-                if (uri && uri.includes('#page=')) {
-                  const pageMatch = uri.match(/#page=(\d+)/);
-                  if (pageMatch) {
-                    const originalPageRef = parseInt(pageMatch[1]);
-                    internalLinks.push({
-                      newPageIndex: dstPageIndex,
-                      bounds: link.getBounds(),
-                      originalURI: uri,
-                      originalPageRef: originalPageRef
-                    });
-                  }
-                }
+                console.warn(`Could not resolve internal link destination: ${uri}`);
               }
             }
-            
-            // Copy non-link annotations (preserves forms and other annotations)
-            // Internal links will be handled separately after all pages are grafted
-            const srcPageObj = srcPage.getObject();
-            const dstPageObj = dstPage.getObject();
-            
-            if (srcPageObj && dstPageObj) {
-              const annots = srcPageObj.get('Annots');
-              if (annots && annots.isArray() && annots.length > 0) {
-                // Filter out link annotations but keep forms, widgets, etc.
-                const filteredAnnots = mergedDoc.newArray();
-                let hasNonLinkAnnotations = false;
-                
-                for (let j = 0; j < annots.length; j++) {
-                  try {
-                    const annotRef = annots.get(j);
-                    if (annotRef && annotRef.isIndirect()) {
-                      const annot = annotRef.resolve();
-                      if (annot && annot.isDictionary()) {
-                        const subtype = annot.get('Subtype');
-                        // Skip link annotations, keep everything else
-                        if (!subtype || !subtype.isName() || subtype.asName() !== 'Link') {
-                          const graftedAnnot = mergedDoc.graftObject(annotRef);
-                          filteredAnnots.push(graftedAnnot);
+          }
+          
+          // Copy non-link annotations (preserves forms and other annotations)
+          // Internal links will be handled separately after all pages are grafted
+          const srcPageObj = srcPage.getObject();
+          const dstPageObj = dstPage.getObject();
+          
+          if (srcPageObj && dstPageObj) {
+            const annots = srcPageObj.get('Annots');
+            if (annots && annots.isArray() && annots.length > 0) {
+              // Filter out link annotations but keep forms, widgets, etc.
+              const filteredAnnots = mergedDoc.newArray();
+              let hasNonLinkAnnotations = false;
+              
+              for (let j = 0; j < annots.length; j++) {
+                try {
+                  const annotRef = annots.get(j);
+                  if (annotRef && annotRef.isIndirect()) {
+                    const annot = annotRef.resolve();
+                    if (annot && annot.isDictionary()) {
+                      const subtype = annot.get('Subtype');
+                      // Skip link annotations, keep everything else
+                      if (!subtype || !subtype.isName() || subtype.asName() !== 'Link') {
+                        if (!isRepeated) {
+                          filteredAnnots.push(graftMap.graftObject(annotRef));
+                          hasNonLinkAnnotations = true;
+                        } else if (subtype.asName() !== 'Popup') {
+                          // Annotations can only be on one page, repeated pages get their own copies
+                          const copy = copyAnnotation(mergedDoc, graftMap, annot, dstPageObj);
+                          if (isWidget(copy)) source.widgetCopies.push(copy);
+                          filteredAnnots.push(copy);
                           hasNonLinkAnnotations = true;
                         }
                       }
                     }
-                  } catch (e) {
-                    // If we can't process this annotation, skip it
-                    console.warn(`Failed to process annotation ${j}:`, e);
                   }
+                } catch (e) {
+                  // If we can't process this annotation, skip it
+                  console.warn(`Failed to process annotation ${j}:`, e);
                 }
-                
-                // Only set annotations if we found non-link annotations
-                if (hasNonLinkAnnotations) {
-                  dstPageObj.put('Annots', filteredAnnots);
-                }
+              }
+              
+              // Only set annotations if we found non-link annotations
+              if (hasNonLinkAnnotations) {
+                dstPageObj.put('Annots', filteredAnnots);
+                if (!isRepeated) source.widgets.push(...getPageWidgets(srcPageObj));
               }
             }
-          } catch (e) {
-            // Continue if copying fails for a specific page
-            console.warn(`Failed to copy annotations/links for page ${i}:`, e);
           }
-          
-          srcPage.destroy();
-          dstPage.destroy();
+        } catch (e) {
+          // Continue if copying fails for a specific page
+          console.warn(`Failed to copy annotations/links for page ${i}:`, e);
         }
         
-        src.destroy();
+        srcPage.destroy();
+        dstPage.destroy();
+      }
+      
+      // Forms and bookmarks are added per document, in the order documents first appear
+      for (const source of mergedSources.values()) {
+        const { docIndex, graftMap } = source;
+        const src = sources[docIndex];
+        
+        try {
+          const fieldNames = getFieldNames(src);
+          const hasCollisions = Array.from(fieldNames).some(name => mergedFieldNames.has(name));
+          const prefix = options.renameCollidingFields && hasCollisions ? `doc${docIndex + 1}` : undefined;
+          appendAcroForm(mergedDoc, src, graftMap, source.widgets, prefix, source.widgetCopies);
+          fieldNames.forEach(name => mergedFieldNames.add(prefix ? `${prefix}.${name}` : name));
+        } catch (e) {
+          console.warn(`Failed to merge form fields for document ${docIndex}:`, e);
+        }
+        
+        try {
+          appendDocumentOutline(outline, mergedDoc, {
+            title: options.topLevelOutline ? undefined : getDocumentTitle(docIndex),
+            firstPageIndex: getFirstPageIndex(docIndex),
+            items: src.loadOutline(),
+            resolveDestination: resolvers[docIndex],
+            remapPage: remapPage(docIndex)
+          });
+        } catch (e) {
+          console.warn(`Failed to copy bookmarks for document ${docIndex}:`, e);
+        }
+
+        try {
+          appendEmbeddedFiles(mergedDoc, src, graftMap);
+        } catch (e) {
+          console.warn(`Failed to copy embedded files for document ${docIndex}:`, e);
+        }
+      }
+      
+      for (const remoteLink of remoteLinks) {
+        // Fall back to the first page when the named destination does not exist in the target file
+        const destination = resolvers[remoteLink.targetDocIndex](remoteLink.targetURI)
+          ?? resolvers[remoteLink.targetDocIndex]('#page=1');
+        if (destination) {
+          internalLinks.push({ ...remoteLink, destination });
+        } else {
+          console.warn(`Could not resolve link to merged file: ${remoteLink.originalURI}`);
+        }
       }
       
       // Now process collected internal links with proper page remapping
@@ -183,114 +625,236 @@ export class MupdfWorker {
       
       for (const internalLink of internalLinks) {
         try {
-          // Find the correct remapped page number
-          // Internal links reference pages within the same document they originated from
-          const sourceMapping = pageMappings.find(mapping => 
-            mapping.newPageIndex === internalLink.newPageIndex
-          );
+          // Find the target page in its source document, keeping the original view.
+          // Links point into the document they came from, or into another merged file for GoToR links.
+          const newURI = remapDestinationURI(mergedDoc, internalLink.destination, remapPage(internalLink.targetDocIndex));
           
-          if (sourceMapping) {
-            // Find the target page in the same source document
-            const targetMapping = pageMappings.find(mapping => 
-              mapping.docIndex === sourceMapping.docIndex && 
-              mapping.originalPageIndex === internalLink.originalPageRef - 1 // PDF pages are 1-indexed in URIs
-            );
+          if (newURI) {
+            // Add the remapped internal link to the destination page
+            const dstPage = mergedDoc.loadPage(internalLink.newPageIndex);
+            dstPage.insertLink({
+              x: internalLink.bounds[0],
+              y: internalLink.bounds[1],
+              width: internalLink.bounds[2] - internalLink.bounds[0],
+              height: internalLink.bounds[3] - internalLink.bounds[1]
+            }, newURI);
             
-            if (targetMapping) {
-              // Create remapped URI with new page number (convert back to 1-indexed)
-              const newPageRef = targetMapping.newPageIndex + 1;
-              const newURI = internalLink.originalURI.replace(
-                /#page=\d+/,
-                `#page=${newPageRef}`
-              );
-              
-              // Add the remapped internal link to the destination page
-              const dstPage = mergedDoc.loadPage(internalLink.newPageIndex);
-              dstPage.insertLink({
-                x: internalLink.bounds[0],
-                y: internalLink.bounds[1],
-                width: internalLink.bounds[2] - internalLink.bounds[0],
-                height: internalLink.bounds[3] - internalLink.bounds[1]
-              }, newURI);
-              
-              dstPage.destroy();
-              
-              console.log(`Remapped internal link: ${internalLink.originalURI} → ${newURI}`);
-            } else {
-              console.warn(`Could not find target page mapping for internal link: ${internalLink.originalURI}`);
-            }
+            dstPage.destroy();
+            
+            console.log(`Remapped internal link: ${internalLink.originalURI} → ${newURI}`);
+          } else {
+            console.warn(`Could not find target page mapping for internal link: ${internalLink.originalURI}`);
           }
         } catch (e) {
           console.warn(`Failed to remap internal link: ${internalLink.originalURI}`, e);
         }
       }
       
-      // Remove the initial blank page if present
-      if (mergedDoc.countPages() > 0) {
+      if (options.flattenSignatures) flattenSignatures(mergedDoc);
+      
+      for (const { newPageIndex, rotation } of rotations) {
+        const pageObj = mergedDoc.findPage(newPageIndex);
+        const current = pageObj.getInheritable('Rotate');
+        const rotate = (current.isNumber() ? current.asNumber() : 0) + rotation;
+        pageObj.put('Rotate', ((rotate % 360) + 360) % 360);
+      }
+      
+      // Page indexes above count the placeholder, drop it only now
+      for (let i = 0; i < mergedDoc.countPages(); i++) {
+        if (mergedDoc.findPage(i).asIndirect() === placeholderPage.asIndirect()) {
+          mergedDoc.deletePage(i);
+          break;
+        }
+      }
+      
+      if (options.tableOfContents) {
+        // Merged pages come after the placeholder, they are one page further up now.
+        // With odd page separators the first file starts on an odd page too.
+        const tocPageCount = insertTableOfContents(mergedDoc, Array.from(mergedSources.keys(), docIndex => ({
+          title: getDocumentTitle(docIndex),
+          pageIndex: getFirstPageIndex(docIndex) - 1,
+        })), options.separators === 'odd-page');
+        stampSources.unshift(...Array.from({ length: tocPageCount }, (_, pageIndex) => ({ fileName: '', pageIndex })));
+        
+        const tocOutline = mergedDoc.outlineIterator();
         try {
-          const firstPage = mergedDoc.loadPage(0);
-          const text = firstPage.getText();
-          if (text.trim() === "") {
-            mergedDoc.deletePage(0);
-          }
-        } catch {
-          // If getText fails, keep the page
+          tocOutline.insert({ title: 'Contents', uri: '#page=1', open: false });
+        } finally {
+          tocOutline.destroy();
         }
       }
       
-      const mergedDocument = await mergedDoc.saveToBuffer(COMPRESSION_OPTIONS);
-      return mergedDocument.asUint8Array();
+      if (options.pageSize) normalizePageSizes(mergedDoc, options.pageSize);
+      
+      // Watermarks and stamps go on last, upright on the pages as they are finally turned
+      if (options.watermark) watermarkPages(mergedDoc, options.watermark);
+      if (options.stamps) stampPages(mergedDoc, options.stamps, stampSources);
+      
+      return saveCompressed(mergedDoc, options.compression);
     } finally {
+      mergedSources.forEach(source => source.graftMap.destroy());
+      outline.destroy();
       mergedDoc.destroy();
     }
   }
 
-  async renderFirstPage(pdfBuffer: ArrayBuffer): Promise<string> {
+  // Filters out the pages that render blank. Each source page is analyzed once,
+  // however often it is listed.
+  private withoutBlankPages(sources: mupdf.PDFDocument[], pages: PageRef[], settings: BlankPageSettings): PageRef[] {
+    const blankPages = new Map<string, boolean>();
+    const result = pages.filter(({ docIndex, pageIndex }) => {
+      const src = sources[docIndex];
+      // Pages that do not exist are reported when merging
+      if (!src || !Number.isInteger(pageIndex) || pageIndex < 0 || pageIndex >= src.countPages()) return true;
+
+      const key = `${docIndex}:${pageIndex}`;
+      if (!blankPages.has(key)) {
+        const page = src.loadPage(pageIndex);
+        try {
+          blankPages.set(key, isBlankPage(page, settings));
+        } finally {
+          page.destroy();
+        }
+      }
+      return !blankPages.get(key);
+    });
+
+    if (result.length === 0) throw new AllPagesBlankError();
+    return result;
+  }
+
+  // Splits a document into several documents. Each part keeps the links,
+  // bookmarks and form fields that fall within its pages.
+  async splitDocument(pdfBuffer: ArrayBuffer, mode: SplitMode, fileName?: string): Promise<SplitPart[]> {
+    const src = await this.openDocumentWithTimeout(pdfBuffer);
+    try {
+      const pageCount = src.countPages();
+      const extractPages = (pages: number[]) => this.mergePageList(
+        [src],
+        pages.map(pageIndex => ({ docIndex: 0, pageIndex })),
+        // Parts keep the images as they are, and are measured that way when splitting by size
+        { fileNames: fileName ? [fileName] : undefined, compression: { preset: 'lossless' }, topLevelOutline: true }
+      );
+
+      let plan: SplitPlanPart[];
+      switch (mode.type) {
+        case 'ranges':
+          plan = mode.ranges.map(pages => ({ pages: pages.filter(i => i >= 0 && i < pageCount) }));
+          break;
+        case 'everyNPages':
+          plan = splitEveryNPages(pageCount, mode.pagesPerPart);
+          break;
+        case 'bookmarks': {
+          const resolveDestination = createDestinationResolver(src);
+          const bookmarks = (src.loadOutline() ?? []).map(item => ({
+            title: item.title ?? '',
+            page: item.page ?? (item.uri ? resolveDestination(item.uri)?.page : undefined) ?? -1
+          }));
+          plan = splitAtBookmarks(pageCount, bookmarks);
+          break;
+        }
+        case 'fileSize': {
+          // Measure every page on its own, then group pages that fit together
+          const pageSizes: number[] = [];
+          for (let i = 0; i < pageCount; i++) {
+            pageSizes.push((await extractPages([i])).byteLength);
+          }
+          plan = splitBySize(pageSizes, mode.maxBytes);
+          break;
+        }
+      }
+
+      const parts: SplitPart[] = [];
+      for (const part of plan.filter(part => part.pages.length > 0)) {
+        parts.push({ ...part, data: await extractPages(part.pages) });
+      }
+      return parts;
+    } finally {
+      src.destroy();
+    }
+  }
+
+  async countPages(pdfBuffer: ArrayBuffer): Promise<number> {
     const doc = await this.openDocumentWithTimeout(pdfBuffer);
     try {
+      return doc.countPages();
+    } finally {
+      doc.destroy();
+    }
+  }
+
+  async findFieldNameCollisions(documents: ArrayBuffer[]): Promise<FieldNameCollision[]> {
+    const fieldNamesPerDoc: Set<string>[] = [];
+    for (const buf of documents) {
+      const doc = await this.openDocumentWithTimeout(buf);
+      try {
+        fieldNamesPerDoc.push(getFieldNames(doc));
+      } finally {
+        doc.destroy();
+      }
+    }
+    return findFieldNameCollisions(fieldNamesPerDoc);
+  }
+
+  // Renders a page to a PNG data URL
+  private renderPageToDataURL(page: mupdf.PDFPage, dpi: number, rotation = 0): string {
+    const zoom = dpi / 72;
+    const matrix = mupdf.Matrix.concat(mupdf.Matrix.scale(zoom, zoom), mupdf.Matrix.rotate(rotation));
+    const pix = page.toPixmap(
+      matrix,
+      mupdf.ColorSpace.DeviceRGB,
+      false, // alpha: no transparency
+      true   // showExtras: render annotations/widgets
+    );
+    const png = pix.asPNG();
+    pix.destroy();
+
+    // Convert Uint8Array to base64 in chunks to avoid stack overflow
+    const CHUNK_SIZE = 8192; // Process 8KB at a time
+    let binary = '';
+    for (let i = 0; i < png.length; i += CHUNK_SIZE) {
+      const chunk = png.slice(i, i + CHUNK_SIZE);
+      binary += String.fromCharCode.apply(null, chunk as unknown as number[]);
+    }
+    const base64 = btoa(binary);
+    return `data:image/png;base64,${base64}`;
+  }
+
+  // Renders the first page, turned clockwise by rotation degrees
+  async renderFirstPage(pdfBuffer: ArrayBuffer, rotation = 0, watermark?: Watermark): Promise<string> {
+    const doc = await this.openDocumentWithTimeout(pdfBuffer);
+    try {
+      if (watermark) {
+        // Turn the page itself first, the watermark stays upright like in the merged document
+        const pageObj = doc.findPage(0);
+        const rotate = pageObj.getInheritable('Rotate');
+        pageObj.put('Rotate', (((rotate.isNumber() ? rotate.asNumber() : 0) + rotation) % 360 + 360) % 360);
+        rotation = 0;
+        watermarkPages(doc, watermark, [0]);
+      }
       const page = doc.loadPage(0);
       // Render at 144 DPI (2x 72dpi)
-      const dpi = 144;
-      const zoom = dpi / 72;
-      const matrix = mupdf.Matrix.scale(zoom, zoom);
-      const pix = page.toPixmap(
-        matrix,
-        mupdf.ColorSpace.DeviceRGB,
-        false, // alpha: no transparency
-        true   // showExtras: render annotations/widgets
-      );
-      const png = pix.asPNG();
+      const preview = this.renderPageToDataURL(page, 144, rotation);
       page.destroy();
-
-      // Convert Uint8Array to base64 in chunks to avoid stack overflow
-      const CHUNK_SIZE = 8192; // Process 8KB at a time
-      let binary = '';
-      for (let i = 0; i < png.length; i += CHUNK_SIZE) {
-        const chunk = png.slice(i, i + CHUNK_SIZE);
-        binary += String.fromCharCode.apply(null, chunk as unknown as number[]);
-      }
-      const base64 = btoa(binary);
-      return `data:image/png;base64,${base64}`;
+      return preview;
     } finally {
       doc.destroy();
     }
   }
 
-  async rotateDocument(pdfBuffer: ArrayBuffer): Promise<ArrayBuffer> {
+  // Renders small thumbnails of every page, for picking pages to merge
+  async renderPageThumbnails(pdfBuffer: ArrayBuffer, dpi = 36): Promise<string[]> {
+    const doc = await this.openDocumentWithTimeout(pdfBuffer);
     try {
-      const doc = mupdf.PDFDocument.openDocument(pdfBuffer, 'application/pdf');
-      const pageCount = doc.countPages();
-      for (let i = 0; i < pageCount; i++) {
+      const thumbnails: string[] = [];
+      for (let i = 0; i < doc.countPages(); i++) {
         const page = doc.loadPage(i);
-        page.rotate(90); // rotate 90 degrees to the right (clockwise)
+        thumbnails.push(this.renderPageToDataURL(page, dpi));
         page.destroy();
       }
-      const rotatedBuffer = await doc.saveToBuffer(COMPRESSION_OPTIONS);
+      return thumbnails;
+    } finally {
       doc.destroy();
-      return rotatedBuffer.asUint8Array();
-    } catch (error) {
-      console.error('Error rotating document:', error);
-      throw new Error('Failed to rotate document');
     }
   }
 }
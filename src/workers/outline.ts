@@ -0,0 +1,72 @@
+// Copyright © 2025 Anton Medvedev
+// SPDX‑License‑Identifier: AGPL‑3.0
+
+import * as mupdf from "mupdf/mupdfjs"
+import { remapDestinationURI, type DestinationResolver, type PageRemapper } from "./destinations"
+
+type OutlineItem = NonNullable<ReturnType<mupdf.Document['loadOutline']>>[number];
+
+export interface SourceOutline {
+  // Title of the top-level bookmark, usually the source file name. Without
+  // one the document's bookmarks are put at top level.
+  title?: string;
+  // Index of the first page of the source document in the merged document
+  firstPageIndex: number;
+  items: OutlineItem[] | null;
+  resolveDestination: DestinationResolver;
+  remapPage: PageRemapper;
+}
+
+function insertOutlineItems(
+  iterator: mupdf.OutlineIterator,
+  mergedDoc: mupdf.PDFDocument,
+  items: OutlineItem[],
+  source: SourceOutline
+) {
+  for (const item of items) {
+    let uri: string | undefined;
+    if (item.uri) {
+      try {
+        const dest = source.resolveDestination(item.uri);
+        uri = dest && remapDestinationURI(mergedDoc, dest, source.remapPage);
+      } catch (e) {
+        console.warn(`Failed to remap bookmark destination: ${item.uri}`, e);
+      }
+    }
+
+    // Bookmarks whose target was not merged are kept as plain headings
+    iterator.insert({ title: item.title, uri, open: item.open });
+
+    if (item.down && item.down.length > 0) {
+      // The iterator sits after the inserted item, step back to descend into it
+      iterator.prev();
+      iterator.down();
+      insertOutlineItems(iterator, mergedDoc, item.down, source);
+      iterator.up();
+      iterator.next();
+    }
+  }
+}
+
+// Appends a top-level bookmark for a source document pointing at its first merged page,
+// with the document's own outline tree nested below it.
+export function appendDocumentOutline(
+  iterator: mupdf.OutlineIterator,
+  mergedDoc: mupdf.PDFDocument,
+  source: SourceOutline
+) {
+  if (source.title === undefined) {
+    if (source.items) insertOutlineItems(iterator, mergedDoc, source.items, source);
+    return;
+  }
+
+  iterator.insert({ title: source.title, uri: `#page=${source.firstPageIndex + 1}`, open: true });
+
+  if (!source.items || source.items.length === 0) return;
+
+  iterator.prev();
+  iterator.down();
+  insertOutlineItems(iterator, mergedDoc, source.items, source);
+  iterator.up();
+  iterator.next();
+}
@@ -0,0 +1,139 @@
+// Copyright © 2025 Anton Medvedev
+// SPDX‑License‑Identifier: AGPL‑3.0
+
+import * as mupdf from "mupdf/mupdfjs"
+
+// The visible area of a page as the reader sees it, with its origin at the bottom
+// left corner, and the matrix that maps it to the unrotated page space
+export interface PageFrame {
+  matrix: mupdf.Matrix;
+  width: number;
+  height: number;
+}
+
+// Whether content goes on top of the existing page content or behind it
+export type PageLayer = 'over' | 'under';
+
+// Characters of WinAnsiEncoding outside of Latin-1, other characters are drawn as "?"
+const WIN_ANSI_EXTRA: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, 'ƒ': 0x83, '„': 0x84, '…': 0x85, '†': 0x86, '‡': 0x87, 'ˆ': 0x88,
+  '‰': 0x89, 'Š': 0x8a, '‹': 0x8b, 'Œ': 0x8c, 'Ž': 0x8e, '‘': 0x91, '’': 0x92, '“': 0x93,
+  '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97, '˜': 0x98, '™': 0x99, 'š': 0x9a, '›': 0x9b,
+  'œ': 0x9c, 'ž': 0x9e, 'Ÿ': 0x9f,
+};
+
+// Crop box, or media box, turned by the page rotation
+export function getPageFrame(pageObj: mupdf.PDFObject): PageFrame {
+  const cropBox = pageObj.getInheritable('CropBox');
+  const box = (cropBox.isArray() ? cropBox : pageObj.getInheritable('MediaBox')).asJS() as mupdf.Rect;
+  const rotateObj = pageObj.getInheritable('Rotate');
+  const rotate = (((rotateObj.isNumber() ? rotateObj.asNumber() : 0) % 360) + 360) % 360;
+  // Boxes may list any two opposite corners
+  const x0 = Math.min(box[0], box[2]);
+  const y0 = Math.min(box[1], box[3]);
+  const x1 = Math.max(box[0], box[2]);
+  const y1 = Math.max(box[1], box[3]);
+
+  switch (rotate) {
+    case 90: return { matrix: [0, 1, -1, 0, x1, y0], width: y1 - y0, height: x1 - x0 };
+    case 180: return { matrix: [-1, 0, 0, -1, x1, y1], width: x1 - x0, height: y1 - y0 };
+    case 270: return { matrix: [0, -1, 1, 0, x0, y1], width: y1 - y0, height: x1 - x0 };
+    default: return { matrix: [1, 0, 0, 1, x0, y0], width: x1 - x0, height: y1 - y0 };
+  }
+}
+
+// Text drawn with a simple font is a string of single byte character codes
+export function toWinAnsi(text: string): string {
+  return Array.from(text, char => {
+    const code = char.charCodeAt(0);
+    if ((code >= 0x20 && code < 0x7f) || (code >= 0xa0 && code <= 0xff)) return char;
+    return String.fromCharCode(WIN_ANSI_EXTRA[char] ?? 0x3f);
+  }).join('');
+}
+
+function toUnicode(code: number): string {
+  return Object.keys(WIN_ANSI_EXTRA).find(char => WIN_ANSI_EXTRA[char] === code) ?? String.fromCharCode(code);
+}
+
+// Width in points of WinAnsi encoded text
+export function measureText(font: mupdf.Font, encoded: string, fontSize: number): number {
+  let width = 0;
+  for (const char of encoded) {
+    width += font.advanceGlyph(font.encodeCharacter(toUnicode(char.charCodeAt(0))));
+  }
+  return width * fontSize;
+}
+
+// Shortens WinAnsi encoded text with an ellipsis until it fits the width
+export function fitText(font: mupdf.Font, encoded: string, fontSize: number, maxWidth: number): string {
+  if (measureText(font, encoded, fontSize) <= maxWidth) return encoded;
+  const ellipsis = String.fromCharCode(WIN_ANSI_EXTRA['…']);
+  let text = encoded;
+  while (text.length > 0 && measureText(font, text + ellipsis, fontSize) > maxWidth) {
+    text = text.slice(0, -1);
+  }
+  return text.trimEnd() + ellipsis;
+}
+
+// A PDF string literal of WinAnsi encoded text
+export function toPDFString(encoded: string): string {
+  return `(${encoded.replace(/[()\\]/g, char => `\\${char}`)})`;
+}
+
+// Content stream data, the characters of the string are its bytes
+export function toBytes(content: string): Uint8Array {
+  return Uint8Array.from(content, char => char.charCodeAt(0));
+}
+
+// Adds a named resource (font, image, graphics state) to the page. The page gets
+// its own resources when it inherits them.
+export function addPageResource(
+  doc: mupdf.PDFDocument,
+  pageObj: mupdf.PDFObject,
+  category: 'Font' | 'XObject' | 'ExtGState',
+  name: string,
+  resource: mupdf.PDFObject
+) {
+  let resources = pageObj.get('Resources');
+  if (!resources.isDictionary()) {
+    const inherited = pageObj.getInheritable('Resources');
+    resources = doc.newDictionary();
+    if (inherited.isDictionary()) inherited.forEach((value, key) => resources.put(key, value));
+    pageObj.put('Resources', resources);
+  }
+  let entries = resources.get(category);
+  if (!entries.isDictionary()) {
+    entries = doc.newDictionary();
+    resources.put(category, entries);
+  }
+  entries.put(name, resource);
+}
+
+// Content streams of the page, in drawing order
+export function getContentStreams(pageObj: mupdf.PDFObject): mupdf.PDFObject[] {
+  const streams: mupdf.PDFObject[] = [];
+  const contents = pageObj.get('Contents');
+  if (contents.isArray()) {
+    for (let i = 0; i < contents.length; i++) streams.push(contents.get(i));
+  } else if (contents.isStream()) {
+    streams.push(contents);
+  }
+  return streams;
+}
+
+// Replaces the content streams of the page
+export function setContentStreams(doc: mupdf.PDFDocument, pageObj: mupdf.PDFObject, streams: mupdf.PDFObject[]) {
+  const array = doc.newArray();
+  streams.forEach(stream => array.push(stream));
+  pageObj.put('Contents', array);
+}
+
+// Adds content drawn in the page frame. Content over the page comes after the existing
+// content wrapped in q/Q, so a transformation it leaves behind does not move it.
+export function addPageContent(doc: mupdf.PDFDocument, pageObj: mupdf.PDFObject, content: string, layer: PageLayer) {
+  const framed = `q\n${getPageFrame(pageObj).matrix.join(' ')} cm\n${content}Q\n`;
+  const existing = getContentStreams(pageObj);
+  setContentStreams(doc, pageObj, layer === 'over'
+    ? [doc.addStream(toBytes('q\n'), {}), ...existing, doc.addStream(toBytes(`Q\n${framed}`), {})]
+    : [doc.addStream(toBytes(framed), {}), ...existing]);
+}
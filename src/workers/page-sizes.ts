@@ -0,0 +1,204 @@
+// Copyright © 2025 Anton Medvedev
+// SPDX‑License‑Identifier: AGPL‑3.0
+
+import * as mupdf from "mupdf/mupdfjs"
+import { PAPER_SIZES, type PaperSize } from "./images"
+import { getContentStreams, setContentStreams, toBytes } from "./page-overlay"
+
+// One paper size for every page. Pages keep their orientation: landscape pages go
+// on landscape paper.
+export interface PageSizeSettings {
+  paperSize: PaperSize | 'custom';
+  // Width and height of a custom paper size in millimetres, in either order
+  customSize?: [number, number];
+  // Fit shows the whole page with margins around it, fill covers the paper and
+  // cuts off what sticks out
+  scaling: 'fit' | 'fill';
+}
+
+const POINTS_PER_MM = 72 / 25.4;
+// Large enough for posters, and within what PDF viewers accept
+const MAX_SIZE_MM = 5000;
+// Pages closer than this to the paper size in points are left alone
+const SIZE_TOLERANCE = 0.5;
+
+export const PAGE_SIZE_ERROR = 'PageSizeError';
+
+// Thrown for a custom paper size out of range
+export class PageSizeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = PAGE_SIZE_ERROR;
+  }
+}
+
+// Visible box boundaries that no longer apply once the page is put on the paper
+const PRINT_BOXES = ['BleedBox', 'TrimBox', 'ArtBox'];
+// Annotation entries holding flat lists of x, y coordinates
+const POINT_LISTS = ['QuadPoints', 'Vertices', 'L', 'CL'];
+
+// Short and long side of the paper in points
+function getPaperSize(settings: PageSizeSettings): [number, number] {
+  if (settings.paperSize !== 'custom') return PAPER_SIZES[settings.paperSize];
+
+  const size = settings.customSize;
+  if (!size || size.length !== 2 || !size.every(n => Number.isFinite(n) && n >= 1 && n <= MAX_SIZE_MM)) {
+    throw new PageSizeError(`Page size must be between 1 and ${MAX_SIZE_MM} mm`);
+  }
+  return [Math.min(...size) * POINTS_PER_MM, Math.max(...size) * POINTS_PER_MM]
+    .map(n => +n.toFixed(2)) as [number, number];
+}
+
+// Pages are only scaled and moved, so each axis is transformed on its own
+function transformX(matrix: mupdf.Matrix, x: number): number {
+  return +(matrix[0] * x + matrix[4]).toFixed(2);
+}
+
+function transformY(matrix: mupdf.Matrix, y: number): number {
+  return +(matrix[3] * y + matrix[5]).toFixed(2);
+}
+
+function transformRect(matrix: mupdf.Matrix, rect: mupdf.Rect): mupdf.Rect {
+  return [
+    transformX(matrix, Math.min(rect[0], rect[2])),
+    transformY(matrix, Math.min(rect[1], rect[3])),
+    transformX(matrix, Math.max(rect[0], rect[2])),
+    transformY(matrix, Math.max(rect[1], rect[3])),
+  ];
+}
+
+function transformPointList(matrix: mupdf.Matrix, points: number[]): number[] {
+  return points.map((n, i) => i % 2 === 0 ? transformX(matrix, n) : transformY(matrix, n));
+}
+
+// Moves an annotation with its page. Appearance streams are fitted into the
+// annotation rectangle, so they follow it.
+function transformAnnotation(annot: mupdf.PDFObject, matrix: mupdf.Matrix) {
+  const rect = annot.get('Rect');
+  if (rect.isArray()) annot.put('Rect', transformRect(matrix, rect.asJS() as mupdf.Rect));
+
+  for (const key of POINT_LISTS) {
+    const points = annot.get(key);
+    if (points.isArray()) annot.put(key, transformPointList(matrix, points.asJS() as number[]));
+  }
+  const inkList = annot.get('InkList');
+  if (inkList.isArray()) {
+    annot.put('InkList', (inkList.asJS() as number[][]).map(points => transformPointList(matrix, points)));
+  }
+  // Differences between the rectangle and the drawn shape only scale
+  const differences = annot.get('RD');
+  if (differences.isArray()) annot.put('RD', (differences.asJS() as number[]).map(n => n * matrix[0]));
+}
+
+// Moves the position of an explicit destination ([page /XYZ left top zoom], [page /FitH top], ...)
+// to where its page content went
+function transformDestination(dest: mupdf.PDFObject, matrices: Map<number, mupdf.Matrix>) {
+  const page = dest.get(0);
+  const matrix = page.isIndirect() ? matrices.get(page.asIndirect()) : undefined;
+  const type = dest.get(1);
+  if (!matrix || !type.isName()) return;
+
+  // Unset positions (null) keep the current one
+  const transform = (index: number, axis: 'x' | 'y') => {
+    const value = dest.get(index);
+    if (!value.isNumber()) return;
+    dest.put(index, axis === 'x' ? transformX(matrix, value.asNumber()) : transformY(matrix, value.asNumber()));
+  };
+
+  switch (type.asName()) {
+    case 'XYZ': transform(2, 'x'); transform(3, 'y'); break;
+    case 'FitH': case 'FitBH': transform(2, 'y'); break;
+    case 'FitV': case 'FitBV': transform(2, 'x'); break;
+    case 'FitR': transform(2, 'x'); transform(3, 'y'); transform(4, 'x'); transform(5, 'y'); break;
+  }
+}
+
+// Destination of a link annotation or bookmark, directly or in a GoTo action
+function getExplicitDestination(obj: mupdf.PDFObject): mupdf.PDFObject | undefined {
+  let dest = obj.get('Dest');
+  if (!dest.isArray()) {
+    const action = obj.get('A');
+    if (action.isDictionary() && action.get('S').isName() && action.get('S').asName() === 'GoTo') {
+      dest = action.get('D');
+    }
+  }
+  return dest.isArray() ? dest : undefined;
+}
+
+function transformOutlineDestinations(doc: mupdf.PDFDocument, matrices: Map<number, mupdf.Matrix>) {
+  const visited = new Set<number>();
+  const pending = [doc.getTrailer().get('Root').get('Outlines').get('First')];
+  while (pending.length > 0) {
+    const item = pending.pop()!;
+    // Broken outlines may loop back to items seen before
+    if (!item.isIndirect() || visited.has(item.asIndirect())) continue;
+    visited.add(item.asIndirect());
+
+    const dest = getExplicitDestination(item);
+    if (dest) transformDestination(dest, matrices);
+    pending.push(item.get('Next'), item.get('First'));
+  }
+}
+
+// Scales every page onto the paper and centers it there. Annotations, links and the
+// positions links and bookmarks jump to move along with the page content.
+export function normalizePageSizes(doc: mupdf.PDFDocument, settings: PageSizeSettings) {
+  const [short, long] = getPaperSize(settings);
+  // Matrices that moved the content of each page, by page object number
+  const matrices = new Map<number, mupdf.Matrix>();
+  // Annotations of every page, a link on any page may jump to a moved one
+  const annotations: mupdf.PDFObject[] = [];
+
+  for (let i = 0; i < doc.countPages(); i++) {
+    const pageObj = doc.findPage(i);
+    const annots = pageObj.get('Annots');
+    const pageAnnotations: mupdf.PDFObject[] = [];
+    for (let j = 0; annots.isArray() && j < annots.length; j++) {
+      const annot = annots.get(j).resolve();
+      if (annot.isDictionary()) pageAnnotations.push(annot);
+    }
+    annotations.push(...pageAnnotations);
+
+    const cropBox = pageObj.getInheritable('CropBox');
+    const box = (cropBox.isArray() ? cropBox : pageObj.getInheritable('MediaBox')).asJS() as mupdf.Rect;
+    const x0 = Math.min(box[0], box[2]);
+    const y0 = Math.min(box[1], box[3]);
+    const width = Math.max(box[0], box[2]) - x0;
+    const height = Math.max(box[1], box[3]) - y0;
+    if (!(width > 0 && height > 0) || matrices.has(pageObj.asIndirect())) continue;
+
+    // The page rotation turns page and paper alike, so orientation is judged unrotated
+    const [paperWidth, paperHeight] = width > height ? [long, short] : [short, long];
+    if (x0 === 0 && y0 === 0 && Math.abs(width - paperWidth) < SIZE_TOLERANCE && Math.abs(height - paperHeight) < SIZE_TOLERANCE) continue;
+
+    const scale = settings.scaling === 'fill'
+      ? Math.max(paperWidth / width, paperHeight / height)
+      : Math.min(paperWidth / width, paperHeight / height);
+    const matrix: mupdf.Matrix = [
+      scale, 0, 0, scale,
+      (paperWidth - width * scale) / 2 - x0 * scale,
+      (paperHeight - height * scale) / 2 - y0 * scale,
+    ];
+    matrices.set(pageObj.asIndirect(), matrix);
+
+    // Content outside the old visible box stays hidden
+    const before = `q\n${matrix.map(n => +n.toFixed(4)).join(' ')} cm\n${x0} ${y0} ${width} ${height} re W n\n`;
+    setContentStreams(doc, pageObj, [
+      doc.addStream(toBytes(before), {}),
+      ...getContentStreams(pageObj),
+      doc.addStream(toBytes('Q\n'), {}),
+    ]);
+    const paperBox = [0, 0, paperWidth, paperHeight].map(n => +n.toFixed(2));
+    pageObj.put('MediaBox', paperBox);
+    pageObj.put('CropBox', paperBox);
+    PRINT_BOXES.forEach(name => pageObj.delete(name));
+    pageAnnotations.forEach(annot => transformAnnotation(annot, matrix));
+  }
+
+  // Destinations are moved once every page is done
+  for (const annot of annotations) {
+    const dest = getExplicitDestination(annot);
+    if (dest) transformDestination(dest, matrices);
+  }
+  transformOutlineDestinations(doc, matrices);
+}
@@ -0,0 +1,158 @@
+// Copyright © 2025 Anton Medvedev
+// SPDX‑License‑Identifier: AGPL‑3.0
+
+import * as mupdf from "mupdf/mupdfjs"
+import { getUniqueName } from "./attachments"
+import { PAPER_SIZES } from "./images"
+import { fitText, measureText, toBytes, toPDFString, toWinAnsi } from "./page-overlay"
+
+// An original file bundled into a portfolio
+export interface PortfolioFile {
+  name: string;
+  data: ArrayBuffer;
+  // Empty when the browser does not know the type
+  mimeType?: string;
+  // Milliseconds since 1970, as File.lastModified
+  lastModified?: number;
+}
+
+const [PAGE_WIDTH, PAGE_HEIGHT] = PAPER_SIZES.a4;
+const MARGIN = 72;
+const HEADING = 'Attached files';
+const HEADING_SIZE = 20;
+const ENTRY_SIZE = 12;
+const LINE_HEIGHT = 20;
+// Room for the file sizes on the right
+const SIZE_WIDTH = 72;
+// File attachment icons go into the left margin, next to their entry
+const ICON_SIZE = 14;
+
+const FONT_RESOURCE = 'F1';
+
+const ENTRIES_PER_PAGE = Math.floor((PAGE_HEIGHT - 2 * MARGIN - 2 * HEADING_SIZE) / LINE_HEIGHT);
+
+function getLineBaseline(line: number): number {
+  return PAGE_HEIGHT - MARGIN - 2 * HEADING_SIZE - (line + 1) * LINE_HEIGHT;
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+function isPDF(file: PortfolioFile): boolean {
+  return file.mimeType === 'application/pdf' || (!file.mimeType && /\.pdf$/i.test(file.name));
+}
+
+function createCoverPage(doc: mupdf.PDFDocument, font: mupdf.Font, fontRef: mupdf.PDFObject, entries: { name: string; size: number }[]): mupdf.PDFObject {
+  let content = `0 g\nBT /${FONT_RESOURCE} ${HEADING_SIZE} Tf ${MARGIN} ${PAGE_HEIGHT - MARGIN - HEADING_SIZE} Td ${toPDFString(HEADING)} Tj ET\n`;
+
+  entries.forEach((entry, line) => {
+    const y = getLineBaseline(line);
+    const size = toWinAnsi(formatSize(entry.size));
+    const sizeWidth = measureText(font, size, ENTRY_SIZE);
+    const name = fitText(font, toWinAnsi(entry.name), ENTRY_SIZE, PAGE_WIDTH - 2 * MARGIN - SIZE_WIDTH);
+
+    content += `BT /${FONT_RESOURCE} ${ENTRY_SIZE} Tf ${MARGIN} ${y} Td ${toPDFString(name)} Tj ET\n`;
+    content += `BT /${FONT_RESOURCE} ${ENTRY_SIZE} Tf ${+(PAGE_WIDTH - MARGIN - sizeWidth).toFixed(2)} ${y} Td ${toPDFString(size)} Tj ET\n`;
+  });
+
+  const resources = doc.newDictionary();
+  const fonts = doc.newDictionary();
+  fonts.put(FONT_RESOURCE, fontRef);
+  resources.put('Font', fonts);
+  return doc.addPage([0, 0, PAGE_WIDTH, PAGE_HEIGHT], 0, resources, toBytes(content));
+}
+
+// A link that opens an embedded PDF (GoToE), other files can only be opened
+// from their file attachment annotation
+function createEmbeddedLink(doc: mupdf.PDFDocument, rect: [number, number, number, number], name: string): mupdf.PDFObject {
+  const target = doc.newDictionary();
+  target.put('R', doc.newName('C'));
+  target.put('N', doc.newString(name));
+  const destination = doc.newArray();
+  destination.push(0);
+  destination.push(doc.newName('Fit'));
+
+  const action = doc.newDictionary();
+  action.put('S', doc.newName('GoToE'));
+  action.put('T', target);
+  action.put('D', destination);
+  action.put('NewWindow', true);
+
+  const link = doc.newDictionary();
+  link.put('Type', doc.newName('Annot'));
+  link.put('Subtype', doc.newName('Link'));
+  link.put('Rect', rect);
+  link.put('Border', [0, 0, 0]);
+  link.put('A', action);
+  return doc.addObject(link);
+}
+
+// Creates a document that carries the files unchanged as embedded files, with cover
+// pages listing them. Every entry has a file attachment icon that opens its file, and
+// the entries of PDFs link to them. Viewers that support portfolios show the cover
+// and list the files in their attachments panel.
+export function createPortfolio(files: PortfolioFile[]): mupdf.PDFDocument {
+  if (files.length === 0) throw new Error('No files to bundle');
+
+  const doc = new mupdf.PDFDocument();
+  try {
+    const usedNames = new Set<string>();
+    const entries = files.map(file => {
+      const name = getUniqueName(file.name, usedNames);
+      usedNames.add(name);
+      const modified = new Date(file.lastModified ?? Date.now());
+      const fileSpec = doc.addEmbeddedFile(name, file.mimeType ?? '', file.data, modified, modified);
+      doc.insertEmbeddedFile(name, fileSpec);
+      return { name, size: file.data.byteLength, fileSpec, isPDF: isPDF(file) };
+    });
+
+    const pageCount = Math.ceil(entries.length / ENTRIES_PER_PAGE);
+    const font = new mupdf.Font('Helvetica');
+    try {
+      const fontRef = doc.addSimpleFont(font, 'Latin');
+      for (let i = 0; i < pageCount; i++) {
+        doc.insertPage(i, createCoverPage(doc, font, fontRef, entries.slice(i * ENTRIES_PER_PAGE, (i + 1) * ENTRIES_PER_PAGE)));
+      }
+    } finally {
+      font.destroy();
+    }
+
+    entries.forEach((entry, i) => {
+      const pageIndex = Math.floor(i / ENTRIES_PER_PAGE);
+      const y = getLineBaseline(i % ENTRIES_PER_PAGE);
+      const page = doc.loadPage(pageIndex);
+      try {
+        const attachment = page.createAnnotation('FileAttachment');
+        attachment.setRect([MARGIN - ICON_SIZE - 6, y - 2, MARGIN - 6, y - 2 + ICON_SIZE]);
+        attachment.setIcon('Paperclip');
+        attachment.setFileSpec(entry.fileSpec);
+        attachment.setContents(entry.name);
+        attachment.update();
+      } finally {
+        page.destroy();
+      }
+
+      if (entry.isPDF) {
+        const pageObj = doc.findPage(pageIndex);
+        const link = createEmbeddedLink(doc, [MARGIN, y - 4, PAGE_WIDTH - MARGIN, y + ENTRY_SIZE], entry.name);
+        pageObj.get('Annots').push(link);
+      }
+    });
+
+    const root = doc.getTrailer().get('Root');
+    // The cover is shown first, with the files in the attachments panel
+    const collection = doc.newDictionary();
+    collection.put('Type', doc.newName('Collection'));
+    collection.put('View', doc.newName('H'));
+    root.put('Collection', collection);
+    root.put('PageMode', doc.newName('UseAttachments'));
+
+    return doc;
+  } catch (e) {
+    doc.destroy();
+    throw e;
+  }
+}
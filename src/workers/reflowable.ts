@@ -0,0 +1,81 @@
+// Copyright © 2025 Anton Medvedev
+// SPDX‑License‑Identifier: AGPL‑3.0
+
+import * as mupdf from "mupdf/mupdfjs"
+import { PAPER_SIZES, type PaperSize } from "./images"
+
+// How documents without fixed pages (FictionBook, plain text) are laid out
+export interface ReflowSettings {
+  pageSize: PaperSize;
+  // Base font size in points
+  fontSize: number;
+}
+
+export const DEFAULT_REFLOW: ReflowSettings = { pageSize: 'a4', fontSize: 11 };
+
+// MuPDF document handlers for the reflowable formats, by the name they are registered under
+type ReflowableType = 'fb2' | 'txt';
+
+// Only the start of a file is looked at to tell its format
+const SNIFF_LENGTH = 4096;
+
+// Control characters other than tab, line feeds, form feed and escape do not appear in text
+function isText(data: Uint8Array): boolean {
+  for (const byte of data) {
+    if (byte < 0x09 || (byte > 0x0d && byte < 0x20 && byte !== 0x1b)) return false;
+  }
+  return true;
+}
+
+export function detectReflowableType(data: Uint8Array): ReflowableType | undefined {
+  const head = data.subarray(0, SNIFF_LENGTH);
+  const text = new TextDecoder('latin1').decode(head);
+  // PDF files may have some junk before their header, they are never text to convert
+  if (text.includes('%PDF-')) return undefined;
+  if (/<FictionBook[\s>]/.test(text)) return 'fb2';
+
+  // UTF-16 text starts with a byte order mark and has zero bytes, look no further
+  if (startsWithBOM(head)) return 'txt';
+  return isText(head) ? 'txt' : undefined;
+}
+
+function startsWithBOM(data: Uint8Array): boolean {
+  return (data[0] === 0xfe && data[1] === 0xff) || (data[0] === 0xff && data[1] === 0xfe);
+}
+
+// Lays out a FictionBook or plain text file on pages of the given size and draws
+// them into a PDF. Returns undefined when the data is in neither format.
+export function openReflowableDocument(buffer: ArrayBuffer, settings: ReflowSettings = DEFAULT_REFLOW): mupdf.PDFDocument | undefined {
+  const type = detectReflowableType(new Uint8Array(buffer));
+  if (!type) return undefined;
+
+  if (!(settings.fontSize > 0 && settings.fontSize <= 72)) {
+    throw new Error('Font size must be between 1 and 72 points');
+  }
+
+  const [width, height] = PAPER_SIZES[settings.pageSize] ?? PAPER_SIZES.a4;
+  const doc = mupdf.Document.openDocument(buffer, type);
+  const output = new mupdf.Buffer();
+  try {
+    doc.layout(width, height, settings.fontSize);
+
+    const writer = new mupdf.DocumentWriter(output, 'pdf', '');
+    for (let i = 0; i < doc.countPages(); i++) {
+      const page = doc.loadPage(i);
+      try {
+        const device = writer.beginPage(page.getBounds());
+        page.run(device, mupdf.Matrix.identity);
+        writer.endPage();
+      } finally {
+        page.destroy();
+      }
+    }
+    writer.close();
+    writer.destroy();
+
+    return mupdf.PDFDocument.openDocument(output.asUint8Array().slice(), 'application/pdf');
+  } finally {
+    output.destroy();
+    doc.destroy();
+  }
+}
@@ -0,0 +1,154 @@
+// Copyright © 2025 Anton Medvedev
+// SPDX‑License‑Identifier: AGPL‑3.0
+
+import * as mupdf from "mupdf/mupdfjs"
+
+// How many of each kind of hidden data were removed from a document
+export interface SanitizeReport {
+  // Document information entries and XMP metadata packets
+  metadata: number;
+  // Document scripts and JavaScript actions of links, fields and pages
+  javaScript: number;
+  // Actions run when the document opens, and additional actions of pages, fields and annotations
+  actions: number;
+  // Embedded files and file attachment annotations
+  embeddedFiles: number;
+  // Page thumbnail images
+  thumbnails: number;
+  // Private data applications store with pages and forms (PieceInfo)
+  privateData: number;
+}
+
+function isName(obj: mupdf.PDFObject, name: string): boolean {
+  return obj.isName() && obj.asName() === name;
+}
+
+function isJavaScript(action: mupdf.PDFObject): boolean {
+  return action.isDictionary() && isName(action.get('S'), 'JavaScript');
+}
+
+function countNameTree(doc: mupdf.PDFDocument, name: string): number {
+  try {
+    return Object.keys(doc.loadNameTree(name)).length;
+  } catch (e) {
+    console.warn(`Failed to read the ${name} name tree:`, e);
+    return 0;
+  }
+}
+
+// Removes hidden data from a dictionary and the dictionaries and arrays directly
+// inside it. Objects it still refers to are passed to visit, to be sanitized on their own.
+function sanitizeObject(obj: mupdf.PDFObject, report: SanitizeReport, visit: (ref: mupdf.PDFObject) => void) {
+  if (obj.isArray()) {
+    for (let i = 0; i < obj.length; i++) {
+      const item = obj.get(i);
+      if (item.isIndirect()) visit(item);
+      else sanitizeObject(item, report, visit);
+    }
+    return;
+  }
+  if (!obj.isDictionary()) return;
+
+  const removals: [string, keyof SanitizeReport][] = [
+    ['PieceInfo', 'privateData'],
+    ['Thumb', 'thumbnails'],
+    ['AA', 'actions'],
+    ['OpenAction', 'actions'],
+  ];
+  for (const [key, kind] of removals) {
+    if (!obj.get(key).isNull()) {
+      obj.delete(key);
+      report[kind]++;
+    }
+  }
+  if (obj.get('Metadata').isStream()) {
+    obj.delete('Metadata');
+    report.metadata++;
+  }
+  // Actions of links and fields, and actions chained after them, one or an array of them
+  for (const key of ['A', 'Next']) {
+    const action = obj.get(key);
+    if (isJavaScript(action)) {
+      obj.delete(key);
+      report.javaScript++;
+    } else if (key === 'Next' && action.isArray()) {
+      for (let i = action.length - 1; i >= 0; i--) {
+        if (isJavaScript(action.get(i))) {
+          action.delete(i);
+          report.javaScript++;
+        }
+      }
+      if (action.length === 0) obj.delete(key);
+    }
+  }
+
+  obj.forEach(value => {
+    if (value.isIndirect()) visit(value);
+    else sanitizeObject(value, report, visit);
+  });
+}
+
+// Removes metadata, scripts, embedded files, thumbnails and private application data.
+// The removed objects are left unreferenced, saving with garbage collection drops them.
+export function sanitizeDocument(doc: mupdf.PDFDocument): SanitizeReport {
+  const report: SanitizeReport = { metadata: 0, javaScript: 0, actions: 0, embeddedFiles: 0, thumbnails: 0, privateData: 0 };
+  const trailer = doc.getTrailer();
+  const root = trailer.get('Root');
+
+  const info = trailer.get('Info');
+  if (info.isDictionary()) {
+    info.forEach(() => report.metadata++);
+    trailer.delete('Info');
+  }
+
+  const names = root.get('Names');
+  if (names.isDictionary()) {
+    if (!names.get('JavaScript').isNull()) {
+      report.javaScript += countNameTree(doc, 'JavaScript');
+      names.delete('JavaScript');
+    }
+    if (!names.get('EmbeddedFiles').isNull()) {
+      report.embeddedFiles += countNameTree(doc, 'EmbeddedFiles');
+      names.delete('EmbeddedFiles');
+    }
+  }
+  // Files associated with the whole document, and how a portfolio shows them
+  const associatedFiles = root.get('AF');
+  if (associatedFiles.isArray()) report.embeddedFiles += associatedFiles.length;
+  root.delete('AF');
+  root.delete('Collection');
+
+  for (let i = 0; i < doc.countPages(); i++) {
+    const pageObj = doc.findPage(i);
+    const annots = pageObj.get('Annots');
+    if (!annots.isArray()) continue;
+    const kept = doc.newArray();
+    for (let j = 0; j < annots.length; j++) {
+      const annot = annots.get(j);
+      const parent = annot.get('Parent');
+      if (isName(annot.get('Subtype'), 'FileAttachment')) {
+        report.embeddedFiles++;
+      } else if (!parent.isDictionary() || !isName(parent.get('Subtype'), 'FileAttachment')) {
+        // Pop-up notes go together with their attachment
+        kept.push(annot);
+      }
+    }
+    if (kept.length < annots.length) pageObj.put('Annots', kept);
+  }
+
+  // Only objects reachable from the trailer are counted, saving drops the others anyway
+  const visited = new Set<number>();
+  const pending: mupdf.PDFObject[] = [];
+  const visit = (ref: mupdf.PDFObject) => {
+    const num = ref.asIndirect();
+    if (visited.has(num)) return;
+    visited.add(num);
+    pending.push(ref);
+  };
+  sanitizeObject(trailer, report, visit);
+  for (let ref = pending.pop(); ref; ref = pending.pop()) {
+    sanitizeObject(ref, report, visit);
+  }
+
+  return report;
+}
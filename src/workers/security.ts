@@ -0,0 +1,64 @@
+// Copyright © 2025 Anton Medvedev
+// SPDX‑License‑Identifier: AGPL‑3.0
+
+export type EncryptionMethod = 'aes-256' | 'aes-128' | 'rc4-128';
+
+// Actions viewers allow without the owner password
+export interface DocumentPermissions {
+  print: boolean;
+  copy: boolean;
+  modify: boolean;
+  annotate: boolean;
+  fillForms: boolean;
+  assemble: boolean;
+}
+
+export interface SecuritySettings {
+  // Needed to open the document, anyone can open it when empty
+  userPassword?: string;
+  // Needed to lift the permission restrictions
+  ownerPassword?: string;
+  method?: EncryptionMethod;
+  permissions?: Partial<DocumentPermissions>;
+}
+
+// Bits of the /P entry of the encryption dictionary (PDF 32000-1, table 22)
+const PERMISSION_BITS: Record<keyof DocumentPermissions, number> = {
+  // Printing at all and printing at full quality
+  print: (1 << 2) | (1 << 11),
+  modify: 1 << 3,
+  copy: 1 << 4,
+  annotate: 1 << 5,
+  fillForms: 1 << 8,
+  assemble: 1 << 10,
+};
+
+// The /P value, with bits 1 and 2 cleared and all other bits set unless forbidden.
+export function getPermissionFlags(permissions: Partial<DocumentPermissions> = {}): number {
+  let flags = ~3;
+  for (const [permission, bits] of Object.entries(PERMISSION_BITS)) {
+    if (permissions[permission as keyof DocumentPermissions] === false) flags &= ~bits;
+  }
+  return flags;
+}
+
+// MuPDF save options that encrypt the document. Options are separated by commas
+// without any escaping, so passwords cannot contain one.
+export function getEncryptionOptions(settings: SecuritySettings): string {
+  const userPassword = settings.userPassword ?? '';
+  const ownerPassword = settings.ownerPassword ?? '';
+  if (!userPassword && !ownerPassword) {
+    throw new Error('Set a user or owner password to encrypt the document');
+  }
+  if (userPassword.includes(',') || ownerPassword.includes(',')) {
+    throw new Error('Passwords cannot contain commas');
+  }
+
+  const options = [
+    `encrypt=${settings.method ?? 'aes-256'}`,
+    `permissions=${getPermissionFlags(settings.permissions)}`,
+  ];
+  if (userPassword) options.push(`user-password=${userPassword}`);
+  if (ownerPassword) options.push(`owner-password=${ownerPassword}`);
+  return options.join(',');
+}
@@ -0,0 +1,36 @@
+// Copyright © 2025 Anton Medvedev
+// SPDX‑License‑Identifier: AGPL‑3.0
+
+import * as mupdf from "mupdf/mupdfjs"
+import { fitText, measureText, toBytes, toPDFString, toWinAnsi } from "./page-overlay"
+
+// Pages put between merged files: a blank page, a page with the name of the next file,
+// or a blank page only where a file would otherwise start on an even page, so every
+// file starts on a fresh sheet when printed on both sides
+export type SeparatorMode = 'blank' | 'title' | 'odd-page';
+
+const TITLE_SIZE = 24;
+const MARGIN = 72;
+const FONT_RESOURCE = 'F1';
+
+// Creates a separator page of the given size, blank or with a title in its middle.
+// The page still has to be inserted into the document.
+export function createSeparatorPage(doc: mupdf.PDFDocument, [width, height]: [number, number], title?: string): mupdf.PDFObject {
+  if (title === undefined) return doc.addPage([0, 0, width, height], 0, {}, '');
+
+  const font = new mupdf.Font('Helvetica');
+  try {
+    const text = fitText(font, toWinAnsi(title), TITLE_SIZE, width - 2 * MARGIN);
+    const x = (width - measureText(font, text, TITLE_SIZE)) / 2;
+    const y = (height - TITLE_SIZE * 0.75) / 2;
+    const content = `0 g\nBT /${FONT_RESOURCE} ${TITLE_SIZE} Tf ${+x.toFixed(2)} ${+y.toFixed(2)} Td ${toPDFString(text)} Tj ET\n`;
+
+    const resources = doc.newDictionary();
+    const fonts = doc.newDictionary();
+    fonts.put(FONT_RESOURCE, doc.addSimpleFont(font, 'Latin'));
+    resources.put('Font', fonts);
+    return doc.addPage([0, 0, width, height], 0, resources, toBytes(content));
+  } finally {
+    font.destroy();
+  }
+}
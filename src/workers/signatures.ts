@@ -0,0 +1,148 @@
+// Copyright © 2025 Anton Medvedev
+// SPDX‑License‑Identifier: AGPL‑3.0
+
+import * as mupdf from "mupdf/mupdfjs"
+import { getPageWidgets, isWidget } from "./acroform"
+import { addPageResource, getContentStreams, setContentStreams, toBytes } from "./page-overlay"
+
+// Digital signatures of a document. Merging copies the pages into a new file,
+// none of them holds for the merged document.
+export interface SignatureInfo {
+  // Signature fields that have been signed
+  signatures: number;
+  // Certified, or granted usage rights by the application that created it (/Perms)
+  permissions: boolean;
+}
+
+// Names of the flattened appearances, unlikely to clash with existing resources
+const APPEARANCE_RESOURCE = 'MergeSignature';
+
+// Annotation flag of annotations that are not shown
+const HIDDEN_FLAG = 2;
+
+// Field type is inherited from parent fields
+function isSignatureField(field: mupdf.PDFObject): boolean {
+  const type = field.getInheritable('FT');
+  return type.isName() && type.asName() === 'Sig';
+}
+
+// Counts the signed signature fields with a widget on a page, the way viewers list them
+export function findSignatures(doc: mupdf.PDFDocument): SignatureInfo {
+  let signatures = 0;
+  for (let i = 0; i < doc.countPages(); i++) {
+    for (const widget of getPageWidgets(doc.findPage(i))) {
+      if (isSignatureField(widget) && widget.getInheritable('V').isDictionary()) signatures++;
+    }
+  }
+
+  const perms = doc.getTrailer().get('Root').get('Perms');
+  let permissions = false;
+  if (perms.isDictionary()) perms.forEach(() => permissions = true);
+
+  return { signatures, permissions };
+}
+
+// Normal appearance of the annotation in its current state, if it is shown
+function getAppearance(annot: mupdf.PDFObject): mupdf.PDFObject | undefined {
+  const flags = annot.get('F');
+  if (flags.isInteger() && (flags.asNumber() & HIDDEN_FLAG)) return undefined;
+
+  const ap = annot.get('AP');
+  if (!ap.isDictionary()) return undefined;
+  let normal = ap.get('N');
+  if (normal.isDictionary() && !normal.isStream()) {
+    const state = annot.get('AS');
+    normal = state.isName() ? normal.get(state.asName()) : mupdf.PDFObject.Null;
+  }
+  return normal.isStream() && normal.isIndirect() ? normal : undefined;
+}
+
+function getNumbers(array: mupdf.PDFObject, count: number): number[] | undefined {
+  if (!array.isArray() || array.length !== count) return undefined;
+  const numbers: number[] = [];
+  for (let i = 0; i < count; i++) {
+    if (!array.get(i).isNumber()) return undefined;
+    numbers.push(array.get(i).asNumber());
+  }
+  return numbers;
+}
+
+// Matrix that puts the appearance onto the annotation rectangle, as viewers draw it:
+// the bounding box, transformed by the appearance's own matrix, is fitted to the rectangle
+function getAppearanceMatrix(annot: mupdf.PDFObject, appearance: mupdf.PDFObject): number[] | undefined {
+  const rect = getNumbers(annot.get('Rect'), 4);
+  const bbox = getNumbers(appearance.get('BBox'), 4);
+  if (!rect || !bbox) return undefined;
+  const [a, b, c, d, e, f] = getNumbers(appearance.get('Matrix'), 6) ?? [1, 0, 0, 1, 0, 0];
+
+  const corners = [[bbox[0], bbox[1]], [bbox[2], bbox[1]], [bbox[0], bbox[3]], [bbox[2], bbox[3]]]
+    .map(([x, y]) => [a * x + c * y + e, b * x + d * y + f]);
+  const xs = corners.map(([x]) => x);
+  const ys = corners.map(([, y]) => y);
+  const [x0, y0, x1, y1] = [Math.min(...xs), Math.min(...ys), Math.max(...xs), Math.max(...ys)];
+  if (x1 <= x0 || y1 <= y0) return undefined;
+
+  const [left, bottom, right, top] = [Math.min(rect[0], rect[2]), Math.min(rect[1], rect[3]), Math.max(rect[0], rect[2]), Math.max(rect[1], rect[3])];
+  const sx = (right - left) / (x1 - x0);
+  const sy = (top - bottom) / (y1 - y0);
+  return [sx, 0, 0, sy, left - x0 * sx, bottom - y0 * sy].map(n => +n.toFixed(4));
+}
+
+// Drops signature fields from a list of fields, and from the kids of the fields kept
+function removeSignatureFields(doc: mupdf.PDFDocument, fields: mupdf.PDFObject, depth = 0): mupdf.PDFObject {
+  const kept = doc.newArray();
+  for (let i = 0; i < fields.length; i++) {
+    const field = fields.get(i);
+    if (isSignatureField(field)) continue;
+    const kids = field.get('Kids');
+    if (kids.isArray() && depth < 32) field.put('Kids', removeSignatureFields(doc, kids, depth + 1));
+    kept.push(field);
+  }
+  return kept;
+}
+
+// Draws the appearances of signature widgets into the page content and removes the
+// signature fields, so the merged document shows the signatures as they looked
+// without pretending to be signed. Returns the number of widgets flattened.
+export function flattenSignatures(doc: mupdf.PDFDocument): number {
+  let flattened = 0;
+  for (let i = 0; i < doc.countPages(); i++) {
+    const pageObj = doc.findPage(i);
+    const annots = pageObj.get('Annots');
+    if (!annots.isArray()) continue;
+
+    const kept = doc.newArray();
+    let content = '';
+    for (let j = 0; j < annots.length; j++) {
+      const annot = annots.get(j);
+      if (!isWidget(annot) || !isSignatureField(annot)) {
+        kept.push(annot);
+        continue;
+      }
+      flattened++;
+      const appearance = getAppearance(annot);
+      const matrix = appearance && getAppearanceMatrix(annot, appearance);
+      if (!appearance || !matrix) continue;
+      const name = `${APPEARANCE_RESOURCE}${j}`;
+      // Some producers leave out the subtype of appearance streams
+      if (appearance.get('Subtype').isNull()) appearance.put('Subtype', doc.newName('Form'));
+      addPageResource(doc, pageObj, 'XObject', name, appearance);
+      content += `q\n${matrix.join(' ')} cm\n/${name} Do\nQ\n`;
+    }
+    if (kept.length === annots.length) continue;
+
+    pageObj.put('Annots', kept);
+    if (content) {
+      // Existing content is wrapped in q/Q, so a transformation it leaves behind does not move the appearances
+      const existing = getContentStreams(pageObj);
+      setContentStreams(doc, pageObj, [doc.addStream(toBytes('q\n'), {}), ...existing, doc.addStream(toBytes(`Q\n${content}`), {})]);
+    }
+  }
+
+  const form = doc.getTrailer().get('Root').get('AcroForm');
+  if (form.isDictionary()) {
+    if (form.get('Fields').isArray()) form.put('Fields', removeSignatureFields(doc, form.get('Fields')));
+    form.delete('SigFlags');
+  }
+  return flattened;
+}
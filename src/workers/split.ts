@@ -0,0 +1,75 @@
+// Copyright © 2025 Anton Medvedev
+// SPDX‑License‑Identifier: AGPL‑3.0
+
+// How to split a document. Page indexes are 0-based.
+export type SplitMode =
+  // One part per list of pages
+  | { type: 'ranges'; ranges: number[][] }
+  // Consecutive parts of the same number of pages, the last one may be shorter
+  | { type: 'everyNPages'; pagesPerPart: number }
+  // A part starting at each top-level bookmark
+  | { type: 'bookmarks' }
+  // Parts of consecutive pages that stay below a file size, in bytes
+  | { type: 'fileSize'; maxBytes: number };
+
+export interface SplitPlanPart {
+  // Title of the top-level bookmark the part starts at, when split by bookmarks
+  title?: string;
+  pages: number[];
+}
+
+function pageRange(start: number, end: number): number[] {
+  return Array.from({ length: end - start }, (_, i) => start + i);
+}
+
+export function splitEveryNPages(pageCount: number, pagesPerPart: number): SplitPlanPart[] {
+  if (!Number.isInteger(pagesPerPart) || pagesPerPart < 1) {
+    throw new Error('Pages per part must be a positive whole number');
+  }
+  const parts: SplitPlanPart[] = [];
+  for (let start = 0; start < pageCount; start += pagesPerPart) {
+    parts.push({ pages: pageRange(start, Math.min(start + pagesPerPart, pageCount)) });
+  }
+  return parts;
+}
+
+// Starts a part at the first page of every bookmark. Pages before the first
+// bookmark make up a part of their own. Bookmarks on the same page share a part.
+export function splitAtBookmarks(pageCount: number, bookmarks: { title: string; page: number }[]): SplitPlanPart[] {
+  const starts = bookmarks
+    .filter(bookmark => bookmark.page >= 0 && bookmark.page < pageCount)
+    .sort((a, b) => a.page - b.page)
+    .filter((bookmark, i, sorted) => i === 0 || sorted[i - 1].page !== bookmark.page);
+  if (starts.length === 0) throw new Error('The document has no bookmarks to split at');
+
+  const parts: SplitPlanPart[] = [];
+  if (starts[0].page > 0) parts.push({ pages: pageRange(0, starts[0].page) });
+  starts.forEach((bookmark, i) => {
+    const end = i + 1 < starts.length ? starts[i + 1].page : pageCount;
+    parts.push({ title: bookmark.title, pages: pageRange(bookmark.page, end) });
+  });
+  return parts;
+}
+
+// Groups consecutive pages so that the sum of their sizes stays within maxBytes.
+// Page sizes are measured one page at a time, so resources shared between pages
+// are counted more than once and parts come out smaller than the estimate.
+// A page larger than maxBytes gets a part of its own.
+export function splitBySize(pageSizes: number[], maxBytes: number): SplitPlanPart[] {
+  if (!(maxBytes > 0)) throw new Error('Maximum file size must be positive');
+
+  const parts: SplitPlanPart[] = [];
+  let current: number[] = [];
+  let currentSize = 0;
+  pageSizes.forEach((size, page) => {
+    if (current.length > 0 && currentSize + size > maxBytes) {
+      parts.push({ pages: current });
+      current = [];
+      currentSize = 0;
+    }
+    current.push(page);
+    currentSize += size;
+  });
+  if (current.length > 0) parts.push({ pages: current });
+  return parts;
+}
@@ -0,0 +1,126 @@
+// Copyright © 2025 Anton Medvedev
+// SPDX‑License‑Identifier: AGPL‑3.0
+
+import * as mupdf from "mupdf/mupdfjs"
+import { addPageContent, addPageResource, getPageFrame, measureText, toPDFString, toWinAnsi } from "./page-overlay"
+
+export type StampPosition =
+  | 'top-left' | 'top-center' | 'top-right'
+  | 'bottom-left' | 'bottom-center' | 'bottom-right';
+
+// A line of text stamped onto every merged page, like "Page {page} of {total}"
+// or a Bates number "ACME-{page:6}".
+// Tokens: {page} merged page number, {total} number of the last page,
+// {file} source file name, {filepage} page number in the source file, {date} today.
+// A width after a number token pads it with zeros: {page:6} is 000123.
+export interface PageStamp {
+  template: string;
+  position: StampPosition;
+  // In points
+  fontSize: number;
+  // Distance from the page edges in points
+  margin: number;
+  // Number of the first merged page
+  startNumber: number;
+}
+
+// Where a merged page came from
+export interface StampSource {
+  fileName: string;
+  // 0-based page index in the source file
+  pageIndex: number;
+}
+
+interface StampValues {
+  page: number;
+  total: number;
+  file: string;
+  filepage: number;
+  date: string;
+}
+
+const TOKEN = /\{(page|total|file|filepage|date)(?::(\d{1,2}))?\}/g;
+
+// Name of the stamp font in page resources, unlikely to clash with existing fonts
+const FONT_RESOURCE = 'MergeStampFont';
+
+// Helvetica is one of the standard fonts every viewer has, so nothing is embedded
+const FONT_NAME = 'Helvetica';
+
+export const STAMP_ERROR = 'StampError';
+
+// Thrown for stamp settings that cannot be applied
+export class StampError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = STAMP_ERROR;
+  }
+}
+
+export function formatStamp(template: string, values: StampValues): string {
+  return template.replace(TOKEN, (_, token: keyof StampValues, width?: string) => {
+    const value = values[token];
+    return typeof value === 'number' && width ? String(value).padStart(Number(width), '0') : String(value);
+  });
+}
+
+// Local date as YYYY-MM-DD
+function formatDate(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function validateStamp(stamp: PageStamp) {
+  if (!(stamp.fontSize > 0 && stamp.fontSize <= 72)) {
+    throw new StampError('Stamp font size must be between 1 and 72 points');
+  }
+  if (!(stamp.margin >= 0)) {
+    throw new StampError('Stamp margin cannot be negative');
+  }
+  if (!Number.isInteger(stamp.startNumber) || stamp.startNumber < 0) {
+    throw new StampError('Stamp start number must be a whole number');
+  }
+}
+
+// Stamps text onto every page of the document. Sources list where each page came from, in page order.
+// The stamp is placed upright in the visible area of the page, whatever its rotation.
+export function stampPages(doc: mupdf.PDFDocument, stamps: PageStamp[], sources: StampSource[], date = new Date()) {
+  stamps.forEach(validateStamp);
+  if (stamps.length === 0) return;
+
+  const font = new mupdf.Font(FONT_NAME);
+  try {
+    const fontRef = doc.addSimpleFont(font, 'Latin');
+    const pageCount = doc.countPages();
+
+    for (let i = 0; i < pageCount; i++) {
+      const pageObj = doc.findPage(i);
+      const source = sources[i] ?? { fileName: '', pageIndex: i };
+      const { width, height } = getPageFrame(pageObj);
+
+      let content = '0 g\n';
+      for (const stamp of stamps) {
+        const text = toWinAnsi(formatStamp(stamp.template, {
+          page: stamp.startNumber + i,
+          total: stamp.startNumber + pageCount - 1,
+          file: source.fileName,
+          filepage: source.pageIndex + 1,
+          date: formatDate(date),
+        }));
+        const textWidth = measureText(font, text, stamp.fontSize);
+        const [vertical, horizontal] = stamp.position.split('-');
+        const x = horizontal === 'left' ? stamp.margin
+          : horizontal === 'right' ? width - stamp.margin - textWidth
+          : (width - textWidth) / 2;
+        // The baseline sits at the margin, or a cap height below it at the top
+        const y = vertical === 'top' ? height - stamp.margin - stamp.fontSize * 0.75 : stamp.margin;
+        content += `BT /${FONT_RESOURCE} ${stamp.fontSize} Tf ${+x.toFixed(2)} ${+y.toFixed(2)} Td ${toPDFString(text)} Tj ET\n`;
+      }
+
+      addPageResource(doc, pageObj, 'Font', FONT_RESOURCE, fontRef);
+      addPageContent(doc, pageObj, content, 'over');
+    }
+  } finally {
+    font.destroy();
+  }
+}
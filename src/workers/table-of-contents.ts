@@ -0,0 +1,102 @@
+// Copyright © 2025 Anton Medvedev
+// SPDX‑License‑Identifier: AGPL‑3.0
+
+import * as mupdf from "mupdf/mupdfjs"
+import { PAPER_SIZES } from "./images"
+import { fitText, measureText, toBytes, toPDFString, toWinAnsi } from "./page-overlay"
+
+// A merged file listed in the table of contents
+export interface TocEntry {
+  title: string;
+  // 0-based index of its first page, not counting the table of contents
+  pageIndex: number;
+}
+
+const [PAGE_WIDTH, PAGE_HEIGHT] = PAPER_SIZES.a4;
+const MARGIN = 72;
+const HEADING = 'Contents';
+const HEADING_SIZE = 20;
+const ENTRY_SIZE = 12;
+const LINE_HEIGHT = 20;
+// Room for the page numbers on the right
+const NUMBER_WIDTH = 48;
+
+const FONT_RESOURCE = 'F1';
+
+// Every page repeats the heading, with entries below it
+const ENTRIES_PER_PAGE = Math.floor((PAGE_HEIGHT - 2 * MARGIN - 2 * HEADING_SIZE) / LINE_HEIGHT);
+
+// Baseline of the entry in the given line of a page
+function getLineBaseline(line: number): number {
+  return PAGE_HEIGHT - MARGIN - 2 * HEADING_SIZE - (line + 1) * LINE_HEIGHT;
+}
+
+function createTocPage(doc: mupdf.PDFDocument, font: mupdf.Font, fontRef: mupdf.PDFObject, entries: TocEntry[], tocPageCount: number): mupdf.PDFObject {
+  let content = `0 g\nBT /${FONT_RESOURCE} ${HEADING_SIZE} Tf ${MARGIN} ${PAGE_HEIGHT - MARGIN - HEADING_SIZE} Td ${toPDFString(HEADING)} Tj ET\n`;
+
+  entries.forEach((entry, line) => {
+    const y = getLineBaseline(line);
+    const number = toWinAnsi(String(entry.pageIndex + tocPageCount + 1));
+    const numberWidth = measureText(font, number, ENTRY_SIZE);
+    const title = fitText(font, toWinAnsi(entry.title), ENTRY_SIZE, PAGE_WIDTH - 2 * MARGIN - NUMBER_WIDTH);
+    const titleWidth = measureText(font, title, ENTRY_SIZE);
+
+    // Dot leader from the title to the page number
+    const dotWidth = measureText(font, ' .', ENTRY_SIZE);
+    const leaderStart = MARGIN + titleWidth + dotWidth;
+    const dots = Math.max(0, Math.floor((PAGE_WIDTH - MARGIN - numberWidth - dotWidth - leaderStart) / dotWidth));
+
+    content += `BT /${FONT_RESOURCE} ${ENTRY_SIZE} Tf ${MARGIN} ${y} Td ${toPDFString(title)} Tj ET\n`;
+    if (dots > 0) {
+      content += `BT /${FONT_RESOURCE} ${ENTRY_SIZE} Tf ${+leaderStart.toFixed(2)} ${y} Td ${toPDFString(' .'.repeat(dots))} Tj ET\n`;
+    }
+    content += `BT /${FONT_RESOURCE} ${ENTRY_SIZE} Tf ${+(PAGE_WIDTH - MARGIN - numberWidth).toFixed(2)} ${y} Td ${toPDFString(number)} Tj ET\n`;
+  });
+
+  const resources = doc.newDictionary();
+  const fonts = doc.newDictionary();
+  fonts.put(FONT_RESOURCE, fontRef);
+  resources.put('Font', fonts);
+  return doc.addPage([0, 0, PAGE_WIDTH, PAGE_HEIGHT], 0, resources, toBytes(content));
+}
+
+// Inserts pages listing the entries with their page numbers at the front of the document.
+// Each entry links to its first page. Links and bookmarks of the document point to page
+// objects, so they keep their targets as the pages move back.
+// With evenPageCount a blank page follows an odd number of contents pages, so the
+// document still starts on an odd page. Returns the number of pages inserted.
+export function insertTableOfContents(doc: mupdf.PDFDocument, entries: TocEntry[], evenPageCount = false): number {
+  if (entries.length === 0) return 0;
+
+  const pageCount = Math.ceil(entries.length / ENTRIES_PER_PAGE);
+  const insertedCount = evenPageCount && pageCount % 2 === 1 ? pageCount + 1 : pageCount;
+  const font = new mupdf.Font('Helvetica');
+  try {
+    const fontRef = doc.addSimpleFont(font, 'Latin');
+    for (let i = 0; i < pageCount; i++) {
+      const pageEntries = entries.slice(i * ENTRIES_PER_PAGE, (i + 1) * ENTRIES_PER_PAGE);
+      doc.insertPage(i, createTocPage(doc, font, fontRef, pageEntries, insertedCount));
+    }
+    if (insertedCount > pageCount) {
+      doc.insertPage(pageCount, doc.addPage([0, 0, PAGE_WIDTH, PAGE_HEIGHT], 0, {}, ''));
+    }
+  } finally {
+    font.destroy();
+  }
+
+  entries.forEach((entry, i) => {
+    const page = doc.loadPage(Math.floor(i / ENTRIES_PER_PAGE));
+    try {
+      // Link areas are in page space with the origin at the top left
+      const y = PAGE_HEIGHT - getLineBaseline(i % ENTRIES_PER_PAGE) - ENTRY_SIZE;
+      page.insertLink(
+        { x: MARGIN, y, width: PAGE_WIDTH - 2 * MARGIN, height: ENTRY_SIZE + 4 },
+        `#page=${entry.pageIndex + insertedCount + 1}`
+      );
+    } finally {
+      page.destroy();
+    }
+  });
+
+  return insertedCount;
+}
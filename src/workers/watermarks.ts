@@ -0,0 +1,189 @@
+// Copyright © 2025 Anton Medvedev
+// SPDX‑License‑Identifier: AGPL‑3.0
+
+import * as mupdf from "mupdf/mupdfjs"
+import { detectImageType } from "./images"
+import {
+  addPageContent,
+  addPageResource,
+  getPageFrame,
+  measureText,
+  toPDFString,
+  toWinAnsi,
+  type PageFrame,
+  type PageLayer,
+} from "./page-overlay"
+
+export type WatermarkPosition =
+  | 'top-left' | 'top-center' | 'top-right'
+  | 'center-left' | 'center' | 'center-right'
+  | 'bottom-left' | 'bottom-center' | 'bottom-right';
+
+export type WatermarkContent =
+  | { type: 'text'; text: string; fontSize: number }
+  // A PNG or JPEG image, as wide as the given share of the page width in percent
+  | { type: 'image'; data: ArrayBuffer; width: number };
+
+export interface Watermark {
+  content: WatermarkContent;
+  // From 0 (invisible) to 1 (opaque)
+  opacity: number;
+  // Counterclockwise, in degrees
+  angle: number;
+  position: WatermarkPosition;
+  // Repeat the watermark over the whole page, starting from its position
+  tile: boolean;
+  layer: PageLayer;
+}
+
+// Names of the watermark resources, unlikely to clash with existing ones
+const FONT_RESOURCE = 'MergeWatermarkFont';
+const IMAGE_RESOURCE = 'MergeWatermarkImage';
+const STATE_RESOURCE = 'MergeWatermarkState';
+
+// Distance from the page edges, and between tiles, in points
+const MARGIN = 36;
+const TILE_GAP = 48;
+
+// Tiles per page, in case a tiny watermark goes on a huge page
+const MAX_TILES = 1000;
+
+// Text watermarks are drawn in a mid gray, visible on white and dark content alike
+const TEXT_GRAY = 0.5;
+
+export const WATERMARK_ERROR = 'WatermarkError';
+
+// Thrown for watermark settings or images that cannot be used
+export class WatermarkError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = WATERMARK_ERROR;
+  }
+}
+
+// What is drawn for one watermark, centered on the origin
+interface WatermarkShape {
+  width: number;
+  height: number;
+  content: string;
+}
+
+function validateWatermark(watermark: Watermark) {
+  if (!(watermark.opacity >= 0 && watermark.opacity <= 1)) {
+    throw new WatermarkError('Watermark opacity must be between 0 and 100 percent');
+  }
+  if (!Number.isFinite(watermark.angle)) {
+    throw new WatermarkError('Watermark angle must be a number');
+  }
+  const { content } = watermark;
+  if (content.type === 'text') {
+    if (!content.text.trim()) throw new WatermarkError('Watermark text is empty');
+    if (!(content.fontSize > 0 && content.fontSize <= 500)) {
+      throw new WatermarkError('Watermark font size must be between 1 and 500 points');
+    }
+  } else if (!(content.width > 0 && content.width <= 100)) {
+    throw new WatermarkError('Watermark image width must be between 1 and 100 percent of the page');
+  }
+}
+
+// Centers of the watermarks on a page of the given frame
+function getAnchors(frame: PageFrame, watermark: Watermark, width: number, height: number): [number, number][] {
+  // Size of the box around the turned watermark
+  const angle = watermark.angle * Math.PI / 180;
+  const boxWidth = Math.abs(width * Math.cos(angle)) + Math.abs(height * Math.sin(angle));
+  const boxHeight = Math.abs(width * Math.sin(angle)) + Math.abs(height * Math.cos(angle));
+
+  const [vertical, horizontal = vertical] = watermark.position.split('-');
+  const x = horizontal === 'left' ? MARGIN + boxWidth / 2
+    : horizontal === 'right' ? frame.width - MARGIN - boxWidth / 2
+    : frame.width / 2;
+  const y = vertical === 'bottom' ? MARGIN + boxHeight / 2
+    : vertical === 'top' ? frame.height - MARGIN - boxHeight / 2
+    : frame.height / 2;
+  if (!watermark.tile) return [[x, y]];
+
+  // Rows and columns through the position that cover the whole page
+  const spread = (start: number, step: number, size: number, length: number) => {
+    const first = start - Math.ceil((start + size / 2) / step) * step;
+    const values: number[] = [];
+    for (let value = first; value - size / 2 < length; value += step) {
+      if (value + size / 2 > 0) values.push(value);
+    }
+    return values;
+  };
+  const columns = spread(x, boxWidth + TILE_GAP, boxWidth, frame.width);
+  const rows = spread(y, boxHeight + TILE_GAP, boxHeight, frame.height);
+  return rows.flatMap(row => columns.map((column): [number, number] => [column, row])).slice(0, MAX_TILES);
+}
+
+function toNumber(n: number): number {
+  return +n.toFixed(4);
+}
+
+// Draws a watermark onto the given pages, or all pages. Watermarks are placed upright
+// in the visible area of each page, whatever its rotation.
+export function watermarkPages(doc: mupdf.PDFDocument, watermark: Watermark, pageIndexes?: number[]) {
+  validateWatermark(watermark);
+  const { content } = watermark;
+
+  const state = doc.addObject(doc.newDictionary());
+  state.put('Type', doc.newName('ExtGState'));
+  state.put('ca', watermark.opacity);
+  state.put('CA', watermark.opacity);
+
+  let font: mupdf.Font | undefined;
+  let image: mupdf.Image | undefined;
+  try {
+    let resource: ['Font' | 'XObject', string, mupdf.PDFObject];
+    let getShape: (frame: PageFrame) => WatermarkShape;
+    if (content.type === 'text') {
+      font = new mupdf.Font('Helvetica');
+      const text = toWinAnsi(content.text);
+      const width = measureText(font, text, content.fontSize);
+      // Centered on the cap height, the descenders stick out a little
+      const height = content.fontSize * 0.75;
+      resource = ['Font', FONT_RESOURCE, doc.addSimpleFont(font, 'Latin')];
+      getShape = () => ({
+        width,
+        height,
+        content: `${TEXT_GRAY} g BT /${FONT_RESOURCE} ${content.fontSize} Tf ${toNumber(-width / 2)} ${toNumber(-height / 2)} Td ${toPDFString(text)} Tj ET`,
+      });
+    } else {
+      const data = new Uint8Array(content.data);
+      const type = detectImageType(data);
+      if (type !== 'png' && type !== 'jpeg') throw new WatermarkError('Watermark image must be a PNG or JPEG file');
+      image = new mupdf.Image(data);
+      const aspect = image.getHeight() / image.getWidth();
+      resource = ['XObject', IMAGE_RESOURCE, doc.addImage(image)];
+      getShape = frame => {
+        const width = frame.width * content.width / 100;
+        const height = width * aspect;
+        return {
+          width,
+          height,
+          content: `${toNumber(width)} 0 0 ${toNumber(height)} ${toNumber(-width / 2)} ${toNumber(-height / 2)} cm /${IMAGE_RESOURCE} Do`,
+        };
+      };
+    }
+
+    const angle = watermark.angle * Math.PI / 180;
+    const [cos, sin] = [Math.cos(angle), Math.sin(angle)].map(toNumber);
+    for (const i of pageIndexes ?? Array.from({ length: doc.countPages() }, (_, i) => i)) {
+      const pageObj = doc.findPage(i);
+      const frame = getPageFrame(pageObj);
+      const shape = getShape(frame);
+
+      let pageContent = `/${STATE_RESOURCE} gs\n`;
+      for (const [x, y] of getAnchors(frame, watermark, shape.width, shape.height)) {
+        pageContent += `q ${cos} ${sin} ${-sin} ${cos} ${toNumber(x)} ${toNumber(y)} cm ${shape.content} Q\n`;
+      }
+
+      addPageResource(doc, pageObj, 'ExtGState', STATE_RESOURCE, state);
+      addPageResource(doc, pageObj, ...resource);
+      addPageContent(doc, pageObj, pageContent, watermark.layer);
+    }
+  } finally {
+    font?.destroy();
+    image?.destroy();
+  }
+}
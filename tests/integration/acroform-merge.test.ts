@@ -0,0 +1,137 @@
+import { describe, it, expect, beforeAll, vi } from 'vitest'
+import { readFile } from 'fs/promises'
+import * as mupdf from 'mupdf/mupdfjs'
+
+// Mock postMessage for worker environment
+global.postMessage = vi.fn(() => {}) as typeof postMessage
+
+import { MupdfWorker } from '../../src/workers/mupdf.worker'
+import { getFieldNames } from '../../src/workers/acroform'
+
+/**
+ * AcroForm Merge Tests
+ *
+ * These tests verify that merged documents get a real /AcroForm whose field
+ * tree references the widgets on the merged pages, and that field name
+ * collisions between inputs are detected and can be resolved by prefixing.
+ */
+
+describe('AcroForm Merge Tests', () => {
+  let worker: MupdfWorker
+  let testFixtures: Record<string, ArrayBuffer>
+
+  beforeAll(async () => {
+    worker = new MupdfWorker()
+
+    const fixtures = [
+      'test_document.pdf',      // No form
+      'form_document_fixed.pdf' // 6 fields, 7 widgets over 2 pages
+    ]
+
+    testFixtures = {}
+    for (const fixture of fixtures) {
+      const buffer = await readFile(`./tests/fixtures/${fixture}`)
+      const arrayBuffer = new ArrayBuffer(buffer.length)
+      const uint8View = new Uint8Array(arrayBuffer)
+      uint8View.set(buffer)
+      testFixtures[fixture.replace('.pdf', '')] = arrayBuffer
+    }
+  })
+
+  // Collects the object numbers of all widgets reachable from the /Fields tree
+  function collectFieldWidgets(field: mupdf.PDFObject, widgets: Set<number>) {
+    if (field.get('Subtype').isName() && field.get('Subtype').asName() === 'Widget') {
+      widgets.add(field.asIndirect())
+    }
+    const kids = field.get('Kids')
+    if (kids.isArray()) {
+      for (let i = 0; i < kids.length; i++) collectFieldWidgets(kids.get(i), widgets)
+    }
+  }
+
+  it('should build a merged AcroForm with fields, resources and NeedAppearances', async () => {
+    const merged = await worker.mergeDocuments([testFixtures.test_document, testFixtures.form_document_fixed])
+
+    const doc = mupdf.PDFDocument.openDocument(merged, 'application/pdf')
+    const form = doc.getTrailer().get('Root').get('AcroForm')
+
+    expect(form.isDictionary()).toBe(true)
+    expect(form.get('Fields').length).toBe(6)
+    expect(form.get('DR').isDictionary()).toBe(true)
+    expect(form.get('NeedAppearances').asBoolean()).toBe(true)
+
+    // Every widget on the merged pages must be part of the field tree
+    const fieldWidgets = new Set<number>()
+    for (let i = 0; i < form.get('Fields').length; i++) {
+      collectFieldWidgets(form.get('Fields').get(i), fieldWidgets)
+    }
+
+    let pageWidgets = 0
+    for (let i = 0; i < doc.countPages(); i++) {
+      for (const widget of doc.loadPage(i).getWidgets()) {
+        pageWidgets++
+        expect(fieldWidgets.has(widget.getObject().asIndirect())).toBe(true)
+      }
+    }
+
+    expect(pageWidgets).toBe(7)
+    doc.destroy()
+  })
+
+  it('should not create an AcroForm when no input has a form', async () => {
+    const merged = await worker.mergeDocuments([testFixtures.test_document])
+
+    const doc = mupdf.PDFDocument.openDocument(merged, 'application/pdf')
+    expect(doc.getTrailer().get('Root').get('AcroForm').isNull()).toBe(true)
+    doc.destroy()
+  })
+
+  it('should report field names shared between inputs', async () => {
+    const collisions = await worker.findFieldNameCollisions([
+      testFixtures.form_document_fixed,
+      testFixtures.test_document,
+      testFixtures.form_document_fixed
+    ])
+
+    expect(collisions.map(c => c.name).sort()).toEqual(
+      ['comments', 'country', 'email', 'gender', 'name', 'subscribe']
+    )
+    collisions.forEach(collision => expect(collision.docIndexes).toEqual([0, 2]))
+
+    const noCollisions = await worker.findFieldNameCollisions([
+      testFixtures.form_document_fixed,
+      testFixtures.test_document
+    ])
+    expect(noCollisions).toEqual([])
+  })
+
+  it('should prefix colliding fields when renaming is requested', async () => {
+    const merged = await worker.mergeDocuments(
+      [testFixtures.form_document_fixed, testFixtures.form_document_fixed],
+      { renameCollidingFields: true }
+    )
+
+    const doc = mupdf.PDFDocument.openDocument(merged, 'application/pdf')
+    const names = getFieldNames(doc)
+
+    expect(names.size).toBe(12)
+    expect(names.has('name')).toBe(true)
+    expect(names.has('doc2.name')).toBe(true)
+    expect(names.has('doc2.gender')).toBe(true)
+
+    let widgets = 0
+    for (let i = 0; i < doc.countPages(); i++) widgets += doc.loadPage(i).getWidgets().length
+    expect(widgets).toBe(14)
+
+    doc.destroy()
+  })
+
+  it('should keep colliding names when renaming is not requested', async () => {
+    const merged = await worker.mergeDocuments([testFixtures.form_document_fixed, testFixtures.form_document_fixed])
+
+    const doc = mupdf.PDFDocument.openDocument(merged, 'application/pdf')
+    expect(doc.getTrailer().get('Root').get('AcroForm').get('Fields').length).toBe(12)
+    expect(getFieldNames(doc).size).toBe(6)
+    doc.destroy()
+  })
+})
@@ -0,0 +1,82 @@
+import { describe, it, expect, beforeAll, vi } from 'vitest'
+import * as mupdf from 'mupdf/mupdfjs'
+
+// Mock postMessage for worker environment
+global.postMessage = vi.fn(() => {}) as typeof postMessage
+
+import { MupdfWorker } from '../../src/workers/mupdf.worker'
+
+/**
+ * Attachments Tests
+ *
+ * These tests verify that the embedded files and file attachment annotations
+ * of every merged file are kept, and that names taken twice get a number.
+ */
+
+describe('Attachments Tests', () => {
+  let worker: MupdfWorker
+
+  function toArrayBuffer(doc: mupdf.PDFDocument): ArrayBuffer {
+    return doc.saveToBuffer('').asUint8Array().slice().buffer
+  }
+
+  function readEmbeddedFile(doc: mupdf.PDFDocument, fileSpec: mupdf.PDFObject): string | undefined {
+    return doc.getEmbeddedFileContents(fileSpec)?.asString()
+  }
+
+  // An invoice with its XML attached, as e-invoices carry it
+  function createInvoice(xml: string): ArrayBuffer {
+    const doc = new mupdf.PDFDocument()
+    doc.insertPage(0, doc.addPage([0, 0, 595, 842], 0, {}, ''))
+    doc.insertEmbeddedFile('factur-x.xml', doc.addEmbeddedFile('factur-x.xml', 'text/xml', xml, new Date(), new Date()))
+    return toArrayBuffer(doc)
+  }
+
+  function createAnnotatedDocument(): ArrayBuffer {
+    const doc = new mupdf.PDFDocument()
+    doc.insertPage(0, doc.addPage([0, 0, 595, 842], 0, {}, ''))
+    const attachment = doc.loadPage(0).createAnnotation('FileAttachment')
+    attachment.setRect([200, 200, 220, 220])
+    attachment.setFileSpec(doc.addEmbeddedFile('scan.txt', 'text/plain', 'scanned text', new Date(), new Date()))
+    attachment.update()
+    return toArrayBuffer(doc)
+  }
+
+  beforeAll(() => {
+    worker = new MupdfWorker()
+  })
+
+  it('should keep the embedded files of every document and number repeated names', async () => {
+    const merged = await worker.mergeDocuments([createInvoice('<invoice>1</invoice>'), createInvoice('<invoice>2</invoice>')])
+
+    const doc = mupdf.PDFDocument.openDocument(merged, 'application/pdf') as mupdf.PDFDocument
+    const files = doc.getEmbeddedFiles()
+    expect(Object.keys(files).sort()).toEqual(['factur-x (2).xml', 'factur-x.xml'])
+    expect(readEmbeddedFile(doc, files['factur-x.xml'])).toBe('<invoice>1</invoice>')
+    expect(readEmbeddedFile(doc, files['factur-x (2).xml'])).toBe('<invoice>2</invoice>')
+    expect(files['factur-x (2).xml'].get('UF').asString()).toBe('factur-x (2).xml')
+    doc.destroy()
+  })
+
+  it('should keep the files of file attachment annotations', async () => {
+    const merged = await worker.mergeDocuments([createInvoice('<invoice/>'), createAnnotatedDocument()])
+
+    const doc = mupdf.PDFDocument.openDocument(merged, 'application/pdf') as mupdf.PDFDocument
+    const attachment = doc.loadPage(1).getAnnotations().find(annot => annot.getType() === 'FileAttachment')
+    expect(attachment).toBeDefined()
+    const fileSpec = attachment!.getObject().get('FS')
+    expect(readEmbeddedFile(doc, fileSpec)).toBe('scanned text')
+    doc.destroy()
+  })
+
+  it('should list the embedded files of a document', async () => {
+    const merged = await worker.mergeDocuments([createInvoice('<invoice/>'), createInvoice('<invoice/>')])
+
+    const files = await worker.listEmbeddedFiles(merged)
+    expect(files).toHaveLength(2)
+    expect(files).toEqual(expect.arrayContaining([
+      { name: 'factur-x.xml', mimeType: 'text/xml', size: 10 },
+      { name: 'factur-x (2).xml', mimeType: 'text/xml', size: 10 },
+    ]))
+  })
+})
@@ -0,0 +1,100 @@
+import { describe, it, expect, beforeAll, vi } from 'vitest'
+import { readFile } from 'fs/promises'
+import * as mupdf from 'mupdf/mupdfjs'
+
+// Mock postMessage for worker environment
+global.postMessage = vi.fn(() => {}) as typeof postMessage
+
+import { ALL_PAGES_BLANK_ERROR, MupdfWorker } from '../../src/workers/mupdf.worker'
+
+/**
+ * Blank Page Tests
+ *
+ * These tests verify that pages without text (like scanned covers) survive
+ * merging, and that blank pages are only removed when asked for.
+ */
+
+describe('Blank Page Tests', () => {
+  let worker: MupdfWorker
+  let testFixtures: Record<string, ArrayBuffer>
+
+  // Builds a document with one page per content stream, no text on any of them
+  function createDocument(contents: string[]): ArrayBuffer {
+    const doc = new mupdf.PDFDocument()
+    for (const content of contents) {
+      doc.insertPage(-1, doc.addPage([0, 0, 595, 842], 0, {}, content))
+    }
+    const buffer = doc.saveToBuffer('').asUint8Array().slice().buffer
+    doc.destroy()
+    return buffer
+  }
+
+  beforeAll(async () => {
+    worker = new MupdfWorker()
+
+    const buffer = await readFile('./tests/fixtures/test_document.pdf')
+    const arrayBuffer = new ArrayBuffer(buffer.length)
+    new Uint8Array(arrayBuffer).set(buffer)
+    testFixtures = { test_document: arrayBuffer }
+
+    const picture = '0.2 g 50 50 495 742 re f'
+    const dust = '0 g 100 700 2 2 re f 400 200 2 2 re f'
+    testFixtures.scanned = createDocument([picture, picture])
+    testFixtures.with_blanks = createDocument([picture, '', dust, picture])
+  })
+
+  it('should keep a first page without text', async () => {
+    const merged = await worker.mergeDocuments([testFixtures.scanned, testFixtures.test_document])
+
+    const doc = mupdf.PDFDocument.openDocument(merged, 'application/pdf')
+    expect(doc.countPages()).toBe(5)
+    expect(doc.loadPage(0).getText().trim()).toBe('')
+    doc.destroy()
+  })
+
+  it('should keep blank pages by default', async () => {
+    const merged = await worker.mergeDocuments([testFixtures.with_blanks])
+
+    const doc = mupdf.PDFDocument.openDocument(merged, 'application/pdf')
+    expect(doc.countPages()).toBe(4)
+    doc.destroy()
+  })
+
+  it('should remove pages below the threshold', async () => {
+    const strict = await worker.mergeDocuments([testFixtures.with_blanks], { removeBlankPages: { threshold: 0 } })
+    const lenient = await worker.mergeDocuments([testFixtures.with_blanks], { removeBlankPages: { threshold: 0.1 } })
+
+    const strictDoc = mupdf.PDFDocument.openDocument(strict, 'application/pdf')
+    const lenientDoc = mupdf.PDFDocument.openDocument(lenient, 'application/pdf')
+
+    // The page with a few specks of dust only counts as blank with some slack
+    expect(strictDoc.countPages()).toBe(3)
+    expect(lenientDoc.countPages()).toBe(2)
+
+    strictDoc.destroy()
+    lenientDoc.destroy()
+  })
+
+  it('should remove blank pages across all inputs and remap bookmarks', async () => {
+    const merged = await worker.mergeDocuments(
+      [testFixtures.with_blanks, testFixtures.test_document, testFixtures.with_blanks],
+      { removeBlankPages: { threshold: 0.1 } }
+    )
+
+    const doc = mupdf.PDFDocument.openDocument(merged, 'application/pdf')
+    expect(doc.countPages()).toBe(7)
+
+    // test_document starts right after the two remaining pages of the first file
+    const outline = doc.loadOutline()!
+    expect(outline.map(item => item.page)).toEqual([0, 2, 5])
+    doc.destroy()
+  })
+
+  it('should reject a merge where every page is blank', async () => {
+    const blank = createDocument(['', ''])
+    await expect(worker.mergeDocuments([blank], { removeBlankPages: { threshold: 0.1 } }))
+      .rejects.toThrow('All pages are blank')
+    await expect(worker.mergeDocuments([blank], { removeBlankPages: { threshold: 0.1 } }))
+      .rejects.toHaveProperty('name', ALL_PAGES_BLANK_ERROR)
+  })
+})
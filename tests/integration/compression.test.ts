@@ -0,0 +1,93 @@
+import { describe, it, expect, beforeAll, vi } from 'vitest'
+import * as mupdf from 'mupdf/mupdfjs'
+
+// Mock postMessage for worker environment
+global.postMessage = vi.fn(() => {}) as typeof postMessage
+
+import { MupdfWorker } from '../../src/workers/mupdf.worker'
+
+/**
+ * Compression Preset Tests
+ *
+ * These tests verify that the lossless preset leaves images untouched, and
+ * that lossy presets downsample and recompress images to the preset resolution.
+ */
+
+describe('Compression Preset Tests', () => {
+  let worker: MupdfWorker
+  let imageDocument: ArrayBuffer
+
+  beforeAll(() => {
+    worker = new MupdfWorker()
+
+    // A 200x260pt page filled with a 1000x1300px RGB image (360 dpi)
+    const pixmap = new mupdf.Pixmap(mupdf.ColorSpace.DeviceRGB, [0, 0, 1000, 1300], false)
+    const pixels = pixmap.getPixels()
+    // Pseudo-random noise, so flate can't shrink it below the recompressed JPEG
+    let seed = 1
+    for (let i = 0; i < pixels.length; i++) {
+      seed ^= seed << 13
+      seed ^= seed >>> 17
+      seed ^= seed << 5
+      pixels[i] = seed & 255
+    }
+
+    const doc = new mupdf.PDFDocument()
+    const image = doc.addImage(new mupdf.Image(pixmap))
+    const resources = doc.addObject({ XObject: { Im0: image } })
+    doc.insertPage(-1, doc.addPage([0, 0, 200, 260], 0, resources, 'q 200 0 0 260 0 0 cm /Im0 Do Q'))
+    imageDocument = doc.saveToBuffer('compress').asUint8Array().slice().buffer
+    doc.destroy()
+  })
+
+  function getImage(data: ArrayBuffer) {
+    const doc = mupdf.PDFDocument.openDocument(data, 'application/pdf')
+    const image = doc.findPage(0).get('Resources').get('XObject').get('Im0')
+    const filter = image.get('Filter')
+    const result = {
+      width: image.get('Width').asNumber(),
+      height: image.get('Height').asNumber(),
+      filter: filter.isName() ? filter.asName() : undefined
+    }
+    doc.destroy()
+    return result
+  }
+
+  it('should leave images untouched with the lossless preset', async () => {
+    const merged = await worker.mergeDocuments([imageDocument], { compression: { preset: 'lossless' } })
+
+    expect(getImage(merged)).toEqual({ width: 1000, height: 1300, filter: 'FlateDecode' })
+  })
+
+  it('should leave images untouched when splitting', async () => {
+    const [part] = await worker.splitDocument(imageDocument, { type: 'ranges', ranges: [[0]] })
+
+    expect(getImage(part.data)).toEqual({ width: 1000, height: 1300, filter: 'FlateDecode' })
+  })
+
+  it('should downsample images to 150 dpi by default', async () => {
+    const merged = await worker.mergeDocuments([imageDocument])
+
+    // 260pt = 3.61in, at 150 dpi that is 542px
+    expect(getImage(merged)).toEqual({ width: 417, height: 542, filter: 'DCTDecode' })
+  })
+
+  it('should compress more with the maximum preset', async () => {
+    const balanced = await worker.mergeDocuments([imageDocument], { compression: { preset: 'balanced' } })
+    const maximum = await worker.mergeDocuments([imageDocument], { compression: { preset: 'maximum' } })
+
+    expect(getImage(maximum).height).toBe(347)
+    expect(maximum.byteLength).toBeLessThan(balanced.byteLength)
+  })
+
+  it('should use the DPI and quality of the custom preset', async () => {
+    const merged = await worker.mergeDocuments([imageDocument], { compression: { preset: 'custom', dpi: 72, quality: 40 } })
+
+    expect(getImage(merged)).toEqual({ width: 200, height: 260, filter: 'DCTDecode' })
+  })
+
+  it('should reject invalid custom settings', async () => {
+    await expect(worker.mergeDocuments([imageDocument], { compression: { preset: 'custom', dpi: 150, quality: 0 } }))
+      .rejects.toThrow('quality')
+  })
+})
@@ -0,0 +1,123 @@
+import { describe, it, expect, beforeAll, vi } from 'vitest'
+import { readFile } from 'fs/promises'
+import * as mupdf from 'mupdf/mupdfjs'
+import { strToU8, zipSync } from 'fflate'
+
+// Mock postMessage for worker environment
+global.postMessage = vi.fn(() => {}) as typeof postMessage
+
+import { MupdfWorker } from '../../src/workers/mupdf.worker'
+import { detectReflowableType } from '../../src/workers/reflowable'
+
+/**
+ * Document Format Tests
+ *
+ * These tests verify that FictionBook, plain text and comic book (CBZ) files
+ * are converted to PDF pages and merged alongside regular PDFs.
+ */
+
+describe('Document Format Tests', () => {
+  let worker: MupdfWorker
+  let testFixtures: Record<string, ArrayBuffer>
+
+  function toArrayBuffer(data: Uint8Array): ArrayBuffer {
+    const arrayBuffer = new ArrayBuffer(data.length)
+    new Uint8Array(arrayBuffer).set(data)
+    return arrayBuffer
+  }
+
+  // Square image in the given gray level, to tell comic book pages apart
+  function createPng(gray: number): Uint8Array {
+    const pixmap = new mupdf.Pixmap(mupdf.ColorSpace.DeviceRGB, [0, 0, 40, 40], false)
+    pixmap.clear(gray)
+    const png = pixmap.asPNG()
+    pixmap.destroy()
+    return png
+  }
+
+  beforeAll(async () => {
+    worker = new MupdfWorker()
+
+    const buffer = await readFile('./tests/fixtures/test_document.pdf')
+    const arrayBuffer = new ArrayBuffer(buffer.length)
+    new Uint8Array(arrayBuffer).set(buffer)
+    testFixtures = { test_document: arrayBuffer }
+
+    const lines = Array.from({ length: 200 }, (_, i) => `Line ${i + 1} of a long text file`)
+    testFixtures.text = toArrayBuffer(strToU8(lines.join('\n')))
+    testFixtures.fb2 = toArrayBuffer(strToU8(
+      '<?xml version="1.0" encoding="UTF-8"?>' +
+      '<FictionBook xmlns="http://www.gribuser.ru/xml/fictionbook/2.0">' +
+      '<body><section><title><p>Chapter One</p></title><p>It was a dark and stormy night.</p></section></body>' +
+      '</FictionBook>'
+    ))
+    // Pages are ordered by number, not as plain strings
+    testFixtures.cbz = toArrayBuffer(zipSync({
+      'comic/10.png': createPng(255),
+      'comic/2.png': createPng(0),
+      'comic/info.txt': strToU8('not a page'),
+    }))
+    testFixtures.epub = toArrayBuffer(zipSync({
+      'mimetype': strToU8('application/epub+zip'),
+      'content.xhtml': strToU8('<html><body><p>Hello</p></body></html>'),
+    }))
+  })
+
+  it('should tell text and FictionBook files from PDFs', () => {
+    expect(detectReflowableType(new Uint8Array(testFixtures.text))).toBe('txt')
+    expect(detectReflowableType(new Uint8Array(testFixtures.fb2))).toBe('fb2')
+    expect(detectReflowableType(new Uint8Array(testFixtures.test_document))).toBeUndefined()
+    expect(detectReflowableType(new Uint8Array(testFixtures.cbz))).toBeUndefined()
+  })
+
+  it('should merge text and FictionBook files as text pages', async () => {
+    const merged = await worker.mergeDocuments([testFixtures.fb2, testFixtures.test_document, testFixtures.text])
+
+    const doc = mupdf.PDFDocument.openDocument(merged, 'application/pdf')
+    const texts = Array.from({ length: doc.countPages() }, (_, i) => doc.loadPage(i).getText())
+    expect(doc.loadPage(0).getBounds()).toEqual([0, 0, 595, 842])
+    // FictionBook sections start on a new page, the PDF and the text file follow the book
+    const bookPage = texts.findIndex(text => text.includes('dark and stormy night'))
+    const pdfPage = texts.findIndex(text => text.includes('Page 1'))
+    const textPage = texts.findIndex(text => text.includes('Line 1 of a long text file'))
+    expect(bookPage).toBeGreaterThanOrEqual(0)
+    expect(pdfPage).toBeGreaterThan(bookPage)
+    expect(textPage).toBeGreaterThan(pdfPage)
+    doc.destroy()
+  })
+
+  it('should lay out text with the given page size and font size', async () => {
+    const small = await worker.mergeDocuments([testFixtures.text], { reflow: { pageSize: 'letter', fontSize: 8 } })
+    const large = await worker.mergeDocuments([testFixtures.text], { reflow: { pageSize: 'letter', fontSize: 20 } })
+
+    const smallDoc = mupdf.PDFDocument.openDocument(small, 'application/pdf')
+    const largeDoc = mupdf.PDFDocument.openDocument(large, 'application/pdf')
+    expect(smallDoc.loadPage(0).getBounds()).toEqual([0, 0, 612, 792])
+    expect(largeDoc.countPages()).toBeGreaterThan(smallDoc.countPages())
+    smallDoc.destroy()
+    largeDoc.destroy()
+
+    await expect(worker.mergeDocuments([testFixtures.text], { reflow: { pageSize: 'a4', fontSize: 0 } }))
+      .rejects.toThrow('Font size')
+  })
+
+  it('should turn comic book images into pages in numeric order', async () => {
+    const merged = await worker.mergeDocuments([testFixtures.cbz], { imagePageSize: 'native' })
+
+    const doc = mupdf.PDFDocument.openDocument(merged, 'application/pdf')
+    expect(doc.countPages()).toBe(2)
+    const grayAt = (pageIndex: number) => {
+      const pixmap = doc.loadPage(pageIndex).toPixmap(mupdf.Matrix.identity, mupdf.ColorSpace.DeviceGray, false)
+      const gray = pixmap.getPixels()[Math.floor(pixmap.getHeight() / 2) * pixmap.getStride() + 5]
+      pixmap.destroy()
+      return gray
+    }
+    expect(grayAt(0)).toBeLessThan(16)
+    expect(grayAt(1)).toBeGreaterThan(240)
+    doc.destroy()
+  })
+
+  it('should reject archives without page images', async () => {
+    await expect(worker.countPages(testFixtures.epub)).rejects.toThrow()
+  })
+})
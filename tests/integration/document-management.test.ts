@@ -10,7 +10,7 @@ import { MupdfWorker } from '../../src/workers/mupdf.worker'
  * Document Management Operations Tests
  * 
  * These tests verify all document management operations work correctly:
- * - Document rotation (90-degree clockwise rotation)
+ * - Rotating files 90 degrees clockwise when merging
  * - Adding documents to collection
  * - Removing documents from collection
  * - Clearing entire document collection
@@ -43,10 +43,15 @@ describe('Document Management Operations', () => {
     }
   })
 
+  // Turns every page of a file 90 degrees clockwise, the way files are rotated in the app
+  function rotateDocument(pdfBuffer: ArrayBuffer) {
+    return worker.mergeDocuments([pdfBuffer], { rotations: [90] })
+  }
+
   describe('Document Rotation', () => {
     it('should rotate document 90 degrees clockwise', async () => {
       const originalDoc = testFixtures.test_document
-      const rotatedBuffer = await worker.rotateDocument(originalDoc)
+      const rotatedBuffer = await rotateDocument(originalDoc)
       
       expect(rotatedBuffer).toBeInstanceOf(Uint8Array)
       expect(rotatedBuffer.length).toBeGreaterThan(0)
@@ -78,7 +83,7 @@ describe('Document Management Operations', () => {
 
     it('should preserve links and forms after rotation', async () => {
       const formDoc = testFixtures.form_document_fixed
-      const rotatedBuffer = await worker.rotateDocument(formDoc)
+      const rotatedBuffer = await rotateDocument(formDoc)
       
       const mupdf = await import('mupdf')
       const originalPdf = mupdf.Document.openDocument(formDoc, 'application/pdf')
@@ -116,7 +121,7 @@ describe('Document Management Operations', () => {
       ]
       
       for (const doc of documents) {
-        const rotatedBuffer = await worker.rotateDocument(doc)
+        const rotatedBuffer = await rotateDocument(doc)
         expect(rotatedBuffer).toBeInstanceOf(Uint8Array)
         expect(rotatedBuffer.length).toBeGreaterThan(0)
         
@@ -127,6 +132,41 @@ describe('Document Management Operations', () => {
         rotatedPdf.destroy()
       }
     })
+
+    it('should apply file rotations only when merging', async () => {
+      const original = new Uint8Array(testFixtures.test_document).slice()
+      const merged = await worker.mergeDocuments(
+        [testFixtures.test_document, testFixtures.test_document3],
+        { rotations: [-90, undefined] }
+      )
+
+      // The input buffer is left untouched
+      expect(new Uint8Array(testFixtures.test_document)).toEqual(original)
+
+      const mupdf = await import('mupdf')
+      const doc = mupdf.PDFDocument.openDocument(merged, 'application/pdf')
+      expect(doc.countPages()).toBe(7)
+      for (let i = 0; i < doc.countPages(); i++) {
+        const rotate = doc.findPage(i).getInheritable('Rotate')
+        expect(rotate.isNumber() ? rotate.asNumber() : 0).toBe(i < 3 ? 270 : 0)
+      }
+      doc.destroy()
+    })
+
+    it('should render previews with the given rotation', async () => {
+      // Width and height of a PNG are in its IHDR chunk, right after the signature
+      const imageSize = (dataURL: string) => {
+        const png = Buffer.from(dataURL.replace(/^data:image\/png;base64,/, ''), 'base64')
+        return [png.readUInt32BE(16), png.readUInt32BE(20)]
+      }
+      const upright = await worker.renderFirstPage(testFixtures.test_document)
+      const rotated = await worker.renderFirstPage(testFixtures.test_document, 90)
+
+      expect(rotated).toMatch(/^data:image\/png;base64,/)
+      const [width, height] = imageSize(upright)
+      expect(width).not.toBe(height)
+      expect(imageSize(rotated)).toEqual([height, width])
+    })
   })
 
   describe('Document Collection Management', () => {
@@ -329,7 +369,7 @@ describe('Document Management Operations', () => {
   describe('Complex Document Management Scenarios', () => {
     it('should handle rotation followed by reordering', async () => {
       // Rotate a document, then use it in different positions
-      const rotatedDoc = await worker.rotateDocument(testFixtures.test_document)
+      const rotatedDoc = await rotateDocument(testFixtures.test_document)
       
       const scenarios = [
         [rotatedDoc, testFixtures.test_document3],
@@ -350,8 +390,8 @@ describe('Document Management Operations', () => {
 
     it('should handle multiple rotations and reorderings', async () => {
       // Rotate multiple documents
-      const rotatedDoc1 = await worker.rotateDocument(testFixtures.test_document)
-      const rotatedDoc2 = await worker.rotateDocument(testFixtures.test_document3)
+      const rotatedDoc1 = await rotateDocument(testFixtures.test_document)
+      const rotatedDoc2 = await rotateDocument(testFixtures.test_document3)
       
       // Merge rotated documents in different orders
       const orders = [
@@ -373,7 +413,7 @@ describe('Document Management Operations', () => {
 
     it('should preserve all content types through complex operations', async () => {
       // Complex scenario: rotate form document, then merge with link documents
-      const rotatedFormDoc = await worker.rotateDocument(testFixtures.form_document_fixed)
+      const rotatedFormDoc = await rotateDocument(testFixtures.form_document_fixed)
       
       const merged = await worker.mergeDocuments([
         testFixtures.test_document,    // Has links
@@ -414,7 +454,7 @@ describe('Document Management Operations', () => {
       // Test with invalid/corrupted data
       const invalidBuffer = new ArrayBuffer(100)
       
-      await expect(worker.rotateDocument(invalidBuffer)).rejects.toThrow()
+      await expect(rotateDocument(invalidBuffer)).rejects.toThrow()
     })
 
     it('should handle merge errors with mixed valid/invalid documents', async () => {
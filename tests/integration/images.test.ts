@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeAll, vi } from 'vitest'
+import { readFile } from 'fs/promises'
+import * as mupdf from 'mupdf/mupdfjs'
+
+// Mock postMessage for worker environment
+global.postMessage = vi.fn(() => {}) as typeof postMessage
+
+import { MupdfWorker } from '../../src/workers/mupdf.worker'
+import { detectImageType, getJpegOrientation } from '../../src/workers/images'
+
+/**
+ * Image Input Tests
+ *
+ * These tests verify that JPEG, PNG and multi-page TIFF images are merged as
+ * pages, fitted to a paper size or at their native size, and that phone photos
+ * are turned upright according to their EXIF orientation.
+ */
+
+describe('Image Input Tests', () => {
+  let worker: MupdfWorker
+  let testFixtures: Record<string, ArrayBuffer>
+
+  // 200x100 image, left half black and right half white
+  function createPixmap(): mupdf.Pixmap {
+    const pixmap = new mupdf.Pixmap(mupdf.ColorSpace.DeviceRGB, [0, 0, 200, 100], false)
+    pixmap.clear(255)
+    const pixels = pixmap.getPixels()
+    for (let y = 0; y < 100; y++) {
+      for (let x = 0; x < 100; x++) pixels.fill(0, (y * 200 + x) * 3, (y * 200 + x) * 3 + 3)
+    }
+    return pixmap
+  }
+
+  // Inserts an EXIF segment with the given orientation after the JPEG start marker
+  function withOrientation(jpeg: Uint8Array, orientation: number): ArrayBuffer {
+    const tiff = [0x49, 0x49, 0x2a, 0, 8, 0, 0, 0, 1, 0, 0x12, 0x01, 3, 0, 1, 0, 0, 0, orientation, 0, 0, 0, 0, 0, 0, 0]
+    const payload = [0x45, 0x78, 0x69, 0x66, 0, 0, ...tiff]
+    const app1 = [0xff, 0xe1, 0, payload.length + 2, ...payload]
+    return new Uint8Array([...jpeg.slice(0, 2), ...app1, ...jpeg.slice(2)]).buffer
+  }
+
+  function toArrayBuffer(data: Uint8Array): ArrayBuffer {
+    return data.slice().buffer
+  }
+
+  beforeAll(async () => {
+    worker = new MupdfWorker()
+
+    testFixtures = {}
+    for (const fixture of ['test_document.pdf', 'two_pages.tiff']) {
+      const buffer = await readFile(`./tests/fixtures/${fixture}`)
+      const arrayBuffer = new ArrayBuffer(buffer.length)
+      const uint8View = new Uint8Array(arrayBuffer)
+      uint8View.set(buffer)
+      testFixtures[fixture.replace(/\.\w+$/, '')] = arrayBuffer
+    }
+
+    const pixmap = createPixmap()
+    testFixtures.jpeg = toArrayBuffer(pixmap.asJPEG(90, false))
+    testFixtures.png = toArrayBuffer(pixmap.asPNG())
+    pixmap.destroy()
+  })
+
+  it('should detect image types and EXIF orientation', () => {
+    expect(detectImageType(new Uint8Array(testFixtures.jpeg))).toBe('jpeg')
+    expect(detectImageType(new Uint8Array(testFixtures.png))).toBe('png')
+    expect(detectImageType(new Uint8Array(testFixtures.two_pages))).toBe('tiff')
+    expect(detectImageType(new Uint8Array(testFixtures.test_document))).toBeUndefined()
+
+    expect(getJpegOrientation(new Uint8Array(testFixtures.jpeg))).toBe(1)
+    expect(getJpegOrientation(new Uint8Array(withOrientation(new Uint8Array(testFixtures.jpeg), 6)))).toBe(6)
+  })
+
+  it('should merge images with PDFs, a page per image', async () => {
+    const merged = await worker.mergeDocuments(
+      [testFixtures.test_document, testFixtures.jpeg, testFixtures.two_pages, testFixtures.png],
+      { fileNames: ['doc.pdf', 'photo.jpg', 'scan.tiff', 'chart.png'] }
+    )
+
+    const doc = mupdf.PDFDocument.openDocument(merged, 'application/pdf')
+    expect(doc.countPages()).toBe(7)
+    expect(doc.loadOutline()!.map(item => item.page)).toEqual([0, 3, 4, 6])
+
+    // Landscape images are fitted to landscape A4, the portrait TIFF page to portrait A4
+    expect(doc.loadPage(3).getBounds()).toEqual([0, 0, 842, 595])
+    expect(doc.loadPage(4).getBounds()).toEqual([0, 0, 595, 842])
+    expect(doc.loadPage(5).getBounds()).toEqual([0, 0, 842, 595])
+    doc.destroy()
+  })
+
+  it('should use the native image size or Letter when asked', async () => {
+    const native = await worker.mergeDocuments([testFixtures.png], { imagePageSize: 'native' })
+    const letter = await worker.mergeDocuments([testFixtures.png], { imagePageSize: 'letter' })
+
+    const nativeDoc = mupdf.PDFDocument.openDocument(native, 'application/pdf')
+    const letterDoc = mupdf.PDFDocument.openDocument(letter, 'application/pdf')
+    const [, , width, height] = nativeDoc.loadPage(0).getBounds()
+    expect(width / height).toBeCloseTo(2)
+    expect(letterDoc.loadPage(0).getBounds()).toEqual([0, 0, 792, 612])
+    nativeDoc.destroy()
+    letterDoc.destroy()
+  })
+
+  it('should turn photos upright according to their EXIF orientation', async () => {
+    const rotated = withOrientation(new Uint8Array(testFixtures.jpeg), 6)
+    const merged = await worker.mergeDocuments([rotated], { imagePageSize: 'native' })
+
+    const doc = mupdf.PDFDocument.openDocument(merged, 'application/pdf')
+    const page = doc.loadPage(0)
+    const [, , width, height] = page.getBounds()
+    expect(height / width).toBeCloseTo(2)
+
+    // Turned clockwise, the black left half of the image ends up on top
+    const pixmap = page.toPixmap(mupdf.Matrix.identity, mupdf.ColorSpace.DeviceGray, false)
+    const pixels = pixmap.getPixels()
+    const stride = pixmap.getStride()
+    const middle = Math.floor(pixmap.getWidth() / 2)
+    expect(pixels[Math.floor(pixmap.getHeight() / 4) * stride + middle]).toBeLessThan(64)
+    expect(pixels[Math.floor(pixmap.getHeight() * 3 / 4) * stride + middle]).toBeGreaterThan(192)
+    pixmap.destroy()
+    doc.destroy()
+  })
+
+  it('should render previews and count pages of images', async () => {
+    expect(await worker.countPages(testFixtures.two_pages)).toBe(2)
+    expect(await worker.renderFirstPage(testFixtures.jpeg)).toMatch(/^data:image\/png;base64,/)
+    expect(await worker.renderPageThumbnails(testFixtures.two_pages)).toHaveLength(2)
+  })
+})
@@ -1,11 +1,127 @@
 import { describe, it, expect, beforeAll, vi } from 'vitest'
 import { readFile } from 'fs/promises'
+import * as mupdf from 'mupdf/mupdfjs'
 
 // Mock postMessage for worker environment
 global.postMessage = vi.fn(() => {}) as typeof postMessage
 
 import { MupdfWorker } from '../../src/workers/mupdf.worker'
 
+/**
+ * Destination kinds added on page 1 of the destination_kinds fixture.
+ * Each link gets its own horizontal slot so it can be told apart after merging.
+ */
+const DESTINATION_KINDS = [
+  { name: 'explicit XYZ destination', targetPage: 2, view: 'XYZ' },
+  { name: 'named destination from /Names tree', targetPage: 2, view: 'FitH' },
+  { name: 'named destination from catalog /Dests', targetPage: 1, view: 'XYZ' },
+  { name: 'GoTo action with explicit destination', targetPage: 1, view: 'Fit' },
+  { name: 'GoTo action with named destination', targetPage: 2, view: 'FitH' },
+] as const
+
+/**
+ * Adds one link per destination kind to the first page of a 3-page document:
+ * /Dest arrays, /Dest names resolved through both the /Names tree and the
+ * catalog /Dests dictionary, and /GoTo actions with explicit and named targets.
+ */
+function buildDestinationKindsFixture(source: ArrayBuffer): ArrayBuffer {
+  const doc = mupdf.PDFDocument.openDocument(source, 'application/pdf')
+  const root = doc.getTrailer().get('Root')
+  const page1 = doc.findPage(1)
+  const page2 = doc.findPage(2)
+
+  const destArray = (...items: unknown[]) => {
+    const array = doc.newArray()
+    items.forEach(item => array.push(item))
+    return array
+  }
+
+  // /Names /Dests tree and catalog /Dests dictionary, each holding one destination
+  const namesTree = doc.newDictionary()
+  namesTree.put('Names', destArray(doc.newString('chapter-2'), destArray(page2, doc.newName('FitH'), 500)))
+  const names = doc.newDictionary()
+  names.put('Dests', namesTree)
+  root.put('Names', names)
+
+  const catalogDests = doc.newDictionary()
+  const wrappedDest = doc.newDictionary()
+  wrappedDest.put('D', destArray(page1, doc.newName('XYZ'), 72, 600, 0))
+  catalogDests.put('summary', wrappedDest)
+  root.put('Dests', catalogDests)
+
+  const goToAction = (target: unknown) => {
+    const action = doc.newDictionary()
+    action.put('S', doc.newName('GoTo'))
+    action.put('D', target)
+    return action
+  }
+
+  const targets: Array<[string, unknown]> = [
+    ['Dest', destArray(page2, doc.newName('XYZ'), 100, 700, 1.5)],
+    ['Dest', doc.newString('chapter-2')],
+    ['Dest', doc.newName('summary')],
+    ['A', goToAction(destArray(page1, doc.newName('Fit')))],
+    ['A', goToAction(doc.newString('chapter-2'))],
+  ]
+
+  const pageObj = doc.findPage(0)
+  const annots = pageObj.get('Annots')
+  targets.forEach(([key, value], index) => {
+    const annot = doc.newDictionary()
+    annot.put('Type', doc.newName('Annot'))
+    annot.put('Subtype', doc.newName('Link'))
+    annot.put('Rect', [10 + index * 60, 10, 60 + index * 60, 40])
+    annot.put('Border', [0, 0, 0])
+    annot.put(key, value)
+    annots.push(doc.addObject(annot))
+  })
+
+  const buffer = doc.saveToBuffer('').asUint8Array().slice().buffer
+  doc.destroy()
+  return buffer
+}
+
+/**
+ * Remote (GoToR) links added on page 1 of the cover_memo fixture, one per slot.
+ */
+const REMOTE_LINKS = [
+  { file: 'appendix.pdf', destination: [1, 'Fit'] },
+  { file: 'Appendix.PDF', destination: 'chapter-2' },
+  { file: 'appendix.pdf', destination: 'missing-destination' },
+  { file: 'other.pdf', destination: [0, 'Fit'] },
+] as const
+
+function buildCoverMemoFixture(source: ArrayBuffer): ArrayBuffer {
+  const doc = mupdf.PDFDocument.openDocument(source, 'application/pdf')
+  const annots = doc.findPage(0).get('Annots')
+
+  REMOTE_LINKS.forEach(({ file, destination }, index) => {
+    const action = doc.newDictionary()
+    action.put('S', doc.newName('GoToR'))
+    action.put('F', doc.newString(file))
+    if (typeof destination === 'string') {
+      action.put('D', doc.newString(destination))
+    } else {
+      const array = doc.newArray()
+      array.push(destination[0])
+      array.push(doc.newName(destination[1]))
+      action.put('D', array)
+    }
+
+    const annot = doc.newDictionary()
+    annot.put('Type', doc.newName('Annot'))
+    annot.put('Subtype', doc.newName('Link'))
+    annot.put('Rect', [10 + index * 60, 10, 60 + index * 60, 40])
+    annot.put('Border', [0, 0, 0])
+    annot.put('A', action)
+    annots.push(doc.addObject(annot))
+  })
+
+  const buffer = doc.saveToBuffer('').asUint8Array().slice().buffer
+  doc.destroy()
+  return buffer
+}
+
 /**
  * Internal Link Navigation Tests
  * 
@@ -37,6 +153,9 @@ describe('Internal Link Navigation Tests', () => {
       uint8View.set(buffer)
       testFixtures[fixture.replace('.pdf', '')] = arrayBuffer
     }
+
+    testFixtures.destination_kinds = buildDestinationKindsFixture(testFixtures.test_document)
+    testFixtures.cover_memo = buildCoverMemoFixture(testFixtures.test_document)
   })
 
   describe('Internal Link Destination Mapping', () => {
@@ -226,6 +345,115 @@ describe('Internal Link Navigation Tests', () => {
     })
   })
 
+  describe('Destination Kinds', () => {
+    it.each(DESTINATION_KINDS.map((kind, slot) => ({ ...kind, slot })))(
+      'should remap $name to the merged page',
+      async ({ targetPage, view, slot }) => {
+        // test_document3 has 4 pages, so the fixture starts on merged page index 4
+        const merged = await worker.mergeDocuments([
+          testFixtures.test_document3,
+          testFixtures.destination_kinds
+        ])
+
+        const doc = mupdf.PDFDocument.openDocument(merged, 'application/pdf')
+        const links = doc.loadPage(4).getLinks()
+        const link = links.find(l => Math.abs(l.getBounds()[0] - (10 + slot * 60)) < 1)
+
+        expect(link).toBeDefined()
+        expect(link!.isExternal()).toBe(false)
+
+        const destination = doc.resolveLinkDestination(link!.getURI())
+        doc.destroy()
+
+        expect(destination.page).toBe(4 + targetPage)
+        expect(destination.type).toBe(view)
+      }
+    )
+
+    it('should keep the XYZ position and zoom of explicit destinations', async () => {
+      const merged = await worker.mergeDocuments([
+        testFixtures.diplom,
+        testFixtures.destination_kinds
+      ])
+
+      const original = mupdf.PDFDocument.openDocument(testFixtures.destination_kinds, 'application/pdf')
+      const originalLink = original.loadPage(0).getLinks().find(l => Math.abs(l.getBounds()[0] - 10) < 1)!
+      const originalDestination = original.resolveLinkDestination(originalLink.getURI())
+      original.destroy()
+
+      const doc = mupdf.PDFDocument.openDocument(merged, 'application/pdf')
+      const link = doc.loadPage(4).getLinks().find(l => Math.abs(l.getBounds()[0] - 10) < 1)!
+      const destination = doc.resolveLinkDestination(link.getURI())
+      doc.destroy()
+
+      expect(destination.page).toBe(originalDestination.page + 4)
+      expect(destination.x).toBeCloseTo(originalDestination.x)
+      expect(destination.y).toBeCloseTo(originalDestination.y)
+      expect(destination.zoom).toBeCloseTo(originalDestination.zoom)
+    })
+
+    it('should preserve every link of the fixture when merged alone', async () => {
+      const merged = await worker.mergeDocuments([testFixtures.destination_kinds])
+
+      const original = mupdf.PDFDocument.openDocument(testFixtures.destination_kinds, 'application/pdf')
+      const doc = mupdf.PDFDocument.openDocument(merged, 'application/pdf')
+
+      expect(doc.loadPage(0).getLinks().length).toBe(original.loadPage(0).getLinks().length)
+
+      original.destroy()
+      doc.destroy()
+    })
+  })
+
+  describe('Cross-File Links', () => {
+    const findLinkInSlot = (links: mupdf.Link[], slot: number) =>
+      links.find(l => Math.abs(l.getBounds()[0] - (10 + slot * 60)) < 1)
+
+    it('should turn links to other merged files into internal links', async () => {
+      // memo (3 pages) + test_document3 (4 pages), so appendix starts on merged page index 7
+      const merged = await worker.mergeDocuments(
+        [testFixtures.cover_memo, testFixtures.test_document3, testFixtures.destination_kinds],
+        { fileNames: ['memo.pdf', 'middle.pdf', 'appendix.pdf'] }
+      )
+
+      const doc = mupdf.PDFDocument.openDocument(merged, 'application/pdf')
+      const links = doc.loadPage(0).getLinks()
+
+      const explicit = findLinkInSlot(links, 0)!
+      expect(explicit.isExternal()).toBe(false)
+      expect(doc.resolveLinkDestination(explicit.getURI()).page).toBe(8)
+
+      const named = findLinkInSlot(links, 1)!
+      expect(named.isExternal()).toBe(false)
+      const namedDestination = doc.resolveLinkDestination(named.getURI())
+      expect(namedDestination.page).toBe(9)
+      expect(namedDestination.type).toBe('FitH')
+
+      const missing = findLinkInSlot(links, 2)!
+      expect(missing.isExternal()).toBe(false)
+      expect(doc.resolveLinkDestination(missing.getURI()).page).toBe(7)
+
+      const notMerged = findLinkInSlot(links, 3)!
+      expect(notMerged.isExternal()).toBe(true)
+      expect(notMerged.getURI()).toContain('other.pdf')
+
+      doc.destroy()
+    })
+
+    it('should keep remote links external when file names are unknown', async () => {
+      const merged = await worker.mergeDocuments([testFixtures.cover_memo, testFixtures.destination_kinds])
+
+      const doc = mupdf.PDFDocument.openDocument(merged, 'application/pdf')
+      const links = doc.loadPage(0).getLinks()
+
+      REMOTE_LINKS.forEach((_, slot) => {
+        expect(findLinkInSlot(links, slot)!.isExternal()).toBe(true)
+      })
+
+      doc.destroy()
+    })
+  })
+
   describe('Link Destination Analysis', () => {
     it('should provide detailed analysis of link types and destinations', async () => {
       // Analyze the original test documents to understand their link structure
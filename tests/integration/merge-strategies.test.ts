@@ -0,0 +1,146 @@
+import { describe, it, expect, beforeAll, vi } from 'vitest'
+import { readFile } from 'fs/promises'
+import * as mupdf from 'mupdf/mupdfjs'
+
+// Mock postMessage for worker environment
+global.postMessage = vi.fn(() => {}) as typeof postMessage
+
+import { MupdfWorker } from '../../src/workers/mupdf.worker'
+import { arrangePages } from '../../src/workers/merge-strategies'
+
+/**
+ * Merge Strategy Tests
+ *
+ * These tests verify that pages can be interleaved, reversed or inserted into another
+ * file while merging, and that internal links keep pointing at the same pages.
+ */
+
+describe('Merge Strategy Tests', () => {
+  let worker: MupdfWorker
+  let testDocument: ArrayBuffer
+
+  // A document with one page per label, each showing its label
+  function createLabeledDocument(labels: string[]): ArrayBuffer {
+    const doc = new mupdf.PDFDocument()
+    const font = doc.addSimpleFont(new mupdf.Font('Helvetica'), 'Latin')
+    labels.forEach((label, i) => {
+      const resources = doc.newDictionary()
+      const fonts = doc.newDictionary()
+      fonts.put('F1', font)
+      resources.put('Font', fonts)
+      doc.insertPage(i, doc.addPage([0, 0, 595, 842], 0, resources, `BT /F1 24 Tf 72 720 Td (${label}) Tj ET`))
+    })
+    const buffer = doc.saveToBuffer('').asUint8Array().slice().buffer
+    doc.destroy()
+    return buffer
+  }
+
+  function getPageTexts(buffer: ArrayBuffer): string[] {
+    const doc = mupdf.PDFDocument.openDocument(buffer, 'application/pdf')
+    const texts = Array.from({ length: doc.countPages() }, (_, i) => doc.loadPage(i).getText().trim())
+    doc.destroy()
+    return texts
+  }
+
+  // Text of every internal link target, by the text of the page the link is on
+  function getLinkTargets(buffer: ArrayBuffer): string[][] {
+    const doc = mupdf.PDFDocument.openDocument(buffer, 'application/pdf')
+    const texts = Array.from({ length: doc.countPages() }, (_, i) => doc.loadPage(i).getText().trim())
+    const targets = texts.map((text, i) => doc.loadPage(i).getLinks()
+      .map(link => doc.resolveLink(link))
+      .filter(target => target >= 0)
+      .map(target => `${text} -> ${texts[target]}`))
+    doc.destroy()
+    return targets
+  }
+
+  beforeAll(async () => {
+    worker = new MupdfWorker()
+
+    const buffer = await readFile('./tests/fixtures/test_document.pdf')
+    testDocument = new ArrayBuffer(buffer.length)
+    new Uint8Array(testDocument).set(buffer)
+  })
+
+  it('should interleave the fronts and reversed backs of a duplex scan', async () => {
+    const fronts = createLabeledDocument(['Page 1', 'Page 3', 'Page 5'])
+    const backs = createLabeledDocument(['Page 6', 'Page 4', 'Page 2'])
+
+    const merged = await worker.mergeDocuments([fronts, backs], {
+      strategy: { type: 'interleave', first: 0, second: 1, reverseSecond: true },
+    })
+
+    expect(getPageTexts(merged)).toEqual(['Page 1', 'Page 2', 'Page 3', 'Page 4', 'Page 5', 'Page 6'])
+  })
+
+  it('should put left over pages and other files after interleaved ones', async () => {
+    const a = createLabeledDocument(['A1', 'A2', 'A3'])
+    const b = createLabeledDocument(['B1'])
+    const c = createLabeledDocument(['C1'])
+
+    const merged = await worker.mergeDocuments([c, a, b], {
+      strategy: { type: 'interleave', first: 1, second: 2, reverseSecond: false },
+    })
+
+    expect(getPageTexts(merged)).toEqual(['A1', 'B1', 'A2', 'A3', 'C1'])
+  })
+
+  it('should reverse the whole output', async () => {
+    const a = createLabeledDocument(['A1', 'A2'])
+    const b = createLabeledDocument(['B1', 'B2'])
+
+    const merged = await worker.mergeDocuments([a, b], { strategy: { type: 'reverse' } })
+
+    expect(getPageTexts(merged)).toEqual(['B2', 'B1', 'A2', 'A1'])
+  })
+
+  it('should insert a file after a page of another', async () => {
+    const a = createLabeledDocument(['A1', 'A2', 'A3'])
+    const b = createLabeledDocument(['B1', 'B2'])
+
+    const merged = await worker.mergeDocuments([a, b], {
+      strategy: { type: 'insert', target: 0, inserted: 1, afterPage: 2 },
+    })
+    expect(getPageTexts(merged)).toEqual(['A1', 'A2', 'B1', 'B2', 'A3'])
+
+    // Positions past the end append the file
+    const appended = await worker.mergeDocuments([b, a], {
+      strategy: { type: 'insert', target: 0, inserted: 1, afterPage: 10 },
+    })
+    expect(getPageTexts(appended)).toEqual(['B1', 'B2', 'A1', 'A2', 'A3'])
+  })
+
+  it('should apply page selections before arranging pages', async () => {
+    const a = createLabeledDocument(['A1', 'A2', 'A3'])
+    const b = createLabeledDocument(['B1', 'B2', 'B3'])
+
+    const merged = await worker.mergeDocuments([a, b], {
+      pages: [[0, 2], [1, 2]],
+      strategy: { type: 'interleave', first: 0, second: 1, reverseSecond: true },
+    })
+
+    expect(getPageTexts(merged)).toEqual(['A1', 'B3', 'A3', 'B2'])
+  })
+
+  it('should keep internal links pointing at the same pages', async () => {
+    const expected = getLinkTargets(testDocument).flat().sort()
+    expect(expected.length).toBeGreaterThan(0)
+
+    const reversed = await worker.mergeDocuments([testDocument], { strategy: { type: 'reverse' } })
+    expect(getLinkTargets(reversed).flat().sort()).toEqual(expected)
+
+    const other = createLabeledDocument(['B1', 'B2', 'B3'])
+    const interleaved = await worker.mergeDocuments([testDocument, other], {
+      strategy: { type: 'interleave', first: 0, second: 1, reverseSecond: true },
+    })
+    expect(getLinkTargets(interleaved).flat().sort()).toEqual(expected)
+  })
+
+  it('should reject strategies naming missing or the same files', () => {
+    const documents = [['A1'], ['B1']]
+    expect(() => arrangePages(documents, { type: 'interleave', first: 0, second: 0, reverseSecond: false }))
+      .toThrow('two different files')
+    expect(() => arrangePages(documents, { type: 'insert', target: 0, inserted: 2, afterPage: 0 }))
+      .toThrow('no file number 3')
+  })
+})
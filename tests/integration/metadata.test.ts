@@ -0,0 +1,134 @@
+import { describe, it, expect, beforeAll, vi } from 'vitest'
+import * as mupdf from 'mupdf/mupdfjs'
+
+// Mock postMessage for worker environment
+global.postMessage = vi.fn(() => {}) as typeof postMessage
+
+import { MupdfWorker, type DocumentMetadata } from '../../src/workers/mupdf.worker'
+
+/**
+ * Document Metadata Tests
+ *
+ * These tests verify that document properties are read from the Info dictionary
+ * and XMP metadata, and written to both.
+ */
+
+describe('Document Metadata Tests', () => {
+  let worker: MupdfWorker
+
+  const metadata: DocumentMetadata = {
+    title: 'Annual Report – 2024',
+    author: 'Jane Doe & Co',
+    subject: 'Finances',
+    keywords: 'report, finances',
+    creator: 'Scanner <Model 5>',
+    creationDate: '2024-03-01T10:20:30.000Z',
+    modificationDate: '2024-04-02T11:00:00.000Z',
+  }
+
+  function createDocument(setup?: (doc: mupdf.PDFDocument) => void): ArrayBuffer {
+    const doc = new mupdf.PDFDocument()
+    doc.insertPage(0, doc.addPage([0, 0, 595, 842], 0, {}, ''))
+    setup?.(doc)
+    const buffer = doc.saveToBuffer('').asUint8Array().slice().buffer
+    doc.destroy()
+    return buffer
+  }
+
+  function readXMP(buffer: ArrayBuffer): string {
+    const doc = mupdf.PDFDocument.openDocument(buffer, 'application/pdf')
+    const xmp = doc.getTrailer().get('Root').get('Metadata').readStream().asString()
+    doc.destroy()
+    return xmp
+  }
+
+  beforeAll(() => {
+    worker = new MupdfWorker()
+  })
+
+  it('should read properties from the Info dictionary', async () => {
+    const buffer = createDocument(doc => {
+      doc.setMetaData('info:Title', 'Quarterly numbers')
+      doc.setMetaData('info:Author', 'Анна')
+      doc.setMetaData('info:CreationDate', "D:20240102030405+01'00'")
+    })
+
+    const result = await worker.readDocumentMetadata(buffer)
+    expect(result.title).toBe('Quarterly numbers')
+    expect(result.author).toBe('Анна')
+    expect(result.subject).toBe('')
+    expect(result.creationDate).toBe('2024-01-02T02:04:05.000Z')
+    expect(result.modificationDate).toBeUndefined()
+  })
+
+  it('should fall back to XMP metadata for properties the Info dictionary lacks', async () => {
+    const xmp = `<x:xmpmeta xmlns:x="adobe:ns:meta/"><rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">
+      <rdf:Description rdf:about="" xmp:CreatorTool="Writer &amp; Co">
+        <dc:title><rdf:Alt><rdf:li xml:lang="x-default">From XMP</rdf:li></rdf:Alt></dc:title>
+        <dc:creator><rdf:Seq><rdf:li>Ann</rdf:li><rdf:li>Bob</rdf:li></rdf:Seq></dc:creator>
+        <xmp:ModifyDate>2023-05-06T07:08:09+02:00</xmp:ModifyDate>
+      </rdf:Description></rdf:RDF></x:xmpmeta>`
+    const buffer = createDocument(doc => {
+      doc.setMetaData('info:Author', 'Info author')
+      const stream = doc.addStream(xmp, { Type: 'Metadata', Subtype: 'XML' })
+      doc.getTrailer().get('Root').put('Metadata', stream)
+    })
+
+    const result = await worker.readDocumentMetadata(buffer)
+    expect(result.title).toBe('From XMP')
+    expect(result.author).toBe('Info author')
+    expect(result.creator).toBe('Writer & Co')
+    expect(result.modificationDate).toBe('2023-05-06T05:08:09.000Z')
+  })
+
+  it('should keep character references beyond the last code point as written', async () => {
+    const xmp = `<x:xmpmeta xmlns:x="adobe:ns:meta/"><rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">
+      <rdf:Description rdf:about="" xmp:CreatorTool="Writer &#x110000; &#169;"/></rdf:RDF></x:xmpmeta>`
+    const buffer = createDocument(doc => {
+      const stream = doc.addStream(xmp, { Type: 'Metadata', Subtype: 'XML' })
+      doc.getTrailer().get('Root').put('Metadata', stream)
+    })
+
+    const result = await worker.readDocumentMetadata(buffer)
+    expect(result.creator).toBe('Writer &#x110000; ©')
+  })
+
+  it('should write properties to the Info dictionary and XMP metadata', async () => {
+    const merged = await worker.mergeDocuments([createDocument()])
+    const result = await worker.setDocumentMetadata(merged, metadata)
+
+    const doc = mupdf.PDFDocument.openDocument(result, 'application/pdf')
+    expect(doc.getMetaData('info:Title')).toBe(metadata.title)
+    expect(doc.getMetaData('info:Author')).toBe(metadata.author)
+    expect(doc.getMetaData('info:Keywords')).toBe(metadata.keywords)
+    expect(doc.getMetaData('info:Creator')).toBe(metadata.creator)
+    expect(doc.getMetaData('info:CreationDate')).toBe('D:20240301102030Z')
+    expect(doc.getMetaData('info:ModDate')).toBe('D:20240402110000Z')
+    expect(doc.countPages()).toBe(1)
+    doc.destroy()
+
+    const xmp = readXMP(result)
+    expect(xmp).toContain('<rdf:li xml:lang="x-default">Annual Report – 2024</rdf:li>')
+    expect(xmp).toContain('<rdf:li>Jane Doe &amp; Co</rdf:li>')
+    expect(xmp).toContain('<xmp:CreatorTool>Scanner &lt;Model 5&gt;</xmp:CreatorTool>')
+    expect(xmp).toContain('<xmp:CreateDate>2024-03-01T10:20:30.000Z</xmp:CreateDate>')
+
+    // Properties read back the same way they were written
+    expect(await worker.readDocumentMetadata(result)).toEqual(metadata)
+  })
+
+  it('should leave out empty properties', async () => {
+    const withTitle = await worker.setDocumentMetadata(createDocument(), metadata)
+    const result = await worker.setDocumentMetadata(withTitle, { ...metadata, title: '  ', creationDate: undefined })
+
+    const doc = mupdf.PDFDocument.openDocument(result, 'application/pdf')
+    expect(doc.getMetaData('info:Title')).toBeUndefined()
+    expect(doc.getMetaData('info:CreationDate')).toBeUndefined()
+    expect(doc.getMetaData('info:Author')).toBe(metadata.author)
+    doc.destroy()
+
+    const xmp = readXMP(result)
+    expect(xmp).not.toContain('dc:title')
+    expect(xmp).not.toContain('xmp:CreateDate')
+  })
+})
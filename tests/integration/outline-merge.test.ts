@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeAll, vi } from 'vitest'
+import { readFile } from 'fs/promises'
+import * as mupdf from 'mupdf/mupdfjs'
+
+// Mock postMessage for worker environment
+global.postMessage = vi.fn(() => {}) as typeof postMessage
+
+import { MupdfWorker } from '../../src/workers/mupdf.worker'
+
+/**
+ * Outline (Bookmark) Merge Tests
+ *
+ * These tests verify that the bookmarks of every source document are carried
+ * into the merged document, nested under one top-level bookmark per file,
+ * with destinations remapped to the merged page numbers.
+ */
+
+describe('Outline Merge Tests', () => {
+  let worker: MupdfWorker
+  let testFixtures: Record<string, ArrayBuffer>
+
+  beforeAll(async () => {
+    worker = new MupdfWorker()
+
+    const fixtures = ['test_document.pdf', 'test_document3.pdf']
+
+    testFixtures = {}
+    for (const fixture of fixtures) {
+      const buffer = await readFile(`./tests/fixtures/${fixture}`)
+      const arrayBuffer = new ArrayBuffer(buffer.length)
+      const uint8View = new Uint8Array(arrayBuffer)
+      uint8View.set(buffer)
+      testFixtures[fixture.replace('.pdf', '')] = arrayBuffer
+    }
+
+    // Build a variant of test_document3 (4 pages) with a nested outline
+    const doc = mupdf.PDFDocument.openDocument(testFixtures.test_document3, 'application/pdf')
+    const iterator = doc.outlineIterator()
+    iterator.insert({ title: 'Introduction', uri: '#page=1&view=Fit', open: true })
+    iterator.insert({ title: 'Chapter 1', uri: '#page=2&view=Fit', open: true })
+    iterator.prev()
+    iterator.down()
+    iterator.insert({ title: 'Section 1.1', uri: '#page=3&view=FitH,400', open: false })
+    iterator.up()
+    iterator.next()
+    iterator.insert({ title: 'Appendix', uri: '#page=4&view=Fit', open: false })
+    iterator.destroy()
+    testFixtures.with_outline = doc.saveToBuffer('').asUint8Array().slice().buffer
+    doc.destroy()
+  })
+
+  it('should nest each document outline under a bookmark named after the file', async () => {
+    const merged = await worker.mergeDocuments(
+      [testFixtures.test_document, testFixtures.with_outline],
+      { fileNames: ['cover.pdf', 'report.pdf'] }
+    )
+
+    const doc = mupdf.PDFDocument.openDocument(merged, 'application/pdf')
+    const outline = doc.loadOutline()
+    doc.destroy()
+
+    expect(outline).not.toBeNull()
+    expect(outline!.map(item => item.title)).toEqual(['cover.pdf', 'report.pdf'])
+
+    // test_document has 3 pages, so report.pdf starts on merged page index 3
+    expect(outline![0].page).toBe(0)
+    expect(outline![0].down).toBeUndefined()
+    expect(outline![1].page).toBe(3)
+
+    const chapters = outline![1].down!
+    expect(chapters.map(item => item.title)).toEqual(['Introduction', 'Chapter 1', 'Appendix'])
+    expect(chapters.map(item => item.page)).toEqual([3, 4, 6])
+    expect(chapters[1].down!.map(item => item.title)).toEqual(['Section 1.1'])
+    expect(chapters[1].down![0].page).toBe(5)
+    expect(chapters[1].down![0].uri).toContain('view=FitH')
+  })
+
+  it('should remap bookmarks when the document is not first', async () => {
+    const merged = await worker.mergeDocuments(
+      [testFixtures.with_outline, testFixtures.test_document3, testFixtures.with_outline],
+      { fileNames: ['a.pdf', 'b.pdf', 'c.pdf'] }
+    )
+
+    const doc = mupdf.PDFDocument.openDocument(merged, 'application/pdf')
+    const outline = doc.loadOutline()!
+    const pageCount = doc.countPages()
+    doc.destroy()
+
+    expect(outline.map(item => item.page)).toEqual([0, 4, 8])
+    expect(outline[0].down!.map(item => item.page)).toEqual([0, 1, 3])
+    expect(outline[2].down!.map(item => item.page)).toEqual([8, 9, 11])
+    expect(pageCount).toBe(12)
+  })
+
+  it('should fall back to a generic title when file names are not provided', async () => {
+    const merged = await worker.mergeDocuments([testFixtures.test_document, testFixtures.test_document3])
+
+    const doc = mupdf.PDFDocument.openDocument(merged, 'application/pdf')
+    const outline = doc.loadOutline()!
+    doc.destroy()
+
+    expect(outline.map(item => item.title)).toEqual(['Document 1', 'Document 2'])
+    expect(outline.map(item => item.page)).toEqual([0, 3])
+  })
+})
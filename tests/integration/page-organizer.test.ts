@@ -0,0 +1,137 @@
+import { describe, it, expect, beforeAll, vi } from 'vitest'
+import { readFile } from 'fs/promises'
+import * as mupdf from 'mupdf/mupdfjs'
+
+// Mock postMessage for worker environment
+global.postMessage = vi.fn(() => {}) as typeof postMessage
+
+import { MupdfWorker } from '../../src/workers/mupdf.worker'
+import { getFieldNames } from '../../src/workers/acroform'
+
+/**
+ * Page Organizer Tests
+ *
+ * These tests verify merging an explicit list of pages: pages from different
+ * files in any order, repeated pages and individually rotated pages.
+ */
+
+describe('Page Organizer Tests', () => {
+  let worker: MupdfWorker
+  let testFixtures: Record<string, ArrayBuffer>
+
+  beforeAll(async () => {
+    worker = new MupdfWorker()
+
+    const fixtures = [
+      'test_document.pdf',      // 3 pages, Letter
+      'test_document3.pdf',     // 4 pages, A4
+      'form_document_fixed.pdf' // form widgets on 2 pages
+    ]
+
+    testFixtures = {}
+    for (const fixture of fixtures) {
+      const buffer = await readFile(`./tests/fixtures/${fixture}`)
+      const arrayBuffer = new ArrayBuffer(buffer.length)
+      const uint8View = new Uint8Array(arrayBuffer)
+      uint8View.set(buffer)
+      testFixtures[fixture.replace('.pdf', '')] = arrayBuffer
+    }
+  })
+
+  it('should merge pages from different files in the given order', async () => {
+    const merged = await worker.mergePages(
+      [testFixtures.test_document, testFixtures.test_document3],
+      [
+        { docIndex: 1, pageIndex: 0 },
+        { docIndex: 0, pageIndex: 0 },
+        { docIndex: 1, pageIndex: 3 },
+        { docIndex: 0, pageIndex: 2 }
+      ],
+      { fileNames: ['letter.pdf', 'a4.pdf'] }
+    )
+
+    const doc = mupdf.PDFDocument.openDocument(merged, 'application/pdf')
+    expect(doc.countPages()).toBe(4)
+
+    // A4 and Letter pages alternate
+    const widths = [0, 1, 2, 3].map(i => Math.round(doc.loadPage(i).getBounds()[2]))
+    expect(widths).toEqual([595, 612, 595, 612])
+
+    // test_document3 page 4 links to its page 1, now merged page 1
+    const a4Link = doc.loadPage(2).getLinks().find(link => !link.isExternal())!
+    expect(doc.resolveLink(a4Link)).toBe(0)
+
+    // test_document page 1 links to its page 3, now merged page 4
+    const letterLink = doc.loadPage(1).getLinks().find(link => !link.isExternal())!
+    expect(doc.resolveLink(letterLink)).toBe(3)
+
+    // One bookmark per file, in the order files first appear
+    const outline = doc.loadOutline()!
+    expect(outline.map(item => item.title)).toEqual(['a4.pdf', 'letter.pdf'])
+    expect(outline.map(item => item.page)).toEqual([0, 1])
+
+    doc.destroy()
+  })
+
+  it('should rotate individual pages on top of their own rotation', async () => {
+    const merged = await worker.mergePages(
+      [testFixtures.test_document],
+      [
+        { docIndex: 0, pageIndex: 0, rotation: 90 },
+        { docIndex: 0, pageIndex: 1 },
+        { docIndex: 0, pageIndex: 2, rotation: -90 }
+      ]
+    )
+
+    const doc = mupdf.PDFDocument.openDocument(merged, 'application/pdf')
+    const rotations = [0, 1, 2].map(i => doc.findPage(i).getInheritable('Rotate'))
+    expect(rotations.map(rotate => rotate.isNumber() ? rotate.asNumber() : 0)).toEqual([90, 0, 270])
+
+    // Links on rotated pages keep pointing at the right page
+    const link = doc.loadPage(0).getLinks().find(link => !link.isExternal())!
+    expect(doc.resolveLink(link)).toBe(2)
+
+    doc.destroy()
+  })
+
+  it('should give repeated pages their own annotations', async () => {
+    const merged = await worker.mergePages(
+      [testFixtures.form_document_fixed],
+      [
+        { docIndex: 0, pageIndex: 0 },
+        { docIndex: 0, pageIndex: 0 },
+        { docIndex: 0, pageIndex: 1 }
+      ]
+    )
+
+    const doc = mupdf.PDFDocument.openDocument(merged, 'application/pdf')
+    expect(doc.countPages()).toBe(3)
+
+    const first = doc.loadPage(0).getWidgets()
+    const copy = doc.loadPage(1).getWidgets()
+    expect(copy.length).toBe(first.length)
+    expect(first.length).toBeGreaterThan(0)
+
+    // Copies are separate objects but widgets of the same fields
+    const firstObjects = new Set(first.map(widget => widget.getObject().asIndirect()))
+    copy.forEach(widget => expect(firstObjects.has(widget.getObject().asIndirect())).toBe(false))
+    expect(getFieldNames(doc).size).toBe(6)
+
+    doc.destroy()
+  })
+
+  it('should skip pages that do not exist', async () => {
+    const merged = await worker.mergePages(
+      [testFixtures.test_document],
+      [{ docIndex: 0, pageIndex: 1 }, { docIndex: 0, pageIndex: 7 }, { docIndex: 3, pageIndex: 0 }]
+    )
+
+    const doc = mupdf.PDFDocument.openDocument(merged, 'application/pdf')
+    expect(doc.countPages()).toBe(1)
+    doc.destroy()
+  })
+
+  it('should reject an empty page list', async () => {
+    await expect(worker.mergePages([testFixtures.test_document], [])).rejects.toThrow('No pages to merge')
+  })
+})
@@ -0,0 +1,114 @@
+import { describe, it, expect, beforeAll, vi } from 'vitest'
+import { readFile } from 'fs/promises'
+import * as mupdf from 'mupdf/mupdfjs'
+
+// Mock postMessage for worker environment
+global.postMessage = vi.fn(() => {}) as typeof postMessage
+
+import { MupdfWorker } from '../../src/workers/mupdf.worker'
+
+/**
+ * Page Selection Tests
+ *
+ * These tests verify that only the selected pages of each document are merged,
+ * in the selected order, and that links to pages left out are dropped.
+ */
+
+describe('Page Selection Tests', () => {
+  let worker: MupdfWorker
+  let testFixtures: Record<string, ArrayBuffer>
+
+  beforeAll(async () => {
+    worker = new MupdfWorker()
+
+    const fixtures = [
+      'test_document.pdf',      // 3 pages, Letter
+      'test_document3.pdf',     // 4 pages, A4
+      'form_document_fixed.pdf' // form widgets on 2 pages
+    ]
+
+    testFixtures = {}
+    for (const fixture of fixtures) {
+      const buffer = await readFile(`./tests/fixtures/${fixture}`)
+      const arrayBuffer = new ArrayBuffer(buffer.length)
+      const uint8View = new Uint8Array(arrayBuffer)
+      uint8View.set(buffer)
+      testFixtures[fixture.replace('.pdf', '')] = arrayBuffer
+    }
+  })
+
+  it('should merge only the selected pages in the selected order', async () => {
+    const merged = await worker.mergeDocuments(
+      [testFixtures.test_document, testFixtures.test_document3],
+      { pages: [[2, 0], [1, 3]] }
+    )
+
+    const doc = mupdf.PDFDocument.openDocument(merged, 'application/pdf')
+    expect(doc.countPages()).toBe(4)
+
+    // test_document page 3 links to page 2 (left out) and to an external URL
+    const firstLinks = doc.loadPage(0).getLinks().map(link => link.getURI())
+    expect(firstLinks).toEqual(['https://www.example.com'])
+
+    // test_document page 1 links to page 3, which is now merged page 1
+    const secondLinks = doc.loadPage(1).getLinks().filter(link => !link.isExternal())
+    expect(secondLinks.length).toBe(1)
+    expect(doc.resolveLink(secondLinks[0])).toBe(0)
+
+    // Both selected test_document3 pages link to its page 1, which was left out
+    for (const pageIndex of [2, 3]) {
+      const links = doc.loadPage(pageIndex).getLinks()
+      expect(links.every(link => link.isExternal())).toBe(true)
+    }
+
+    doc.destroy()
+  })
+
+  it('should merge all pages of documents without a selection', async () => {
+    const merged = await worker.mergeDocuments(
+      [testFixtures.test_document, testFixtures.test_document3],
+      { pages: [[1]] }
+    )
+
+    const doc = mupdf.PDFDocument.openDocument(merged, 'application/pdf')
+    expect(doc.countPages()).toBe(5)
+
+    const outline = doc.loadOutline()!
+    expect(outline.map(item => item.page)).toEqual([0, 1])
+    doc.destroy()
+  })
+
+  it('should ignore page indexes outside the document', async () => {
+    const merged = await worker.mergeDocuments([testFixtures.test_document], { pages: [[0, 5, -1]] })
+
+    const doc = mupdf.PDFDocument.openDocument(merged, 'application/pdf')
+    expect(doc.countPages()).toBe(1)
+    doc.destroy()
+  })
+
+  it('should only keep form fields with a widget on a selected page', async () => {
+    const full = await worker.mergeDocuments([testFixtures.form_document_fixed])
+    const partial = await worker.mergeDocuments([testFixtures.form_document_fixed], { pages: [[0]] })
+
+    const fullDoc = mupdf.PDFDocument.openDocument(full, 'application/pdf')
+    const partialDoc = mupdf.PDFDocument.openDocument(partial, 'application/pdf')
+
+    const fullWidgets = fullDoc.loadPage(0).getWidgets().length + fullDoc.loadPage(1).getWidgets().length
+    const partialWidgets = partialDoc.loadPage(0).getWidgets().length
+    expect(partialDoc.countPages()).toBe(1)
+    expect(partialWidgets).toBeLessThan(fullWidgets)
+
+    const fields = partialDoc.getTrailer().get('Root').get('AcroForm').get('Fields')
+    expect(fields.length).toBeLessThanOrEqual(partialWidgets)
+
+    fullDoc.destroy()
+    partialDoc.destroy()
+  })
+
+  it('should render a thumbnail for every page', async () => {
+    const thumbnails = await worker.renderPageThumbnails(testFixtures.test_document3)
+
+    expect(thumbnails.length).toBe(4)
+    thumbnails.forEach(thumbnail => expect(thumbnail).toMatch(/^data:image\/png;base64,/))
+  })
+})
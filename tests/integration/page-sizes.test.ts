@@ -0,0 +1,165 @@
+import { describe, it, expect, beforeAll, vi } from 'vitest'
+import { readFile } from 'fs/promises'
+import * as mupdf from 'mupdf/mupdfjs'
+
+// Mock postMessage for worker environment
+global.postMessage = vi.fn(() => {}) as typeof postMessage
+
+import { MupdfWorker, PAGE_SIZE_ERROR } from '../../src/workers/mupdf.worker'
+
+/**
+ * Page Size Tests
+ *
+ * These tests verify that pages of mixed sizes can be scaled onto one paper size,
+ * centered in their own orientation, with links and annotations moved along.
+ */
+
+describe('Page Size Tests', () => {
+  let worker: MupdfWorker
+  let testDocument: ArrayBuffer
+
+  // A document with a page of each size, every page filled black
+  function createDocument(sizes: [number, number][]): ArrayBuffer {
+    const doc = new mupdf.PDFDocument()
+    sizes.forEach(([width, height], i) => {
+      doc.insertPage(i, doc.addPage([0, 0, width, height], 0, {}, `0 g 0 0 ${width} ${height} re f`))
+    })
+    const buffer = doc.saveToBuffer('').asUint8Array().slice().buffer
+    doc.destroy()
+    return buffer
+  }
+
+  function getPageSizes(buffer: ArrayBuffer): number[][] {
+    const doc = mupdf.PDFDocument.openDocument(buffer, 'application/pdf')
+    const sizes = Array.from({ length: doc.countPages() }, (_, i) => {
+      const [x0, y0, x1, y1] = doc.loadPage(i).getBounds()
+      return [Math.round(x1 - x0), Math.round(y1 - y0)]
+    })
+    doc.destroy()
+    return sizes
+  }
+
+  // Left and right edge of the black area in the middle row of the page, at 72 dpi
+  function getInkColumns(buffer: ArrayBuffer, pageIndex: number): [number, number] {
+    const doc = mupdf.PDFDocument.openDocument(buffer, 'application/pdf')
+    const pixmap = doc.loadPage(pageIndex).toPixmap(mupdf.Matrix.identity, mupdf.ColorSpace.DeviceGray, false)
+    const width = pixmap.getWidth()
+    const row = Math.floor(pixmap.getHeight() / 2)
+    const pixels = pixmap.getPixels()
+    const dark = Array.from({ length: width }, (_, x) => pixels[row * width + x] < 128)
+    doc.destroy()
+    return [dark.indexOf(true), dark.lastIndexOf(true)]
+  }
+
+  beforeAll(async () => {
+    worker = new MupdfWorker()
+
+    const buffer = await readFile('./tests/fixtures/test_document.pdf')
+    testDocument = new ArrayBuffer(buffer.length)
+    new Uint8Array(testDocument).set(buffer)
+  })
+
+  it('should put mixed pages on A4 paper in their own orientation', async () => {
+    const mixed = createDocument([[612, 792], [200, 600], [2000, 1400]])
+    const merged = await worker.mergeDocuments([mixed, testDocument], { pageSize: { paperSize: 'a4', scaling: 'fit' } })
+
+    const sizes = getPageSizes(merged)
+    expect(sizes).toHaveLength(6)
+    expect(sizes.slice(0, 3)).toEqual([[595, 842], [595, 842], [842, 595]])
+    sizes.slice(3).forEach(size => expect([[595, 842], [842, 595]]).toContainEqual(size))
+  })
+
+  it('should fit pages into the middle of the paper', async () => {
+    const receipt = createDocument([[200, 600]])
+    const merged = await worker.mergeDocuments([receipt], { pageSize: { paperSize: 'a4', scaling: 'fit' } })
+
+    // Scaled by 842 / 600 to 280.7 points wide, with equal margins
+    const [left, right] = getInkColumns(merged, 0)
+    expect(left).toBeGreaterThanOrEqual(156)
+    expect(left).toBeLessThanOrEqual(158)
+    expect(right).toBeGreaterThanOrEqual(436)
+    expect(right).toBeLessThanOrEqual(438)
+  })
+
+  it('should fill the paper and crop what sticks out', async () => {
+    const receipt = createDocument([[200, 600]])
+    const merged = await worker.mergeDocuments([receipt], { pageSize: { paperSize: 'letter', scaling: 'fill' } })
+
+    expect(getPageSizes(merged)).toEqual([[612, 792]])
+    expect(getInkColumns(merged, 0)).toEqual([0, 611])
+  })
+
+  it('should use custom sizes in millimetres and keep rotated pages turned', async () => {
+    const square = createDocument([[400, 300]])
+    const merged = await worker.mergeDocuments([square], {
+      rotations: [90],
+      pageSize: { paperSize: 'custom', customSize: [100, 150], scaling: 'fit' },
+    })
+
+    // Landscape paper, 150 × 100 mm, shown turned upright
+    expect(getPageSizes(merged)).toEqual([[283, 425]])
+  })
+
+  it('should move links and annotations with the page content', async () => {
+    const doc = new mupdf.PDFDocument()
+    doc.insertPage(0, doc.addPage([0, 0, 300, 300], 0, {}, ''))
+    doc.insertPage(1, doc.addPage([0, 0, 300, 300], 0, {}, ''))
+    const page = doc.loadPage(0)
+    page.insertLink({ x: 0, y: 0, width: 100, height: 100 }, 'https://example.com/')
+    page.insertLink({ x: 0, y: 200, width: 100, height: 100 }, doc.formatLinkURI({
+      type: 'XYZ', chapter: 0, page: 1, x: 0, y: 0, width: NaN, height: NaN, zoom: NaN,
+    }))
+    const square = doc.loadPage(1).createAnnotation('Square')
+    square.setRect([100, 100, 200, 200])
+    square.update()
+    const squareBounds = square.getBounds()
+    const source = doc.saveToBuffer('').asUint8Array().slice().buffer
+    doc.destroy()
+
+    const merged = await worker.mergeDocuments([source], { pageSize: { paperSize: 'a4', scaling: 'fit' } })
+    const result = mupdf.PDFDocument.openDocument(merged, 'application/pdf')
+    const resultPage = result.loadPage(0)
+
+    // Scaled by 595 / 300 and moved down by (842 - 595) / 2 = 123.5
+    const scale = 595 / 300
+    const links = resultPage.getLinks()
+    const external = links.find(link => link.isExternal())!
+    const [x0, y0, x1, y1] = external.getBounds()
+    expect(x0).toBeCloseTo(0, 0)
+    expect(y0).toBeCloseTo(123.5, 0)
+    expect(x1).toBeCloseTo(100 * scale, 0)
+    expect(y1).toBeCloseTo(123.5 + 100 * scale, 0)
+
+    // The link still jumps to the top left corner of the second page's content
+    const internal = links.find(link => !link.isExternal())!
+    const destination = result.resolveLinkDestination(internal)
+    expect(destination.page).toBe(1)
+    expect(destination.x).toBeCloseTo(0, 0)
+    expect(destination.y).toBeCloseTo(123.5, 0)
+
+    const [annotation] = result.loadPage(1).getAnnotations()
+    const [ax0, ay0, ax1, ay1] = annotation.getBounds()
+    expect(ax0).toBeCloseTo(squareBounds[0] * scale, 0)
+    expect(ay0).toBeCloseTo(123.5 + squareBounds[1] * scale, 0)
+    expect(ax1).toBeCloseTo(squareBounds[2] * scale, 0)
+    expect(ay1).toBeCloseTo(123.5 + squareBounds[3] * scale, 0)
+    result.destroy()
+  })
+
+  it('should leave pages already on the paper size untouched', async () => {
+    const a4 = createDocument([[595, 842]])
+    const merged = await worker.mergeDocuments([a4], { pageSize: { paperSize: 'a4', scaling: 'fill' } })
+
+    expect(getInkColumns(merged, 0)).toEqual([0, 594])
+  })
+
+  it('should reject custom sizes out of range', async () => {
+    const a4 = createDocument([[595, 842]])
+    await expect(worker.mergeDocuments([a4], {
+      pageSize: { paperSize: 'custom', customSize: [0, 297], scaling: 'fit' },
+    })).rejects.toThrow('Page size must be between')
+    await expect(worker.mergeDocuments([a4], {
+      pageSize: { paperSize: 'custom', customSize: [210, 6000], scaling: 'fit' },
+    })).rejects.toHaveProperty('name', PAGE_SIZE_ERROR)
+  })
+})
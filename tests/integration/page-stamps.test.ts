@@ -0,0 +1,142 @@
+import { describe, it, expect, beforeAll, vi } from 'vitest'
+import { readFile } from 'fs/promises'
+import * as mupdf from 'mupdf/mupdfjs'
+
+// Mock postMessage for worker environment
+global.postMessage = vi.fn(() => {}) as typeof postMessage
+
+import { MupdfWorker, STAMP_ERROR, type PageStamp } from '../../src/workers/mupdf.worker'
+import { formatStamp } from '../../src/workers/stamps'
+
+/**
+ * Page Stamp Tests
+ *
+ * These tests verify that headers, footers and Bates numbers are stamped onto
+ * merged pages with the right numbers, and upright on rotated pages.
+ */
+
+describe('Page Stamp Tests', () => {
+  let worker: MupdfWorker
+  let testFixtures: Record<string, ArrayBuffer>
+
+  const footer: PageStamp = {
+    template: 'Page {page} of {total}',
+    position: 'bottom-center',
+    fontSize: 10,
+    margin: 20,
+    startNumber: 1,
+  }
+
+  function getPageTexts(buffer: ArrayBuffer): string[] {
+    const doc = mupdf.PDFDocument.openDocument(buffer, 'application/pdf')
+    const texts = Array.from({ length: doc.countPages() }, (_, i) => doc.loadPage(i).getText())
+    doc.destroy()
+    return texts
+  }
+
+  // Rows of the rendered page that have ink, as seen by the reader
+  function getInkRows(page: mupdf.PDFPage): number[] {
+    const pixmap = page.toPixmap(mupdf.Matrix.identity, mupdf.ColorSpace.DeviceGray, false)
+    const rows: number[] = []
+    const pixels = pixmap.getPixels()
+    for (let y = 0; y < pixmap.getHeight(); y++) {
+      const row = pixels.subarray(y * pixmap.getStride(), y * pixmap.getStride() + pixmap.getWidth())
+      if (row.some(gray => gray < 128)) rows.push(y)
+    }
+    pixmap.destroy()
+    return rows
+  }
+
+  beforeAll(async () => {
+    worker = new MupdfWorker()
+
+    for (const name of ['test_document', 'test_document3']) {
+      const buffer = await readFile(`./tests/fixtures/${name}.pdf`)
+      const arrayBuffer = new ArrayBuffer(buffer.length)
+      new Uint8Array(arrayBuffer).set(buffer)
+      testFixtures = { ...testFixtures, [name]: arrayBuffer }
+    }
+
+    // An empty portrait page with a small crop box, shown in landscape, and a plain one
+    const doc = new mupdf.PDFDocument()
+    const page = doc.addPage([0, 0, 400, 600], 90, {}, '')
+    const cropBox = doc.newArray()
+    for (const n of [50, 50, 350, 550]) cropBox.push(n)
+    page.put('CropBox', cropBox)
+    doc.insertPage(-1, page)
+    doc.insertPage(-1, doc.addPage([0, 0, 400, 600], 0, {}, ''))
+    testFixtures.rotated = doc.saveToBuffer('').asUint8Array().slice().buffer
+    doc.destroy()
+  })
+
+  it('should replace the tokens of a template', () => {
+    const values = { page: 123, total: 140, file: 'contract.pdf', filepage: 2, date: '2025-03-04' }
+    expect(formatStamp('ACME-{page:6}', values)).toBe('ACME-000123')
+    expect(formatStamp('{file} p. {filepage}, {date}', values)).toBe('contract.pdf p. 2, 2025-03-04')
+    expect(formatStamp('{page} / {total} {unknown}', values)).toBe('123 / 140 {unknown}')
+  })
+
+  it('should number every merged page', async () => {
+    const merged = await worker.mergeDocuments(
+      [testFixtures.test_document, testFixtures.test_document3],
+      { stamps: [footer] }
+    )
+
+    const texts = getPageTexts(merged)
+    expect(texts[0]).toContain(`Page 1 of ${texts.length}`)
+    expect(texts[texts.length - 1]).toContain(`Page ${texts.length} of ${texts.length}`)
+    // The original content is still there
+    expect(texts[0]).toContain('Page 1')
+  })
+
+  it('should stamp Bates numbers with the source file and page', async () => {
+    const bates: PageStamp = { ...footer, template: 'ACME-{page:6} {file} p{filepage}', position: 'top-right', startNumber: 123 }
+    const merged = await worker.mergeDocuments(
+      [testFixtures.test_document, testFixtures.test_document3],
+      { stamps: [bates], fileNames: ['first.pdf', 'second.pdf'], pages: [[1, 2], [0]] }
+    )
+
+    const texts = getPageTexts(merged)
+    expect(texts).toHaveLength(3)
+    expect(texts[0]).toContain('ACME-000123 first.pdf p2')
+    expect(texts[1]).toContain('ACME-000124 first.pdf p3')
+    expect(texts[2]).toContain('ACME-000125 second.pdf p1')
+  })
+
+  it('should stamp rotated pages upright inside the crop box', async () => {
+    const merged = await worker.mergeDocuments([testFixtures.rotated], { stamps: [footer] })
+
+    const doc = mupdf.PDFDocument.openDocument(merged, 'application/pdf')
+    const page = doc.loadPage(0)
+    // Landscape as displayed: the crop box turned a quarter
+    expect(page.getBounds()).toEqual([0, 0, 500, 300])
+    expect(page.getText()).toContain('Page 1 of 2')
+    const rows = getInkRows(page)
+    expect(rows.length).toBeGreaterThan(0)
+    // Text a few points tall, just above the bottom margin of the displayed page
+    expect(Math.min(...rows)).toBeGreaterThan(300 - 20 - 12)
+    expect(Math.max(...rows)).toBeLessThan(300 - 20 + 4)
+    doc.destroy()
+  })
+
+  it('should follow the rotation chosen when merging', async () => {
+    const merged = await worker.mergeDocuments([testFixtures.rotated], { stamps: [footer], pages: [[1]], rotations: [270] })
+
+    const doc = mupdf.PDFDocument.openDocument(merged, 'application/pdf')
+    const page = doc.loadPage(0)
+    expect(page.getBounds()).toEqual([0, 0, 600, 400])
+    const rows = getInkRows(page)
+    expect(Math.min(...rows)).toBeGreaterThan(400 - 20 - 12)
+    expect(Math.max(...rows)).toBeLessThan(400 - 20 + 4)
+    doc.destroy()
+  })
+
+  it('should reject invalid stamp settings', async () => {
+    await expect(worker.mergeDocuments([testFixtures.test_document], { stamps: [{ ...footer, fontSize: 0 }] }))
+      .rejects.toThrow('font size')
+    await expect(worker.mergeDocuments([testFixtures.test_document], { stamps: [{ ...footer, startNumber: 1.5 }] }))
+      .rejects.toThrow('start number')
+    await expect(worker.mergeDocuments([testFixtures.test_document], { stamps: [{ ...footer, margin: -1 }] }))
+      .rejects.toHaveProperty('name', STAMP_ERROR)
+  })
+})
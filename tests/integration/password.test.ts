@@ -0,0 +1,72 @@
+import { describe, it, expect, beforeAll, vi } from 'vitest'
+import { readFile } from 'fs/promises'
+import * as mupdf from 'mupdf/mupdfjs'
+
+// Mock postMessage for worker environment
+global.postMessage = vi.fn(() => {}) as typeof postMessage
+
+import { MupdfWorker, PASSWORD_REQUIRED_ERROR } from '../../src/workers/mupdf.worker'
+
+/**
+ * Password Protected Document Tests
+ *
+ * These tests verify that encrypted documents are reported with a typed error
+ * instead of being read as garbage, and can be unlocked with their password.
+ */
+
+describe('Password Protected Document Tests', () => {
+  let worker: MupdfWorker
+  let testFixtures: Record<string, ArrayBuffer>
+
+  beforeAll(async () => {
+    worker = new MupdfWorker()
+
+    const buffer = await readFile('./tests/fixtures/test_document.pdf')
+    const arrayBuffer = new ArrayBuffer(buffer.length)
+    new Uint8Array(arrayBuffer).set(buffer)
+    testFixtures = { test_document: arrayBuffer }
+
+    const doc = mupdf.PDFDocument.openDocument(arrayBuffer, 'application/pdf')
+    testFixtures.encrypted = doc
+      .saveToBuffer('encrypt=aes-256,user-password=secret,owner-password=owner')
+      .asUint8Array().slice().buffer
+    doc.destroy()
+  })
+
+  it('should report a password required error for encrypted documents', async () => {
+    await expect(worker.renderFirstPage(testFixtures.encrypted))
+      .rejects.toMatchObject({ name: PASSWORD_REQUIRED_ERROR })
+    await expect(worker.mergeDocuments([testFixtures.test_document, testFixtures.encrypted]))
+      .rejects.toMatchObject({ name: PASSWORD_REQUIRED_ERROR })
+  })
+
+  it('should reject a wrong password', async () => {
+    await expect(worker.unlockDocument(testFixtures.encrypted, 'guess'))
+      .rejects.toMatchObject({ name: PASSWORD_REQUIRED_ERROR, message: 'Incorrect password' })
+  })
+
+  it('should unlock with the user or owner password', async () => {
+    for (const password of ['secret', 'owner']) {
+      const unlocked = await worker.unlockDocument(testFixtures.encrypted, password)
+
+      const doc = mupdf.PDFDocument.openDocument(unlocked, 'application/pdf')
+      expect(doc.needsPassword()).toBe(false)
+      expect(doc.countPages()).toBe(3)
+      expect(doc.loadPage(0).getText()).toContain('Page 1')
+      doc.destroy()
+    }
+  })
+
+  it('should merge and preview the unlocked document', async () => {
+    const unlocked = await worker.unlockDocument(testFixtures.encrypted, 'secret')
+
+    const preview = await worker.renderFirstPage(unlocked)
+    expect(preview).toMatch(/^data:image\/png;base64,/)
+
+    const merged = await worker.mergeDocuments([testFixtures.test_document, unlocked])
+    const doc = mupdf.PDFDocument.openDocument(merged, 'application/pdf')
+    expect(doc.countPages()).toBe(6)
+    expect(doc.loadPage(3).getText()).toContain('Page 1')
+    doc.destroy()
+  })
+})
@@ -0,0 +1,96 @@
+import { describe, it, expect, beforeAll, vi } from 'vitest'
+import { readFile } from 'fs/promises'
+import { join } from 'path'
+import * as mupdf from 'mupdf/mupdfjs'
+
+// Mock postMessage for worker environment
+global.postMessage = vi.fn(() => {}) as typeof postMessage
+
+import { MupdfWorker } from '../../src/workers/mupdf.worker'
+
+/**
+ * Portfolio Tests
+ *
+ * These tests verify that files are bundled unchanged into a portfolio whose
+ * cover pages list them, with every entry opening its file.
+ */
+
+describe('Portfolio Tests', () => {
+  let worker: MupdfWorker
+  let pdfData: ArrayBuffer
+
+  function openPortfolio(data: ArrayBuffer): mupdf.PDFDocument {
+    return mupdf.PDFDocument.openDocument(data, 'application/pdf') as mupdf.PDFDocument
+  }
+
+  function readEmbeddedFile(doc: mupdf.PDFDocument, name: string): Uint8Array | undefined {
+    return doc.getEmbeddedFileContents(doc.getEmbeddedFiles()[name])?.asUint8Array()
+  }
+
+  beforeAll(async () => {
+    worker = new MupdfWorker()
+    const buffer = await readFile(join(__dirname, '../fixtures/test_document.pdf'))
+    pdfData = new ArrayBuffer(buffer.byteLength)
+    new Uint8Array(pdfData).set(buffer)
+  })
+
+  it('should embed every file byte for byte', async () => {
+    const text = Uint8Array.from('plain text', char => char.charCodeAt(0))
+    const portfolio = await worker.createPortfolio([
+      { name: 'contract.pdf', data: pdfData, mimeType: 'application/pdf' },
+      { name: 'notes.txt', data: text.slice().buffer, mimeType: 'text/plain' },
+    ])
+
+    const doc = openPortfolio(portfolio)
+    expect(Object.keys(doc.getEmbeddedFiles()).sort()).toEqual(['contract.pdf', 'notes.txt'])
+    expect(readEmbeddedFile(doc, 'contract.pdf')).toEqual(new Uint8Array(pdfData))
+    expect(readEmbeddedFile(doc, 'notes.txt')).toEqual(text)
+    expect(doc.getEmbeddedFileParams(doc.getEmbeddedFiles()['notes.txt']).mimetype).toBe('text/plain')
+    expect(doc.getTrailer().get('Root').get('Collection').get('View').asName()).toBe('H')
+    doc.destroy()
+  })
+
+  it('should list every file on the cover with an entry that opens it', async () => {
+    const portfolio = await worker.createPortfolio([
+      { name: 'contract.pdf', data: pdfData, mimeType: 'application/pdf' },
+      { name: 'scan.png', data: new ArrayBuffer(4), mimeType: 'image/png' },
+    ])
+
+    const doc = openPortfolio(portfolio)
+    expect(doc.countPages()).toBe(1)
+    const page = doc.loadPage(0)
+    const text = page.toStructuredText().asText()
+    expect(text).toContain('contract.pdf')
+    expect(text).toContain('scan.png')
+
+    const attachments = page.getAnnotations().filter(annot => annot.getType() === 'FileAttachment')
+    expect(attachments.map(annot => annot.getContents())).toEqual(['contract.pdf', 'scan.png'])
+
+    // Only PDFs can be opened with a link
+    const links = doc.findPage(0).get('Annots')
+    const actions = []
+    for (let i = 0; i < links.length; i++) {
+      const action = links.get(i).get('A')
+      if (action.isDictionary()) actions.push(action)
+    }
+    expect(actions).toHaveLength(1)
+    expect(actions[0].get('S').asName()).toBe('GoToE')
+    expect(actions[0].get('T').get('N').asString()).toBe('contract.pdf')
+    page.destroy()
+    doc.destroy()
+  })
+
+  it('should number files with the same name', async () => {
+    const portfolio = await worker.createPortfolio([
+      { name: 'scan.pdf', data: pdfData },
+      { name: 'scan.pdf', data: pdfData },
+    ])
+
+    const files = await worker.listEmbeddedFiles(portfolio)
+    expect(files.map(file => file.name).sort()).toEqual(['scan (2).pdf', 'scan.pdf'])
+  })
+
+  it('should refuse to bundle no files', async () => {
+    await expect(worker.createPortfolio([])).rejects.toThrow('No files to bundle')
+  })
+})
@@ -0,0 +1,193 @@
+import { describe, it, expect, beforeAll, vi } from 'vitest'
+import * as mupdf from 'mupdf/mupdfjs'
+
+// Mock postMessage for worker environment
+global.postMessage = vi.fn(() => {}) as typeof postMessage
+
+import { MupdfWorker } from '../../src/workers/mupdf.worker'
+
+/**
+ * Sanitize Tests
+ *
+ * These tests verify that metadata, scripts, embedded files, thumbnails and
+ * private application data are removed from a document and reported.
+ */
+
+describe('Sanitize Tests', () => {
+  let worker: MupdfWorker
+
+  function toArrayBuffer(doc: mupdf.PDFDocument): ArrayBuffer {
+    return doc.saveToBuffer('').asUint8Array().slice().buffer
+  }
+
+  // A document with a bit of every kind of hidden data
+  function createDocument(): ArrayBuffer {
+    const doc = new mupdf.PDFDocument()
+    doc.insertPage(0, doc.addPage([0, 0, 595, 842], 0, {}, 'BT /F1 12 Tf ET'))
+    const root = doc.getTrailer().get('Root')
+    const pageObj = doc.findPage(0)
+
+    doc.setMetaData('info:Title', 'Secret plans')
+    doc.setMetaData('info:Author', 'Jane Doe')
+    root.put('Metadata', doc.addStream('<x:xmpmeta xmlns:x="adobe:ns:meta/"/>', { Type: 'Metadata', Subtype: 'XML' }))
+
+    const script = doc.newDictionary()
+    script.put('S', doc.newName('JavaScript'))
+    script.put('JS', doc.newString('app.alert("hi")'))
+    const javaScriptNames = doc.newArray()
+    javaScriptNames.push(doc.newString('init'))
+    javaScriptNames.push(doc.addObject(script))
+    const javaScriptTree = doc.newDictionary()
+    javaScriptTree.put('Names', javaScriptNames)
+    const names = doc.newDictionary()
+    names.put('JavaScript', doc.addObject(javaScriptTree))
+    root.put('Names', names)
+    root.put('OpenAction', doc.addObject(script))
+
+    doc.insertEmbeddedFile('notes.txt', doc.addEmbeddedFile('notes.txt', 'text/plain', 'private notes', new Date(), new Date()))
+
+    pageObj.put('Thumb', doc.addStream('thumbnail', { Width: 1, Height: 1 }))
+    const pieceInfo = doc.newDictionary()
+    pieceInfo.put('Illustrator', doc.newDictionary())
+    pageObj.put('PieceInfo', pieceInfo)
+    const pageActions = doc.newDictionary()
+    pageActions.put('O', script)
+    pageObj.put('AA', pageActions)
+
+    const page = doc.loadPage(0)
+    page.insertLink({ x: 10, y: 10, width: 100, height: 20 }, 'https://example.com/')
+    const attachment = page.createAnnotation('FileAttachment')
+    attachment.setRect([200, 200, 220, 220])
+    attachment.setFileSpec(doc.addEmbeddedFile('scan.png', 'image/png', 'not really a png', new Date(), new Date()))
+    attachment.update()
+    const scriptLink = doc.newDictionary()
+    scriptLink.put('Type', doc.newName('Annot'))
+    scriptLink.put('Subtype', doc.newName('Link'))
+    scriptLink.put('Rect', [300, 300, 400, 320])
+    scriptLink.put('A', script)
+    pageObj.get('Annots').push(doc.addObject(scriptLink))
+
+    return toArrayBuffer(doc)
+  }
+
+  beforeAll(() => {
+    worker = new MupdfWorker()
+  })
+
+  it('should remove hidden data and report what it was', async () => {
+    const { pdf, report } = await worker.sanitizeDocument(createDocument())
+
+    expect(report).toEqual({
+      metadata: 3,
+      javaScript: 2,
+      actions: 2,
+      embeddedFiles: 2,
+      thumbnails: 1,
+      privateData: 1,
+    })
+
+    const doc = mupdf.PDFDocument.openDocument(pdf, 'application/pdf')
+    const root = doc.getTrailer().get('Root')
+    const pageObj = doc.findPage(0)
+    expect(doc.getTrailer().get('Info').isNull()).toBe(true)
+    expect(root.get('Metadata').isNull()).toBe(true)
+    expect(root.get('OpenAction').isNull()).toBe(true)
+    expect(root.get('Names').get('JavaScript').isNull()).toBe(true)
+    expect(Object.keys(doc.getEmbeddedFiles())).toHaveLength(0)
+    expect(pageObj.get('Thumb').isNull()).toBe(true)
+    expect(pageObj.get('PieceInfo').isNull()).toBe(true)
+    expect(pageObj.get('AA').isNull()).toBe(true)
+
+    // Web links stay, the script link stays without its script
+    const page = doc.loadPage(0)
+    expect(page.getAnnotations().map(annot => annot.getType())).not.toContain('FileAttachment')
+    expect(page.getLinks().map(link => link.getURI())).toContain('https://example.com/')
+
+    // Nothing of the removed data is left in the file
+    const text = new TextDecoder('latin1').decode(new Uint8Array(pdf))
+    for (const secret of ['Secret plans', 'app.alert', 'private notes', 'not really a png', 'xmpmeta']) {
+      expect(text).not.toContain(secret)
+    }
+    doc.destroy()
+  })
+
+  it('should report nothing for a clean document', async () => {
+    const doc = new mupdf.PDFDocument()
+    doc.insertPage(0, doc.addPage([0, 0, 595, 842], 0, {}, ''))
+    const { report } = await worker.sanitizeDocument(toArrayBuffer(doc))
+    doc.destroy()
+
+    expect(Object.values(report).every(count => count === 0)).toBe(true)
+  })
+
+  it('should not count hidden data of objects the document no longer uses', async () => {
+    const doc = new mupdf.PDFDocument()
+    doc.insertPage(0, doc.addPage([0, 0, 595, 842], 0, {}, ''))
+    // Left over from an earlier revision, nothing refers to it
+    const oldPage = doc.newDictionary()
+    oldPage.put('Type', doc.newName('Page'))
+    oldPage.put('Thumb', doc.addStream('thumbnail', { Width: 1, Height: 1 }))
+    oldPage.put('PieceInfo', doc.newDictionary())
+    doc.addObject(oldPage)
+
+    const { report } = await worker.sanitizeDocument(toArrayBuffer(doc))
+    doc.destroy()
+
+    expect(Object.values(report).every(count => count === 0)).toBe(true)
+  })
+
+  it('should remove scripts from an array of chained actions', async () => {
+    const doc = new mupdf.PDFDocument()
+    doc.insertPage(0, doc.addPage([0, 0, 595, 842], 0, {}, ''))
+    const script = doc.newDictionary()
+    script.put('S', doc.newName('JavaScript'))
+    script.put('JS', doc.newString('app.alert("chained")'))
+    const goTo = doc.newDictionary()
+    goTo.put('S', doc.newName('GoTo'))
+    goTo.put('D', [doc.findPage(0), doc.newName('Fit')])
+    goTo.put('Next', [script])
+
+    const link = doc.newDictionary()
+    link.put('Type', doc.newName('Annot'))
+    link.put('Subtype', doc.newName('Link'))
+    link.put('Rect', [100, 100, 200, 120])
+    link.put('A', goTo)
+    doc.findPage(0).put('Annots', [doc.addObject(link)])
+
+    const { pdf, report } = await worker.sanitizeDocument(toArrayBuffer(doc))
+    doc.destroy()
+
+    expect(report.javaScript).toBe(1)
+    const sanitized = mupdf.PDFDocument.openDocument(pdf, 'application/pdf')
+    const action = sanitized.findPage(0).get('Annots').get(0).get('A')
+    expect(action.get('S').asName()).toBe('GoTo')
+    expect(action.get('Next').isNull()).toBe(true)
+    expect(new TextDecoder('latin1').decode(new Uint8Array(pdf))).not.toContain('app.alert')
+    sanitized.destroy()
+  })
+
+  it('should remove hidden data carried along with merged pages', async () => {
+    const merged = await worker.mergeDocuments([createDocument()])
+    const { pdf, report } = await worker.sanitizeDocument(merged)
+
+    // The source page, thumbnail and private data included, only comes along as the
+    // page of the file attachment, and is left out together with it
+    expect(report).toEqual({
+      metadata: 0,
+      javaScript: 0,
+      actions: 0,
+      embeddedFiles: 2,
+      thumbnails: 0,
+      privateData: 0,
+    })
+    const doc = mupdf.PDFDocument.openDocument(pdf, 'application/pdf')
+    expect(doc.loadPage(0).getAnnotations().map(annot => annot.getType())).not.toContain('FileAttachment')
+    const pages = []
+    for (let num = 1; num < doc.countObjects(); num++) {
+      const obj = doc.newIndirect(num)
+      if (obj.isDictionary() && obj.get('Type').isName() && obj.get('Type').asName() === 'Page') pages.push(obj)
+    }
+    expect(pages).toHaveLength(1)
+    doc.destroy()
+  })
+})
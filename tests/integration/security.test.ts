@@ -0,0 +1,74 @@
+import { describe, it, expect, beforeAll, vi } from 'vitest'
+import { readFile } from 'fs/promises'
+import * as mupdf from 'mupdf/mupdfjs'
+
+// Mock postMessage for worker environment
+global.postMessage = vi.fn(() => {}) as typeof postMessage
+
+import { MupdfWorker } from '../../src/workers/mupdf.worker'
+import { getEncryptionOptions, getPermissionFlags } from '../../src/workers/security'
+
+/**
+ * Output Security Tests
+ *
+ * These tests verify that merged documents can be encrypted with user and
+ * owner passwords, a choice of encryption method and permission flags.
+ */
+
+describe('Output Security Tests', () => {
+  let worker: MupdfWorker
+  let merged: ArrayBuffer
+
+  beforeAll(async () => {
+    worker = new MupdfWorker()
+
+    const buffer = await readFile('./tests/fixtures/test_document.pdf')
+    const arrayBuffer = new ArrayBuffer(buffer.length)
+    new Uint8Array(arrayBuffer).set(buffer)
+    merged = await worker.mergeDocuments([arrayBuffer, arrayBuffer])
+  })
+
+  it('should compute permission flags with only forbidden actions cleared', () => {
+    expect(getPermissionFlags()).toBe(-4)
+    expect(getPermissionFlags({ print: false })).toBe(-4 & ~4 & ~2048)
+    expect(getPermissionFlags({ copy: false, modify: true })).toBe(-4 & ~16)
+  })
+
+  it('should require a password without commas', () => {
+    expect(() => getEncryptionOptions({})).toThrow('password')
+    expect(() => getEncryptionOptions({ userPassword: 'a,b' })).toThrow('commas')
+    expect(getEncryptionOptions({ userPassword: 'secret' })).toBe('encrypt=aes-256,permissions=-4,user-password=secret')
+  })
+
+  it('should encrypt with AES-256 by default', async () => {
+    const protectedPdf = await worker.protectDocument(merged, { userPassword: 'secret', ownerPassword: 'owner' })
+
+    const doc = mupdf.PDFDocument.openDocument(protectedPdf, 'application/pdf')
+    expect(doc.needsPassword()).toBe(true)
+    expect(doc.authenticatePassword('wrong')).toBe(0)
+    expect(doc.authenticatePassword('secret')).toBeGreaterThan(0)
+    expect(doc.countPages()).toBe(6)
+
+    const encrypt = doc.getTrailer().get('Encrypt')
+    expect(encrypt.get('V').asNumber()).toBe(5)
+    expect(encrypt.get('R').asNumber()).toBe(6)
+    doc.destroy()
+  })
+
+  it('should restrict permissions behind the owner password', async () => {
+    const protectedPdf = await worker.protectDocument(merged, {
+      ownerPassword: 'owner',
+      method: 'aes-128',
+      permissions: { print: false, copy: false }
+    })
+
+    const doc = mupdf.PDFDocument.openDocument(protectedPdf, 'application/pdf')
+    // Without a user password anyone can open it, but not print or copy
+    expect(doc.needsPassword()).toBe(false)
+    expect(doc.getTrailer().get('Encrypt').get('V').asNumber()).toBe(4)
+    expect(doc.hasPermission('print')).toBe(false)
+    expect(doc.hasPermission('copy')).toBe(false)
+    expect(doc.hasPermission('edit')).toBe(true)
+    doc.destroy()
+  })
+})
@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeAll, vi } from 'vitest'
+import { readFile } from 'fs/promises'
+import * as mupdf from 'mupdf/mupdfjs'
+
+// Mock postMessage for worker environment
+global.postMessage = vi.fn(() => {}) as typeof postMessage
+
+import { MupdfWorker } from '../../src/workers/mupdf.worker'
+
+/**
+ * Separator Page Tests
+ *
+ * These tests verify that blank and title pages are put between merged files,
+ * and that files can be made to start on odd pages for duplex printing.
+ */
+
+describe('Separator Page Tests', () => {
+  let worker: MupdfWorker
+  let testFixtures: Record<string, ArrayBuffer>
+
+  function getPageTexts(buffer: ArrayBuffer): string[] {
+    const doc = mupdf.PDFDocument.openDocument(buffer, 'application/pdf')
+    const texts = Array.from({ length: doc.countPages() }, (_, i) => doc.loadPage(i).getText().trim())
+    doc.destroy()
+    return texts
+  }
+
+  beforeAll(async () => {
+    worker = new MupdfWorker()
+
+    for (const name of ['test_document', 'test_document3']) {
+      const buffer = await readFile(`./tests/fixtures/${name}.pdf`)
+      const arrayBuffer = new ArrayBuffer(buffer.length)
+      new Uint8Array(arrayBuffer).set(buffer)
+      testFixtures = { ...testFixtures, [name]: arrayBuffer }
+    }
+  })
+
+  it('should not add pages by default', async () => {
+    const merged = await worker.mergeDocuments([testFixtures.test_document, testFixtures.test_document3])
+    expect(getPageTexts(merged)).toHaveLength(7)
+  })
+
+  it('should put a blank page between files', async () => {
+    const merged = await worker.mergeDocuments(
+      [testFixtures.test_document, testFixtures.test_document3, testFixtures.test_document],
+      { separators: 'blank' }
+    )
+
+    const texts = getPageTexts(merged)
+    expect(texts).toHaveLength(12)
+    expect(texts[3]).toBe('')
+    expect(texts[8]).toBe('')
+    expect(texts[4]).not.toBe('')
+  })
+
+  it('should put a page with the name of the next file between files', async () => {
+    const merged = await worker.mergeDocuments(
+      [testFixtures.test_document, testFixtures.test_document3],
+      { separators: 'title', fileNames: ['first.pdf', 'second.pdf'] }
+    )
+
+    const doc = mupdf.PDFDocument.openDocument(merged, 'application/pdf')
+    expect(doc.countPages()).toBe(8)
+    expect(doc.loadPage(3).getText().trim()).toBe('second.pdf')
+    // The size of the page before it
+    expect(doc.loadPage(3).getBounds()).toEqual(doc.loadPage(2).getBounds())
+    doc.destroy()
+  })
+
+  it('should start every file on an odd page', async () => {
+    // 3 pages, a blank page, 4 pages, 3 pages
+    const merged = await worker.mergeDocuments(
+      [testFixtures.test_document, testFixtures.test_document3, testFixtures.test_document],
+      { separators: 'odd-page' }
+    )
+
+    const texts = getPageTexts(merged)
+    expect(texts).toHaveLength(11)
+    expect(texts[3]).toBe('')
+    expect(texts.filter(text => text === '')).toHaveLength(1)
+  })
+
+  it('should keep the first file on an odd page after the table of contents', async () => {
+    const merged = await worker.mergeDocuments(
+      [testFixtures.test_document3, testFixtures.test_document],
+      {
+        separators: 'odd-page',
+        tableOfContents: true,
+        fileNames: ['first.pdf', 'second.pdf'],
+        stamps: [{ template: 'Sheet side {page}', position: 'bottom-left', fontSize: 8, margin: 10, startNumber: 1 }],
+      }
+    )
+
+    const doc = mupdf.PDFDocument.openDocument(merged, 'application/pdf')
+    // Contents, a blank page, 4 pages, 3 pages
+    expect(doc.countPages()).toBe(9)
+    expect(doc.loadPage(1).getText().trim()).toBe('Sheet side 2')
+    expect(doc.loadPage(2).getText()).toContain('Sheet side 3')
+    const page = doc.loadPage(0)
+    const targets = page.getLinks().map(link => doc.resolveLink(link))
+    expect(targets).toEqual([2, 6])
+    expect(page.getText()).toMatch(/first\.pdf[\s.]*3/)
+    expect(page.getText()).toMatch(/second\.pdf[\s.]*7/)
+    doc.destroy()
+  })
+
+  it('should keep internal links pointing at their pages', async () => {
+    const merged = await worker.mergeDocuments(
+      [testFixtures.test_document3, testFixtures.test_document],
+      { separators: 'blank' }
+    )
+
+    const doc = mupdf.PDFDocument.openDocument(merged, 'application/pdf')
+    // The first page of the second file links to its third page
+    const page = doc.loadPage(5)
+    const targets = page.getLinks().filter(link => !link.isExternal()).map(link => doc.resolveLink(link))
+    expect(targets).toEqual([7])
+    doc.destroy()
+  })
+})
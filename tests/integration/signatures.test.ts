@@ -0,0 +1,122 @@
+import { describe, it, expect, beforeAll, vi } from 'vitest'
+import * as mupdf from 'mupdf/mupdfjs'
+
+// Mock postMessage for worker environment
+global.postMessage = vi.fn(() => {}) as typeof postMessage
+
+import { MupdfWorker } from '../../src/workers/mupdf.worker'
+
+/**
+ * Signatures Tests
+ *
+ * These tests verify that signed documents are detected, and that their
+ * signatures can be flattened into the pages when merging.
+ */
+
+describe('Signatures Tests', () => {
+  let worker: MupdfWorker
+
+  function toArrayBuffer(doc: mupdf.PDFDocument): ArrayBuffer {
+    return doc.saveToBuffer('').asUint8Array().slice().buffer
+  }
+
+  function createWidget(doc: mupdf.PDFDocument, type: string, name: string, rect: number[]): mupdf.PDFObject {
+    const widget = doc.newDictionary()
+    widget.put('Type', doc.newName('Annot'))
+    widget.put('Subtype', doc.newName('Widget'))
+    widget.put('FT', doc.newName(type))
+    widget.put('T', doc.newString(name))
+    widget.put('Rect', rect)
+    widget.put('F', 4)
+    return doc.addObject(widget)
+  }
+
+  // A page with a signed and an empty signature field and a text field,
+  // optionally certified
+  function createSignedDocument(certified = false): ArrayBuffer {
+    const doc = new mupdf.PDFDocument()
+    doc.insertPage(0, doc.addPage([0, 0, 595, 842], 0, {}, ''))
+
+    const signature = doc.newDictionary()
+    signature.put('Type', doc.newName('Sig'))
+    signature.put('Filter', doc.newName('Adobe.PPKLite'))
+    signature.put('Contents', doc.newString('0000'))
+    const signatureRef = doc.addObject(signature)
+
+    const signed = createWidget(doc, 'Sig', 'approval', [100, 100, 300, 150])
+    signed.put('V', signatureRef)
+    const appearance = doc.addStream('0 0 1 rg 0 0 100 25 re f', { Type: 'XObject', Subtype: 'Form', BBox: [0, 0, 100, 25] })
+    const ap = doc.newDictionary()
+    ap.put('N', appearance)
+    signed.put('AP', ap)
+    const empty = createWidget(doc, 'Sig', 'witness', [100, 200, 300, 250])
+    const text = createWidget(doc, 'Tx', 'name', [100, 300, 300, 320])
+
+    const widgets = doc.newArray()
+    const fields = doc.newArray()
+    for (const widget of [signed, empty, text]) {
+      widgets.push(widget)
+      fields.push(widget)
+    }
+    doc.findPage(0).put('Annots', widgets)
+    const form = doc.newDictionary()
+    form.put('Fields', fields)
+    form.put('SigFlags', 3)
+    const root = doc.getTrailer().get('Root')
+    root.put('AcroForm', doc.addObject(form))
+
+    if (certified) {
+      const perms = doc.newDictionary()
+      perms.put('DocMDP', signatureRef)
+      root.put('Perms', perms)
+    }
+    return toArrayBuffer(doc)
+  }
+
+  function createDocument(): ArrayBuffer {
+    const doc = new mupdf.PDFDocument()
+    doc.insertPage(0, doc.addPage([0, 0, 595, 842], 0, {}, ''))
+    return toArrayBuffer(doc)
+  }
+
+  beforeAll(() => {
+    worker = new MupdfWorker()
+  })
+
+  it('should find signed fields and certification', async () => {
+    expect(await worker.findSignatures(createSignedDocument())).toEqual({ signatures: 1, permissions: false })
+    expect(await worker.findSignatures(createSignedDocument(true))).toEqual({ signatures: 1, permissions: true })
+    expect(await worker.findSignatures(createDocument())).toEqual({ signatures: 0, permissions: false })
+  })
+
+  it('should keep signature fields unless they are flattened', async () => {
+    const merged = await worker.mergeDocuments([createDocument(), createSignedDocument()])
+
+    const doc = mupdf.PDFDocument.openDocument(merged, 'application/pdf') as mupdf.PDFDocument
+    expect(doc.findPage(1).get('Annots').length).toBe(3)
+    doc.destroy()
+  })
+
+  it('should draw signatures into the page and drop their fields when flattening', async () => {
+    const merged = await worker.mergeDocuments([createDocument(), createSignedDocument()], { flattenSignatures: true })
+
+    const doc = mupdf.PDFDocument.openDocument(merged, 'application/pdf') as mupdf.PDFDocument
+    const pageObj = doc.findPage(1)
+    const annots = pageObj.get('Annots')
+    expect(annots.length).toBe(1)
+    expect(annots.get(0).get('T').asString()).toBe('name')
+
+    const form = doc.getTrailer().get('Root').get('AcroForm')
+    expect(form.get('Fields').length).toBe(1)
+    expect(form.get('SigFlags').isNull()).toBe(true)
+
+    // The appearance, 100 by 25, is scaled onto the 200 by 50 widget rectangle
+    const contents = pageObj.get('Contents')
+    const content = contents.get(contents.length - 1).readStream().asString()
+    expect(content).toContain('2 0 0 2 100 100 cm')
+    expect(content).toContain('/MergeSignature0 Do')
+    expect(pageObj.get('Resources').get('XObject').get('MergeSignature0').isStream()).toBe(true)
+    expect(await worker.findSignatures(merged)).toEqual({ signatures: 0, permissions: false })
+    doc.destroy()
+  })
+})
@@ -0,0 +1,142 @@
+import { describe, it, expect, beforeAll, vi } from 'vitest'
+import { readFile } from 'fs/promises'
+import * as mupdf from 'mupdf/mupdfjs'
+
+// Mock postMessage for worker environment
+global.postMessage = vi.fn(() => {}) as typeof postMessage
+
+import { MupdfWorker } from '../../src/workers/mupdf.worker'
+import { splitAtBookmarks, splitBySize, splitEveryNPages } from '../../src/workers/split'
+
+/**
+ * Split Tests
+ *
+ * These tests verify splitting a document into parts by explicit ranges,
+ * every N pages, top-level bookmarks and target file size.
+ */
+
+describe('Split Tests', () => {
+  let worker: MupdfWorker
+  let testFixtures: Record<string, ArrayBuffer>
+
+  beforeAll(async () => {
+    worker = new MupdfWorker()
+
+    const fixtures = ['test_document.pdf', 'test_document3.pdf', 'diplom.pdf']
+
+    testFixtures = {}
+    for (const fixture of fixtures) {
+      const buffer = await readFile(`./tests/fixtures/${fixture}`)
+      const arrayBuffer = new ArrayBuffer(buffer.length)
+      const uint8View = new Uint8Array(arrayBuffer)
+      uint8View.set(buffer)
+      testFixtures[fixture.replace('.pdf', '')] = arrayBuffer
+    }
+
+    // test_document3 (4 pages) with top-level bookmarks on pages 2 and 4
+    const doc = mupdf.PDFDocument.openDocument(testFixtures.test_document3, 'application/pdf')
+    const iterator = doc.outlineIterator()
+    iterator.insert({ title: 'Chapter 1', uri: '#page=2&view=Fit', open: true })
+    iterator.prev()
+    iterator.down()
+    iterator.insert({ title: 'Section 1.1', uri: '#page=3&view=Fit', open: true })
+    iterator.up()
+    iterator.next()
+    iterator.insert({ title: 'Chapter 2', uri: '#page=4&view=Fit', open: true })
+    iterator.destroy()
+    testFixtures.with_outline = doc.saveToBuffer('').asUint8Array().slice().buffer
+    doc.destroy()
+  })
+
+  function pageCount(data: ArrayBuffer): number {
+    const doc = mupdf.PDFDocument.openDocument(data, 'application/pdf')
+    const count = doc.countPages()
+    doc.destroy()
+    return count
+  }
+
+  it('should split by explicit ranges', async () => {
+    const parts = await worker.splitDocument(testFixtures.test_document3, { type: 'ranges', ranges: [[0, 1], [3], [2, 3]] })
+
+    expect(parts.map(part => part.pages)).toEqual([[0, 1], [3], [2, 3]])
+    expect(parts.map(part => pageCount(part.data))).toEqual([2, 1, 2])
+  })
+
+  it('should keep links within a part and drop links out of it', async () => {
+    // test_document3 page 4 links to page 1, page 3 links to page 2
+    const [part] = await worker.splitDocument(testFixtures.test_document3, { type: 'ranges', ranges: [[1, 2, 3]] })
+
+    const doc = mupdf.PDFDocument.openDocument(part.data, 'application/pdf')
+    const internal = (i: number) => doc.loadPage(i).getLinks().filter(link => !link.isExternal())
+    expect(internal(0).length).toBe(0)
+    expect(doc.resolveLink(internal(1)[0])).toBe(0)
+    expect(internal(2).length).toBe(0)
+    doc.destroy()
+  })
+
+  it('should split every N pages', async () => {
+    const parts = await worker.splitDocument(testFixtures.test_document3, { type: 'everyNPages', pagesPerPart: 3 })
+
+    expect(parts.map(part => part.pages)).toEqual([[0, 1, 2], [3]])
+    expect(parts.map(part => pageCount(part.data))).toEqual([3, 1])
+  })
+
+  it('should split at each top-level bookmark', async () => {
+    const parts = await worker.splitDocument(testFixtures.with_outline, { type: 'bookmarks' })
+
+    expect(parts.map(part => part.title)).toEqual([undefined, 'Chapter 1', 'Chapter 2'])
+    expect(parts.map(part => part.pages)).toEqual([[0], [1, 2], [3]])
+  })
+
+  it('should keep the bookmarks of a part at top level', async () => {
+    const [part] = await worker.splitDocument(testFixtures.with_outline, { type: 'ranges', ranges: [[1, 2, 3]] }, 'book.pdf')
+
+    const doc = mupdf.PDFDocument.openDocument(part.data, 'application/pdf')
+    const outline = doc.loadOutline() ?? []
+    expect(outline.map(item => item.title)).toEqual(['Chapter 1', 'Chapter 2'])
+    expect(outline[0].down?.map(item => item.title)).toEqual(['Section 1.1'])
+    doc.destroy()
+  })
+
+  it('should fail to split by bookmarks without an outline', async () => {
+    await expect(worker.splitDocument(testFixtures.test_document, { type: 'bookmarks' }))
+      .rejects.toThrow('no bookmarks')
+  })
+
+  it('should split into parts below a file size', async () => {
+    const whole = await worker.splitDocument(testFixtures.diplom, { type: 'fileSize', maxBytes: Number.MAX_SAFE_INTEGER })
+    expect(whole.length).toBe(1)
+    expect(whole[0].pages).toEqual([0, 1, 2, 3])
+
+    const perPage = await worker.splitDocument(testFixtures.diplom, { type: 'fileSize', maxBytes: 1 })
+    expect(perPage.map(part => part.pages)).toEqual([[0], [1], [2], [3]])
+  })
+
+  it('should count pages', async () => {
+    expect(await worker.countPages(testFixtures.test_document)).toBe(3)
+  })
+
+  describe('Split plans', () => {
+    it('should chunk pages', () => {
+      expect(splitEveryNPages(5, 2).map(part => part.pages)).toEqual([[0, 1], [2, 3], [4]])
+      expect(() => splitEveryNPages(5, 0)).toThrow()
+    })
+
+    it('should start parts at bookmarks on distinct pages', () => {
+      const parts = splitAtBookmarks(6, [
+        { title: 'B', page: 3 },
+        { title: 'A', page: 0 },
+        { title: 'A2', page: 0 },
+        { title: 'Outside', page: 9 }
+      ])
+      expect(parts).toEqual([
+        { title: 'A', pages: [0, 1, 2] },
+        { title: 'B', pages: [3, 4, 5] }
+      ])
+    })
+
+    it('should group pages by size', () => {
+      expect(splitBySize([40, 40, 40, 120, 10], 100).map(part => part.pages)).toEqual([[0, 1], [2], [3], [4]])
+    })
+  })
+})
@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeAll, vi } from 'vitest'
+import { readFile } from 'fs/promises'
+import * as mupdf from 'mupdf/mupdfjs'
+
+// Mock postMessage for worker environment
+global.postMessage = vi.fn(() => {}) as typeof postMessage
+
+import { MupdfWorker } from '../../src/workers/mupdf.worker'
+
+/**
+ * Table of Contents Tests
+ *
+ * These tests verify that the generated contents pages list every merged file
+ * with its first page, link to it, and that other links still find their pages.
+ */
+
+describe('Table of Contents Tests', () => {
+  let worker: MupdfWorker
+  let testFixtures: Record<string, ArrayBuffer>
+
+  // Target page of every internal link on a page
+  function getLinkTargets(doc: mupdf.PDFDocument, pageIndex: number): number[] {
+    const page = doc.loadPage(pageIndex)
+    const targets = page.getLinks().filter(link => !link.isExternal()).map(link => doc.resolveLink(link))
+    page.destroy()
+    return targets
+  }
+
+  beforeAll(async () => {
+    worker = new MupdfWorker()
+
+    for (const name of ['test_document', 'test_document3']) {
+      const buffer = await readFile(`./tests/fixtures/${name}.pdf`)
+      const arrayBuffer = new ArrayBuffer(buffer.length)
+      new Uint8Array(arrayBuffer).set(buffer)
+      testFixtures = { ...testFixtures, [name]: arrayBuffer }
+    }
+
+  })
+
+  it('should list every file with its first page', async () => {
+    const merged = await worker.mergeDocuments(
+      [testFixtures.test_document, testFixtures.test_document3],
+      { fileNames: ['first.pdf', 'second.pdf'], tableOfContents: true }
+    )
+
+    const doc = mupdf.PDFDocument.openDocument(merged, 'application/pdf')
+    expect(doc.countPages()).toBe(8)
+    const text = doc.loadPage(0).getText()
+    expect(text).toContain('Contents')
+    expect(text).toMatch(/first\.pdf[\s.]*2/)
+    expect(text).toMatch(/second\.pdf[\s.]*5/)
+    expect(getLinkTargets(doc, 0)).toEqual([1, 4])
+    expect(doc.loadPage(1).getText()).toContain('Page 1')
+    doc.destroy()
+  })
+
+  it('should keep internal links pointing at their pages', async () => {
+    const merged = await worker.mergeDocuments(
+      [testFixtures.test_document3, testFixtures.test_document],
+      { tableOfContents: true }
+    )
+
+    const doc = mupdf.PDFDocument.openDocument(merged, 'application/pdf')
+    // Contents, 4 pages of the first file, then the file whose first page links to its third
+    expect(getLinkTargets(doc, 1)).toEqual([4])
+    expect(getLinkTargets(doc, 5)).toEqual([7])
+    doc.destroy()
+  })
+
+  it('should bookmark the contents before the files', async () => {
+    const merged = await worker.mergeDocuments(
+      [testFixtures.test_document, testFixtures.test_document3],
+      { fileNames: ['first.pdf', 'second.pdf'], tableOfContents: true }
+    )
+
+    const doc = mupdf.PDFDocument.openDocument(merged, 'application/pdf')
+    const outline = doc.loadOutline()!
+    expect(outline.map(item => item.title)).toEqual(['Contents', 'first.pdf', 'second.pdf'])
+    expect(outline.map(item => item.page)).toEqual([0, 1, 4])
+    doc.destroy()
+  })
+
+  it('should continue on more pages for many files, in the order pages are merged', async () => {
+    const documents = Array.from({ length: 40 }, () => testFixtures.test_document)
+    const fileNames = documents.map((_, i) => `file-${i + 1}.pdf`)
+    const merged = await worker.mergeDocuments(documents, {
+      fileNames,
+      pages: documents.map(() => [0]),
+      tableOfContents: true,
+    })
+
+    const doc = mupdf.PDFDocument.openDocument(merged, 'application/pdf')
+    expect(doc.countPages()).toBe(42)
+    expect(doc.loadPage(0).getText()).toContain('file-1.pdf')
+    expect(doc.loadPage(1).getText()).toContain('file-40.pdf')
+    const targets = [...getLinkTargets(doc, 0), ...getLinkTargets(doc, 1)]
+    expect(targets).toEqual(fileNames.map((_, i) => i + 2))
+    doc.destroy()
+  })
+
+  it('should shorten long file names and count the contents in page numbers', async () => {
+    const merged = await worker.mergeDocuments([testFixtures.test_document], {
+      fileNames: [`${'very long name '.repeat(10)}.pdf`],
+      tableOfContents: true,
+      stamps: [{ template: 'Page {page} of {total}', position: 'bottom-center', fontSize: 10, margin: 20, startNumber: 1 }],
+    })
+
+    const doc = mupdf.PDFDocument.openDocument(merged, 'application/pdf')
+    const text = doc.loadPage(0).getText()
+    expect(text).toMatch(/very long name very long\w*…/)
+    expect(text).not.toContain('.pdf')
+    expect(text).toContain('Page 1 of 4')
+    expect(doc.loadPage(3).getText()).toContain('Page 4 of 4')
+    doc.destroy()
+  })
+})
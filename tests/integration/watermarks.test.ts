@@ -0,0 +1,173 @@
+import { describe, it, expect, beforeAll, vi } from 'vitest'
+import { readFile } from 'fs/promises'
+import * as mupdf from 'mupdf/mupdfjs'
+
+// Mock postMessage for worker environment
+global.postMessage = vi.fn(() => {}) as typeof postMessage
+
+import { MupdfWorker, WATERMARK_ERROR, type Watermark } from '../../src/workers/mupdf.worker'
+
+/**
+ * Watermark Tests
+ *
+ * These tests verify that text and image watermarks are drawn onto merged
+ * pages, over or under their content, upright inside the visible area.
+ */
+
+describe('Watermark Tests', () => {
+  let worker: MupdfWorker
+  let testFixtures: Record<string, ArrayBuffer>
+
+  const draft: Watermark = {
+    content: { type: 'text', text: 'DRAFT', fontSize: 40 },
+    opacity: 1,
+    angle: 0,
+    position: 'center',
+    tile: false,
+    layer: 'over',
+  }
+
+  function toArrayBuffer(data: Uint8Array): ArrayBuffer {
+    const arrayBuffer = new ArrayBuffer(data.length)
+    new Uint8Array(arrayBuffer).set(data)
+    return arrayBuffer
+  }
+
+  // Bounding box [x0, y0, x1, y1] of the dark pixels of a rendered page
+  function getInkBox(page: mupdf.PDFPage): number[] | undefined {
+    const pixmap = page.toPixmap(mupdf.Matrix.identity, mupdf.ColorSpace.DeviceGray, false)
+    const pixels = pixmap.getPixels()
+    let box: number[] | undefined
+    for (let y = 0; y < pixmap.getHeight(); y++) {
+      for (let x = 0; x < pixmap.getWidth(); x++) {
+        if (pixels[y * pixmap.getStride() + x] < 128) {
+          box = box ? [Math.min(box[0], x), Math.min(box[1], y), Math.max(box[2], x), Math.max(box[3], y)] : [x, y, x, y]
+        }
+      }
+    }
+    pixmap.destroy()
+    return box
+  }
+
+  beforeAll(async () => {
+    worker = new MupdfWorker()
+
+    const buffer = await readFile('./tests/fixtures/test_document.pdf')
+    const arrayBuffer = new ArrayBuffer(buffer.length)
+    new Uint8Array(arrayBuffer).set(buffer)
+    testFixtures = { test_document: arrayBuffer }
+
+    // Empty pages: a portrait page with a crop box in its lower left, shown in landscape, and a plain one
+    const doc = new mupdf.PDFDocument()
+    const rotated = doc.addPage([0, 0, 400, 600], 90, {}, '')
+    const cropBox = doc.newArray()
+    for (const n of [0, 0, 300, 400]) cropBox.push(n)
+    rotated.put('CropBox', cropBox)
+    doc.insertPage(-1, rotated)
+    doc.insertPage(-1, doc.addPage([0, 0, 400, 600], 0, {}, ''))
+    testFixtures.empty = doc.saveToBuffer('').asUint8Array().slice().buffer
+    doc.destroy()
+
+    const pixmap = new mupdf.Pixmap(mupdf.ColorSpace.DeviceRGB, [0, 0, 20, 10], false)
+    pixmap.clear(0)
+    testFixtures.logo = toArrayBuffer(pixmap.asPNG())
+    pixmap.destroy()
+  })
+
+  it('should draw text over the page content', async () => {
+    const merged = await worker.mergeDocuments([testFixtures.test_document], { watermark: { ...draft, opacity: 0.3 } })
+
+    const doc = mupdf.PDFDocument.openDocument(merged, 'application/pdf')
+    expect(doc.countPages()).toBe(3)
+    for (let i = 0; i < doc.countPages(); i++) {
+      const page = doc.loadPage(i)
+      expect(page.getText()).toContain('DRAFT')
+      expect(page.getText()).toContain(`Page ${i + 1}`)
+      page.destroy()
+    }
+
+    // Drawn last, half transparent
+    const pageObj = doc.findPage(0)
+    const contents = pageObj.get('Contents')
+    expect(contents.get(contents.length - 1).readStream().asString()).toContain('(DRAFT) Tj')
+    const state = pageObj.get('Resources').get('ExtGState').get('MergeWatermarkState')
+    expect(state.get('ca').asNumber()).toBeCloseTo(0.3)
+    doc.destroy()
+  })
+
+  it('should draw under the page content when asked', async () => {
+    const merged = await worker.mergeDocuments([testFixtures.test_document], { watermark: { ...draft, layer: 'under' } })
+
+    const doc = mupdf.PDFDocument.openDocument(merged, 'application/pdf')
+    const contents = doc.findPage(0).get('Contents')
+    expect(contents.get(0).readStream().asString()).toContain('(DRAFT) Tj')
+    expect(contents.get(contents.length - 1).readStream().asString()).not.toContain('DRAFT')
+    doc.destroy()
+  })
+
+  it('should center the watermark upright in the crop box of rotated pages', async () => {
+    const merged = await worker.mergeDocuments([testFixtures.empty], { watermark: draft, pages: [[0]] })
+
+    const doc = mupdf.PDFDocument.openDocument(merged, 'application/pdf')
+    const page = doc.loadPage(0)
+    // The crop box as shown, a quarter turn
+    expect(page.getBounds()).toEqual([0, 0, 400, 300])
+    const [x0, y0, x1, y1] = getInkBox(page)!
+    expect(Math.abs((x0 + x1) / 2 - 200)).toBeLessThan(4)
+    expect(Math.abs((y0 + y1) / 2 - 150)).toBeLessThan(8)
+    // Reads across the page, not down
+    expect(x1 - x0).toBeGreaterThan(y1 - y0)
+    doc.destroy()
+  })
+
+  it('should repeat a tiled watermark over the page', async () => {
+    const tiled: Watermark = { ...draft, content: { type: 'text', text: 'DRAFT', fontSize: 12 }, angle: 30, tile: true }
+    const merged = await worker.mergeDocuments([testFixtures.empty], { watermark: tiled, pages: [[1]] })
+
+    const doc = mupdf.PDFDocument.openDocument(merged, 'application/pdf')
+    const page = doc.loadPage(0)
+    expect(page.getText().match(/DRAFT/g)!.length).toBeGreaterThan(10)
+    const [x0, y0, x1, y1] = getInkBox(page)!
+    expect(x0).toBeLessThan(50)
+    expect(y0).toBeLessThan(50)
+    expect(x1).toBeGreaterThan(350)
+    expect(y1).toBeGreaterThan(550)
+    doc.destroy()
+  })
+
+  it('should place an image watermark at its position', async () => {
+    const logo: Watermark = { ...draft, content: { type: 'image', data: testFixtures.logo, width: 25 }, position: 'bottom-right' }
+    const merged = await worker.mergeDocuments([testFixtures.empty], { watermark: logo, pages: [[1]] })
+
+    const doc = mupdf.PDFDocument.openDocument(merged, 'application/pdf')
+    const page = doc.loadPage(0)
+    // A quarter of the page wide, keeping its aspect ratio, inside the margin
+    const [x0, y0, x1, y1] = getInkBox(page)!
+    expect(x1 - x0 + 1).toBeCloseTo(100, -1)
+    expect(y1 - y0 + 1).toBeCloseTo(50, -1)
+    expect(x1).toBeCloseTo(400 - 36, -1)
+    expect(y1).toBeCloseTo(600 - 36, -1)
+    doc.destroy()
+  })
+
+  it('should show the watermark in previews', async () => {
+    const plain = await worker.renderFirstPage(testFixtures.test_document)
+    const watermarked = await worker.renderFirstPage(testFixtures.test_document, 0, draft)
+    expect(watermarked).toMatch(/^data:image\/png;base64,/)
+    expect(watermarked).not.toBe(plain)
+  })
+
+  it('should reject invalid watermarks', async () => {
+    await expect(worker.mergeDocuments([testFixtures.test_document], {
+      watermark: { ...draft, content: { type: 'text', text: ' ', fontSize: 40 } }
+    })).rejects.toThrow('Watermark text is empty')
+    await expect(worker.mergeDocuments([testFixtures.test_document], {
+      watermark: { ...draft, content: { type: 'image', data: testFixtures.test_document, width: 20 } }
+    })).rejects.toThrow('PNG or JPEG')
+    await expect(worker.mergeDocuments([testFixtures.test_document], {
+      watermark: { ...draft, angle: NaN }
+    })).rejects.toHaveProperty('name', WATERMARK_ERROR)
+    await expect(worker.mergeDocuments([testFixtures.test_document], { watermark: { ...draft, opacity: 2 } }))
+      .rejects.toThrow('opacity')
+  })
+})
@@ -0,0 +1,15 @@
+import { describe, it, expect } from 'vitest'
+import { pdfFileName } from '../../src/lib/file-names'
+
+describe('File Names', () => {
+  it('should name downloads after the document title', () => {
+    expect(pdfFileName('Annual Report 2024')).toBe('Annual Report 2024.pdf')
+    expect(pdfFileName('  Q1/Q2: "draft"\n')).toBe('Q1_Q2_ _draft_.pdf')
+  })
+
+  it('should fall back to a default name without a usable title', () => {
+    expect(pdfFileName(undefined)).toBe('merged.pdf')
+    expect(pdfFileName('   ')).toBe('merged.pdf')
+    expect(pdfFileName('...')).toBe('merged.pdf')
+  })
+})
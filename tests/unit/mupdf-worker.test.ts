@@ -54,13 +54,6 @@ describe('MupdfWorker - Link and Form Preservation', () => {
     expect(preview).toMatch(/^data:image\/png;base64,/)
   })
 
-  it('should rotate document', async () => {
-    const rotated = await worker.rotateDocument(testDocument)
-    
-    expect(rotated).toBeInstanceOf(Uint8Array)
-    expect(rotated.length).toBeGreaterThan(0)
-  })
-
   it('should merge documents with forms', async () => {
     // Test merging with form document
     const merged = await worker.mergeDocuments([testDocument, formDocument, testDocument3])
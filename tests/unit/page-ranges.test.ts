@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest'
+import { parsePageRanges, formatPageRanges, parseSplitRanges } from '../../src/lib/page-ranges'
+
+describe('Page Ranges', () => {
+  it('should parse single pages and ranges as 0-based indexes', () => {
+    expect(parsePageRanges('1-3,7', 10)).toEqual([0, 1, 2, 6])
+    expect(parsePageRanges(' 2 , 4 - 5 ', 10)).toEqual([1, 3, 4])
+  })
+
+  it('should parse open-ended ranges', () => {
+    expect(parsePageRanges('1-3,7,10-', 12)).toEqual([0, 1, 2, 6, 9, 10, 11])
+    expect(parsePageRanges('-2', 5)).toEqual([0, 1])
+  })
+
+  it('should keep the listed order and skip repeated pages', () => {
+    expect(parsePageRanges('5,1-3,2', 5)).toEqual([4, 0, 1, 2])
+  })
+
+  it('should return an empty selection for empty text', () => {
+    expect(parsePageRanges('', 5)).toEqual([])
+    expect(parsePageRanges(' , ', 5)).toEqual([])
+  })
+
+  it('should reject invalid selections', () => {
+    expect(parsePageRanges('0', 5)).toBeNull()
+    expect(parsePageRanges('6', 5)).toBeNull()
+    expect(parsePageRanges('4-2', 5)).toBeNull()
+    expect(parsePageRanges('1-3-5', 5)).toBeNull()
+    expect(parsePageRanges('-', 5)).toBeNull()
+    expect(parsePageRanges('a', 5)).toBeNull()
+  })
+
+  it('should format consecutive pages as ranges', () => {
+    expect(formatPageRanges([0, 1, 2, 6, 9, 10])).toBe('1-3,7,10-11')
+    expect(formatPageRanges([4, 0, 1])).toBe('5,1-2')
+    expect(formatPageRanges([])).toBe('')
+  })
+
+  it('should parse every split range as its own part', () => {
+    expect(parseSplitRanges('1-3,4-8,9-', 10)).toEqual([[0, 1, 2], [3, 4, 5, 6, 7], [8, 9]])
+    expect(parseSplitRanges('2, 2', 3)).toEqual([[1], [1]])
+    expect(parseSplitRanges('1-3,5', 4)).toBeNull()
+  })
+})
@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest'
+import { unzipSync } from 'fflate'
+import { splitPartFileName, zipSplitParts } from '../../src/lib/split-files'
+
+describe('Split Files', () => {
+  it('should name parts after their page range or bookmark title', () => {
+    expect(splitPartFileName('scan.PDF', { pages: [0, 1, 2] })).toBe('scan_pages_1-3.pdf')
+    expect(splitPartFileName('scan.pdf', { pages: [4], title: 'Part 1: Intro/Notes' })).toBe('scan_Part 1_ Intro_Notes.pdf')
+  })
+
+  it('should zip every part under its own name', () => {
+    const zip = zipSplitParts('report.pdf', [
+      { pages: [0], title: 'Chapter', data: new Uint8Array([1, 2, 3]) },
+      { pages: [1], title: 'Chapter', data: new Uint8Array([4]) },
+      { pages: [2, 3], data: new Uint8Array([5, 6]) }
+    ])
+
+    const files = unzipSync(zip)
+    expect(Object.keys(files)).toEqual(['report_Chapter.pdf', 'report_Chapter_2.pdf', 'report_pages_3-4.pdf'])
+    expect(Array.from(files['report_Chapter_2.pdf'])).toEqual([4])
+  })
+
+  it('should number a part again when its numbered name is taken', () => {
+    const zip = zipSplitParts('scan.pdf', [
+      { pages: [0], title: 'A', data: new Uint8Array([1]) },
+      { pages: [1], title: 'A_3', data: new Uint8Array([2]) },
+      { pages: [2], title: 'A', data: new Uint8Array([3]) }
+    ])
+
+    const files = unzipSync(zip)
+    expect(Object.keys(files)).toEqual(['scan_A.pdf', 'scan_A_3.pdf', 'scan_A_4.pdf'])
+    expect(Array.from(files['scan_A_3.pdf'])).toEqual([2])
+    expect(Array.from(files['scan_A_4.pdf'])).toEqual([3])
+  })
+})